@@ -36,6 +36,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       "POST /api/shaurya-ai-enhanced": "Enhanced AI with deep NAS insights",
       "POST /api/nas-ai": "Neural Architecture Search AI operations",
       "POST /api/optimization": "Model optimization and search algorithms",
+      "GET /api/search-space": "List the named search-space templates",
+      "POST /api/search-space":
+        "Validate a search-space DSL, report its cardinality and sample it",
       "POST /api/external-ai": "External AI service integration",
     },
     features: {
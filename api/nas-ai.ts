@@ -1,7 +1,60 @@
 import { VercelRequest, VercelResponse } from "@vercel/node";
+import { calibrateFromRows } from "../server/nas/benchmarks";
+import { rankArchitectures } from "../server/nas/comparison";
+import { checkMetrics } from "../server/nas/constraints";
+import {
+  DEFAULT_DEVICE,
+  DeviceProfile,
+  getDeviceProfile,
+  listDeviceProfiles,
+} from "../server/nas/devices";
+import { getEvaluationCache } from "../server/nas/evaluationCache";
+import {
+  estimateArchitectureMetrics,
+  fitnessFromMetrics,
+} from "../server/nas/evaluator";
+import {
+  AccuracyPredictor,
+  FEATURE_NAMES,
+  planPredictor,
+  setAccuracyPredictor,
+} from "../server/nas/predictor";
+import { SeededRandom } from "../server/nas/random";
+import { inferGraphShapes, inferShapes } from "../server/nas/shapes";
+import {
+  planTransforms,
+  transformArchitecture,
+} from "../server/nas/transforms";
+import { SearchConstraints } from "../server/nas/types";
+import {
+  graphToLayers,
+  GraphValidationError,
+} from "../shared/architectureGraph";
+import {
+  isSearchSpaceSpec,
+  parseSearchSpace,
+  sampleSearchSpace,
+  SearchSpaceSpec,
+} from "../shared/searchSpace";
+import {
+  getSearchSpaceTemplate,
+  SEARCH_SPACE_TEMPLATES,
+  SearchSpaceTemplate,
+} from "../shared/searchSpaceTemplates";
+import {
+  loadBenchmarkRows,
+  loadTrainingSamples,
+} from "../server/nas/trainingData";
 
 interface NASRequest {
-  operation: "evaluate" | "optimize" | "suggest" | "compare";
+  operation:
+    | "evaluate"
+    | "optimize"
+    | "suggest"
+    | "compare"
+    | "calibrate"
+    | "retrain"
+    | "cache";
   architecture?: any;
   constraints?: {
     maxParams?: number;
@@ -10,6 +63,11 @@ interface NASRequest {
     powerBudget?: number;
   };
   dataset?: string;
+  // Device profile whose latency is reported as estimatedLatency
+  device?: string;
+  // Search used by "optimize"
+  strategy?: "greedy" | "beam";
+  // "suggest" samples this template name or DSL space, or every template
   searchSpace?: any;
   currentBest?: any[];
 }
@@ -21,9 +79,13 @@ interface NASResponse {
   score?: number;
   metrics?: {
     estimatedAccuracy?: number;
+    accuracyInterval?: { lower: number; upper: number };
     estimatedLatency?: number;
+    latencyByDevice?: Record<string, number>;
     parameterCount?: number;
     flops?: number;
+    macs?: number;
+    activationMemory?: number;
     modelSize?: number;
     efficiencyScore?: number;
   };
@@ -55,6 +117,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       architecture,
       constraints,
       dataset,
+      device = DEFAULT_DEVICE,
+      strategy = "greedy",
       searchSpace,
       currentBest,
     } = req.body as NASRequest;
@@ -66,24 +130,64 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
+    if (!getDeviceProfile(device)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown device "${device}"; expected one of ${listDeviceProfiles()
+          .map((p) => p.id)
+          .join(", ")}`,
+      });
+    }
+
+    if (strategy !== "greedy" && strategy !== "beam") {
+      return res.status(400).json({
+        success: false,
+        error: 'Strategy must be "greedy" or "beam"',
+      });
+    }
+
     let result: NASResponse;
 
     switch (operation) {
       case "evaluate":
-        result = await evaluateArchitecture(architecture, dataset, constraints);
+        result = await evaluateArchitecture(
+          architecture,
+          dataset,
+          constraints,
+          device,
+        );
         break;
       case "optimize":
-        result = await optimizeArchitecture(architecture, constraints);
+        result = await optimizeArchitecture(
+          architecture,
+          constraints,
+          dataset,
+          device,
+          strategy,
+        );
         break;
       case "suggest":
-        result = await suggestArchitectures(
-          searchSpace,
-          constraints,
+        result = await suggestArchitectures(searchSpace, constraints, dataset);
+        break;
+      case "compare":
+        result = await compareArchitectures(
           currentBest,
+          constraints,
+          dataset,
+          device,
         );
         break;
-      case "compare":
-        result = await compareArchitectures(currentBest, constraints);
+      case "calibrate":
+        result = await calibrateDevices();
+        break;
+      case "retrain":
+        result = await retrainPredictor();
+        break;
+      case "cache":
+        result = {
+          success: true,
+          result: (await getEvaluationCache()).stats(),
+        };
         break;
       default:
         return res.status(400).json({
@@ -107,6 +211,7 @@ async function evaluateArchitecture(
   architecture: any,
   dataset: string = "imagenet",
   constraints?: any,
+  device: string = DEFAULT_DEVICE,
 ): Promise<NASResponse> {
   // Simulate architecture evaluation using Shaurya AI's neural network expertise
   if (!architecture) {
@@ -116,61 +221,37 @@ async function evaluateArchitecture(
     };
   }
 
-  // Calculate estimated metrics based on architecture
-  const layers = architecture.layers || [];
-  let parameterCount = 0;
-  let flops = 0;
-  let estimatedLatency = 0;
-
-  // Analyze each layer
-  layers.forEach((layer: any, index: number) => {
-    switch (layer.type) {
-      case "conv2d":
-        const filters = layer.filters || 32;
-        const kernelSize = layer.kernel_size || 3;
-        const inputChannels = index === 0 ? 3 : layers[index - 1].filters || 32;
-        parameterCount += filters * inputChannels * kernelSize * kernelSize;
-        flops +=
-          parameterCount *
-          (layer.input_shape?.[1] || 224) *
-          (layer.input_shape?.[2] || 224);
-        estimatedLatency += filters * 0.001; // ms per filter
-        break;
-      case "dense":
-        const units = layer.units || 128;
-        const inputSize = layer.input_size || 1024;
-        parameterCount += units * inputSize;
-        flops += parameterCount;
-        estimatedLatency += units * 0.0001;
-        break;
-      case "batch_norm":
-        parameterCount += (layer.features || 32) * 2;
-        estimatedLatency += 0.05;
-        break;
-      case "dropout":
-        estimatedLatency += 0.01;
-        break;
+  let evaluation;
+  try {
+    const cache = await getEvaluationCache();
+    evaluation = await cache.getOrCompute(
+      { architecture, dataset, device },
+      () => ({
+        metrics: estimateArchitectureMetrics(architecture, dataset, device),
+        analysis: architecture.graph
+          ? inferGraphShapes(
+              architecture.graph,
+              dataset,
+              architecture.inputShape,
+            )
+          : inferShapes(
+              architecture.layers || [],
+              dataset,
+              architecture.inputShape,
+            ),
+      }),
+    );
+  } catch (error) {
+    if (error instanceof GraphValidationError) {
+      return { success: false, error: error.message };
     }
-  });
-
-  // Estimate accuracy based on complexity and dataset
-  let baseAccuracy = 0.7; // 70% baseline
-  if (dataset === "cifar10") baseAccuracy = 0.85;
-  if (dataset === "cifar100") baseAccuracy = 0.6;
-  if (dataset === "imagenet") baseAccuracy = 0.7;
-
-  // Adjust based on model complexity
-  const complexityFactor = Math.min(parameterCount / 1000000, 10) / 10; // Normalize to 0-1
-  const estimatedAccuracy = Math.min(
-    baseAccuracy + complexityFactor * 0.2,
-    0.98,
-  );
-
-  // Calculate efficiency score
-  const efficiencyScore =
-    (estimatedAccuracy * 100) / (parameterCount / 1000000 + estimatedLatency);
+    throw error;
+  }
+  const { metrics, analysis: shapes } = evaluation.value;
+  const { parameterCount, estimatedLatency, efficiencyScore } = metrics;
+  const layers = shapes.layers;
 
-  const suggestions = [];
+  const suggestions = [...shapes.warnings];
   if (parameterCount > 50000000)
     suggestions.push(
       "Consider using depth-wise separable convolutions to reduce parameters",
@@ -184,14 +265,13 @@ async function evaluateArchitecture(
 
   return {
     success: true,
-    score: Math.round(efficiencyScore * 100) / 100,
-    metrics: {
-      estimatedAccuracy: Math.round(estimatedAccuracy * 1000) / 1000,
-      estimatedLatency: Math.round(estimatedLatency * 100) / 100,
-      parameterCount,
-      flops,
-      modelSize: Math.round(((parameterCount * 4) / (1024 * 1024)) * 100) / 100, // MB
-      efficiencyScore: Math.round(efficiencyScore * 100) / 100,
+    score: efficiencyScore,
+    metrics,
+    result: {
+      inputShape: shapes.inputShape,
+      outputShape: shapes.outputShape,
+      layers: shapes.layers,
+      cache: evaluation.source,
     },
     suggestions,
     optimizations: [
@@ -205,156 +285,176 @@ async function evaluateArchitecture(
 
 async function optimizeArchitecture(
   architecture: any,
-  constraints?: any,
+  constraints: NASRequest["constraints"],
+  dataset: string = "imagenet",
+  device: string = DEFAULT_DEVICE,
+  strategy: "greedy" | "beam" = "greedy",
 ): Promise<NASResponse> {
-  const optimizations = [];
-  let optimizedArch = { ...architecture };
-
-  if (
-    constraints?.maxParams &&
-    architecture.parameters > constraints.maxParams
-  ) {
-    optimizations.push("Reducing layer sizes to meet parameter constraints");
-    optimizedArch.layers = architecture.layers.map((layer: any) => {
-      if (layer.type === "conv2d" && layer.filters > 32) {
-        return {
-          ...layer,
-          filters: Math.max(32, Math.floor(layer.filters * 0.7)),
-        };
-      }
-      if (layer.type === "dense" && layer.units > 64) {
-        return { ...layer, units: Math.max(64, Math.floor(layer.units * 0.8)) };
-      }
-      return layer;
-    });
+  if (!architecture) {
+    return { success: false, error: "Architecture specification required" };
   }
-
-  if (constraints?.targetLatency && constraints.targetLatency < 50) {
-    optimizations.push(
-      "Adding depth-wise separable convolutions for faster inference",
-    );
-    optimizedArch.layers = optimizedArch.layers.map((layer: any) => {
-      if (layer.type === "conv2d") {
-        return { ...layer, separable: true };
-      }
-      return layer;
-    });
+  let layers = architecture.layers || [];
+  try {
+    if (architecture.graph) layers = graphToLayers(architecture.graph);
+  } catch (error) {
+    if (error instanceof GraphValidationError) {
+      return {
+        success: false,
+        error: `Optimize works on layer chains: ${error.message}`,
+      };
+    }
+    throw error;
   }
 
-  const suggestions = [
-    "Use AutoAugment for better data efficiency",
-    "Implement progressive resizing during training",
-    "Apply label smoothing for better generalization",
-    "Use cyclic learning rates for faster convergence",
-  ];
+  const result = transformArchitecture(
+    layers,
+    toSearchConstraints(constraints),
+    { ...planTransforms(dataset, strategy), device },
+  );
 
   return {
     success: true,
-    result: optimizedArch,
-    optimizations,
-    suggestions,
-    metrics: {
-      estimatedAccuracy: 0.89,
-      estimatedLatency: constraints?.targetLatency
-        ? constraints.targetLatency * 0.8
-        : 35,
-      parameterCount: Math.floor((architecture.parameters || 1000000) * 0.7),
-      efficiencyScore: 85.6,
+    result: {
+      architecture: {
+        ...architecture,
+        layers: result.layers,
+        graph: undefined,
+      },
+      before: result.before,
+      after: result.after,
+      rewrites: result.applied,
+      satisfied: result.satisfied,
+      violations: result.violations,
     },
+    optimizations: result.applied.map((applied) => applied.detail),
+    suggestions: result.satisfied
+      ? []
+      : result.violations.map(
+          (violation) => `Still violated after rewriting: ${violation.reason}`,
+        ),
+    metrics: result.after,
   };
 }
 
+// The nas-ai constraint names, in the evaluator's terms
+function toSearchConstraints(
+  constraints: NASRequest["constraints"] = {},
+): SearchConstraints {
+  return {
+    maxParams: constraints.maxParams,
+    maxLatency: constraints.targetLatency,
+    minAccuracy: constraints.targetAccuracy,
+    energyBudget: constraints.powerBudget,
+  };
+}
+
+// Best sampled architecture per template, or from the given template or
+// DSL space; sampling is seeded, so suggestions are stable across calls
 async function suggestArchitectures(
   searchSpace: any,
-  constraints?: any,
-  currentBest?: any[],
+  constraints: NASRequest["constraints"],
+  dataset?: string,
 ): Promise<NASResponse> {
-  const suggestions = [];
-
-  // Generate architecture suggestions based on current best and constraints
-  const baseArchitectures = [
-    {
-      name: "EfficientNet-B0 Variant",
-      description: "Optimized for mobile deployment with compound scaling",
-      layers: [
-        { type: "conv2d", filters: 32, kernel_size: 3, activation: "swish" },
-        { type: "mb_conv", filters: 16, expansion: 1, kernel_size: 3 },
-        { type: "mb_conv", filters: 24, expansion: 6, kernel_size: 3 },
-        { type: "mb_conv", filters: 40, expansion: 6, kernel_size: 5 },
-        { type: "global_avg_pool" },
-        { type: "dense", units: 1000 },
-      ],
-      estimatedAccuracy: 0.87,
-      parameters: 5300000,
-      latency: 25,
-    },
-    {
-      name: "ResNet-50 Simplified",
-      description: "Residual network with bottleneck blocks",
-      layers: [
-        { type: "conv2d", filters: 64, kernel_size: 7 },
-        { type: "residual_block", filters: 64, blocks: 3 },
-        { type: "residual_block", filters: 128, blocks: 4 },
-        { type: "residual_block", filters: 256, blocks: 6 },
-        { type: "residual_block", filters: 512, blocks: 3 },
-        { type: "global_avg_pool" },
-        { type: "dense", units: 1000 },
-      ],
-      estimatedAccuracy: 0.85,
-      parameters: 25600000,
-      latency: 45,
-    },
-    {
-      name: "MobileNetV3-Small Inspired",
-      description: "Ultra-efficient for edge deployment",
-      layers: [
-        {
-          type: "conv2d",
-          filters: 16,
-          kernel_size: 3,
-          activation: "hard_swish",
-        },
-        { type: "depthwise_conv", kernel_size: 3 },
-        { type: "pointwise_conv", filters: 16 },
-        { type: "se_block", reduction: 4 },
-        { type: "global_avg_pool" },
-        { type: "dense", units: 1000 },
-      ],
-      estimatedAccuracy: 0.82,
-      parameters: 2900000,
-      latency: 15,
-    },
-  ];
-
-  // Filter suggestions based on constraints
-  const filteredSuggestions = baseArchitectures.filter((arch) => {
-    if (constraints?.maxParams && arch.parameters > constraints.maxParams)
-      return false;
-    if (constraints?.targetLatency && arch.latency > constraints.targetLatency)
-      return false;
-    if (
-      constraints?.targetAccuracy &&
-      arch.estimatedAccuracy < constraints.targetAccuracy
-    )
-      return false;
-    return true;
+  let sources: {
+    name: string;
+    description: string;
+    dataset: string;
+    constraints: SearchConstraints;
+    spec: SearchSpaceSpec;
+  }[];
+
+  if (typeof searchSpace === "string") {
+    const template = getSearchSpaceTemplate(searchSpace);
+    if (!template) {
+      return {
+        success: false,
+        error: `Unknown search-space template "${searchSpace}"`,
+      };
+    }
+    sources = [templateSource(template)];
+  } else if (isSearchSpaceSpec(searchSpace)) {
+    const parsed = parseSearchSpace(searchSpace);
+    if (parsed.success === false) {
+      return {
+        success: false,
+        error: `Invalid search space: ${parsed.issues.join("; ")}`,
+      };
+    }
+    sources = [
+      {
+        name: "custom",
+        description: "Sampled from the request's search space",
+        dataset: dataset || "imagenet",
+        constraints: {},
+        spec: parsed.spec,
+      },
+    ];
+  } else {
+    sources = SEARCH_SPACE_TEMPLATES.map(templateSource);
+  }
+
+  const requested = withoutUndefined(toSearchConstraints(constraints));
+  const suggestions = sources.flatMap((source) => {
+    const limits = { ...source.constraints, ...requested };
+    const rng = new SeededRandom(0);
+    const feasible = Array.from({ length: SUGGESTION_SAMPLES }, () => {
+      const { layers } = sampleSearchSpace(source.spec, rng);
+      const metrics = estimateArchitectureMetrics({ layers }, source.dataset);
+      return { layers, metrics, violations: checkMetrics(metrics, limits) };
+    }).filter((sample) => sample.violations.length === 0);
+    if (feasible.length === 0) return [];
+
+    const best = feasible.reduce((a, b) =>
+      fitnessFromMetrics(b.metrics) > fitnessFromMetrics(a.metrics) ? b : a,
+    );
+    return [
+      {
+        name: `Best of ${SUGGESTION_SAMPLES} from ${source.name}`,
+        template: source.name,
+        description: source.description,
+        dataset: source.dataset,
+        constraints: limits,
+        layers: best.layers,
+        metrics: best.metrics,
+      },
+    ];
   });
 
   return {
     success: true,
-    result: filteredSuggestions,
-    suggestions: [
-      "Consider using Neural Architecture Search with evolutionary algorithms",
-      "Implement progressive training with increasing image resolution",
-      "Use knowledge distillation from larger models",
-      "Apply network pruning for production deployment",
-    ],
+    result: suggestions,
+    suggestions: sources
+      .filter((source) => !suggestions.some((s) => s.template === source.name))
+      .map(
+        (source) =>
+          `No sample from ${source.name} met the constraints; relax them or search the space`,
+      ),
   };
 }
 
+const SUGGESTION_SAMPLES = 24;
+
+function templateSource(template: SearchSpaceTemplate) {
+  return {
+    name: `${template.name}@${template.version}`,
+    description: template.description,
+    dataset: template.dataset,
+    constraints: template.constraints,
+    spec: template.space,
+  };
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined),
+  ) as Partial<T>;
+}
+
 async function compareArchitectures(
   architectures: any[],
-  constraints?: any,
+  constraints: NASRequest["constraints"],
+  dataset: string = "imagenet",
+  device: string = DEFAULT_DEVICE,
 ): Promise<NASResponse> {
   if (!architectures || architectures.length < 2) {
     return {
@@ -362,44 +462,88 @@ async function compareArchitectures(
       error: "At least 2 architectures required for comparison",
     };
   }
+  const missing = architectures.findIndex(
+    (arch) => !Array.isArray(arch?.layers) && !arch?.graph,
+  );
+  if (missing >= 0) {
+    return {
+      success: false,
+      error: `Architecture ${missing + 1} needs layers or a graph to be compared`,
+    };
+  }
+
+  let comparison;
+  try {
+    comparison = rankArchitectures(
+      architectures,
+      toSearchConstraints(constraints),
+      dataset,
+      device,
+    );
+  } catch (error) {
+    if (error instanceof GraphValidationError) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+  const winner = comparison.architectures[comparison.winner];
 
-  const comparison = architectures.map((arch, index) => ({
-    id: index,
-    name: arch.name || `Architecture ${index + 1}`,
-    accuracy: arch.accuracy || Math.random() * 0.2 + 0.75,
-    parameters:
-      arch.parameters || Math.floor(Math.random() * 20000000) + 1000000,
-    latency: arch.latency || Math.random() * 50 + 10,
-    efficiency: arch.efficiency || Math.random() * 30 + 60,
-  }));
-
-  // Rank by efficiency score
-  comparison.sort((a, b) => b.efficiency - a.efficiency);
-
-  const winner = comparison[0];
-  const recommendations = [
-    `${winner.name} shows the best efficiency with score ${winner.efficiency.toFixed(1)}`,
-    "Consider ensemble methods to combine top performers",
-    "Use progressive training to improve convergence",
-    "Implement early stopping to prevent overfitting",
-  ];
+  return {
+    success: true,
+    score: winner.score,
+    metrics: winner.metrics,
+    result: { ...comparison, winner },
+    suggestions: comparison.explanation,
+  };
+}
+
+// Refits every device profile with rows in performance_benchmarks
+async function calibrateDevices(): Promise<NASResponse> {
+  const report = calibrateFromRows(await loadBenchmarkRows());
+  const calibrated = Object.keys(report.calibrated);
+  await (await getEvaluationCache()).invalidate();
 
   return {
     success: true,
     result: {
-      comparison,
-      winner,
-      insights: {
-        bestAccuracy: Math.max(...comparison.map((a) => a.accuracy)),
-        mostEfficient: winner.name,
-        smallestModel: comparison.reduce((min, arch) =>
-          arch.parameters < min.parameters ? arch : min,
-        ),
-        fastestInference: comparison.reduce((min, arch) =>
-          arch.latency < min.latency ? arch : min,
-        ),
-      },
+      devices: listDeviceProfiles().map(toDeviceView),
+      calibrated,
+      unmatchedHardware: report.unmatched,
     },
-    suggestions: recommendations,
+    suggestions: [
+      `Calibrated ${calibrated.length} device profiles from ${report.rows} benchmark rows`,
+      ...report.unmatched.map(
+        (hardware) => `No device profile matches hardware type "${hardware}"`,
+      ),
+    ],
+  };
+}
+
+function toDeviceView(profile: DeviceProfile) {
+  return { ...profile, hardwarePattern: profile.hardwarePattern.source };
+}
+
+// Fits a fresh accuracy predictor on completed architectures and makes it
+// the evaluator's accuracy estimate
+async function retrainPredictor(): Promise<NASResponse> {
+  const samples = await loadTrainingSamples();
+  const predictor = new AccuracyPredictor(planPredictor());
+
+  let report;
+  try {
+    report = predictor.train(samples);
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+  setAccuracyPredictor(predictor);
+  await (await getEvaluationCache()).invalidate();
+
+  return {
+    success: true,
+    result: { ...report, features: FEATURE_NAMES },
+    suggestions: [
+      `Trained on ${report.trainingSamples + report.heldOutSamples} completed architectures`,
+      `Held-out error: ${report.heldOutMae} MAE, ${report.heldOutRmse} RMSE (accuracy points)`,
+    ],
   };
 }
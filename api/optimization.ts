@@ -1,572 +1,6 @@
 import { VercelRequest, VercelResponse } from "@vercel/node";
-
-interface OptimizationRequest {
-  algorithm:
-    | "evolutionary"
-    | "bayesian"
-    | "gradient"
-    | "reinforcement"
-    | "random";
-  searchSpace: {
-    layers: string[];
-    activations: string[];
-    optimizers: string[];
-    learningRates: number[];
-    batchSizes: number[];
-  };
-  constraints: {
-    maxParams?: number;
-    maxLatency?: number;
-    minAccuracy?: number;
-    maxMemory?: number;
-    energyBudget?: number;
-  };
-  objectives: {
-    accuracy: { weight: number; target?: number };
-    latency: { weight: number; target?: number };
-    params: { weight: number; target?: number };
-    energy: { weight: number; target?: number };
-  };
-  budget: {
-    maxEvaluations: number;
-    maxTime: number; // hours
-    parallel: number;
-  };
-  currentBest?: any[];
-}
-
-interface OptimizationResponse {
-  success: boolean;
-  algorithm: string;
-  searchId: string;
-  status: "initialized" | "running" | "completed" | "failed";
-  progress?: {
-    evaluations: number;
-    bestScore: number;
-    convergence: number;
-    timeElapsed: number;
-    estimatedRemaining: number;
-  };
-  candidates?: any[];
-  insights?: string[];
-  error?: string;
-}
+import { handleOptimization } from "../server/routes/optimization";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // Handle CORS
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader(
-    "Access-Control-Allow-Methods",
-    "GET, POST, PUT, DELETE, OPTIONS",
-  );
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
-
-  if (req.method === "OPTIONS") {
-    res.status(200).end();
-    return;
-  }
-
-  const { method, query } = req;
-
-  try {
-    switch (method) {
-      case "POST":
-        return await handleStartOptimization(req, res);
-      case "GET":
-        return await handleGetOptimizationStatus(
-          req,
-          res,
-          query.searchId as string,
-        );
-      case "PUT":
-        return await handleUpdateOptimization(
-          req,
-          res,
-          query.searchId as string,
-        );
-      case "DELETE":
-        return await handleStopOptimization(req, res, query.searchId as string);
-      default:
-        return res.status(405).json({ error: "Method not allowed" });
-    }
-  } catch (error) {
-    console.error("Optimization API error:", error);
-    res.status(500).json({
-      success: false,
-      error: "Internal server error",
-      message:
-        "Neural Architecture Optimization service temporarily unavailable",
-    });
-  }
-}
-
-async function handleStartOptimization(
-  req: VercelRequest,
-  res: VercelResponse,
-) {
-  const {
-    algorithm,
-    searchSpace,
-    constraints,
-    objectives,
-    budget,
-    currentBest,
-  } = req.body as OptimizationRequest;
-
-  if (!algorithm || !searchSpace || !objectives || !budget) {
-    return res.status(400).json({
-      success: false,
-      error:
-        "Missing required parameters: algorithm, searchSpace, objectives, budget",
-    });
-  }
-
-  // Generate unique search ID
-  const searchId = `nas_${algorithm}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-  // Initialize optimization based on algorithm
-  let optimizationResult: OptimizationResponse;
-
-  switch (algorithm) {
-    case "evolutionary":
-      optimizationResult = await initializeEvolutionarySearch(
-        searchId,
-        searchSpace,
-        constraints,
-        objectives,
-        budget,
-        currentBest,
-      );
-      break;
-    case "bayesian":
-      optimizationResult = await initializeBayesianOptimization(
-        searchId,
-        searchSpace,
-        constraints,
-        objectives,
-        budget,
-      );
-      break;
-    case "gradient":
-      optimizationResult = await initializeGradientBasedSearch(
-        searchId,
-        searchSpace,
-        constraints,
-        objectives,
-        budget,
-      );
-      break;
-    case "reinforcement":
-      optimizationResult = await initializeReinforcementLearning(
-        searchId,
-        searchSpace,
-        constraints,
-        objectives,
-        budget,
-      );
-      break;
-    case "random":
-      optimizationResult = await initializeRandomSearch(
-        searchId,
-        searchSpace,
-        constraints,
-        objectives,
-        budget,
-      );
-      break;
-    default:
-      return res.status(400).json({
-        success: false,
-        error:
-          "Unsupported algorithm. Supported: evolutionary, bayesian, gradient, reinforcement, random",
-      });
-  }
-
-  res.json(optimizationResult);
-}
-
-async function handleGetOptimizationStatus(
-  req: VercelRequest,
-  res: VercelResponse,
-  searchId: string,
-) {
-  if (!searchId) {
-    return res.status(400).json({
-      success: false,
-      error: "Search ID is required",
-    });
-  }
-
-  // Simulate getting optimization status
-  const status = await getOptimizationStatus(searchId);
-  res.json(status);
-}
-
-async function handleUpdateOptimization(
-  req: VercelRequest,
-  res: VercelResponse,
-  searchId: string,
-) {
-  const { action, parameters } = req.body;
-
-  if (!searchId || !action) {
-    return res.status(400).json({
-      success: false,
-      error: "Search ID and action are required",
-    });
-  }
-
-  const result = await updateOptimization(searchId, action, parameters);
-  res.json(result);
-}
-
-async function handleStopOptimization(
-  req: VercelRequest,
-  res: VercelResponse,
-  searchId: string,
-) {
-  if (!searchId) {
-    return res.status(400).json({
-      success: false,
-      error: "Search ID is required",
-    });
-  }
-
-  const result = await stopOptimization(searchId);
-  res.json(result);
-}
-
-// Evolutionary Algorithm Implementation
-async function initializeEvolutionarySearch(
-  searchId: string,
-  searchSpace: any,
-  constraints: any,
-  objectives: any,
-  budget: any,
-  currentBest?: any[],
-): Promise<OptimizationResponse> {
-  const populationSize = Math.min(budget.parallel * 4, 50);
-  const generations = Math.floor(budget.maxEvaluations / populationSize);
-
-  const candidates = generateInitialPopulation(
-    populationSize,
-    searchSpace,
-    currentBest,
-  );
-
-  return {
-    success: true,
-    algorithm: "evolutionary",
-    searchId,
-    status: "initialized",
-    progress: {
-      evaluations: 0,
-      bestScore: currentBest?.[0]?.score || 0,
-      convergence: 0,
-      timeElapsed: 0,
-      estimatedRemaining: budget.maxTime,
-    },
-    candidates: candidates.slice(0, 5), // Return top 5 initial candidates
-    insights: [
-      `Initialized evolutionary search with population size ${populationSize}`,
-      `Planning ${generations} generations with ${budget.maxEvaluations} total evaluations`,
-      "Using tournament selection and uniform crossover",
-      "Applying adaptive mutation rates based on convergence",
-    ],
-  };
-}
-
-// Bayesian Optimization Implementation
-async function initializeBayesianOptimization(
-  searchId: string,
-  searchSpace: any,
-  constraints: any,
-  objectives: any,
-  budget: any,
-): Promise<OptimizationResponse> {
-  const initialSamples = Math.min(budget.parallel * 2, 20);
-
-  return {
-    success: true,
-    algorithm: "bayesian",
-    searchId,
-    status: "initialized",
-    progress: {
-      evaluations: 0,
-      bestScore: 0,
-      convergence: 0,
-      timeElapsed: 0,
-      estimatedRemaining: budget.maxTime,
-    },
-    candidates: generateInitialPopulation(initialSamples, searchSpace),
-    insights: [
-      `Initialized Bayesian optimization with ${initialSamples} initial samples`,
-      "Using Gaussian Process surrogate model",
-      "Applying Expected Improvement acquisition function",
-      "Balancing exploration vs exploitation automatically",
-    ],
-  };
-}
-
-// Gradient-based Search Implementation
-async function initializeGradientBasedSearch(
-  searchId: string,
-  searchSpace: any,
-  constraints: any,
-  objectives: any,
-  budget: any,
-): Promise<OptimizationResponse> {
-  return {
-    success: true,
-    algorithm: "gradient",
-    searchId,
-    status: "initialized",
-    progress: {
-      evaluations: 0,
-      bestScore: 0,
-      convergence: 0,
-      timeElapsed: 0,
-      estimatedRemaining: budget.maxTime * 0.3, // Gradient methods are typically faster
-    },
-    candidates: generateInitialPopulation(budget.parallel, searchSpace),
-    insights: [
-      "Initialized DARTS-style differentiable architecture search",
-      "Using continuous relaxation of discrete architecture choices",
-      "Applying progressive shrinking for architecture selection",
-      "Memory efficient implementation with gradient checkpointing",
-    ],
-  };
-}
-
-// Reinforcement Learning Implementation
-async function initializeReinforcementLearning(
-  searchId: string,
-  searchSpace: any,
-  constraints: any,
-  objectives: any,
-  budget: any,
-): Promise<OptimizationResponse> {
-  return {
-    success: true,
-    algorithm: "reinforcement",
-    searchId,
-    status: "initialized",
-    progress: {
-      evaluations: 0,
-      bestScore: 0,
-      convergence: 0,
-      timeElapsed: 0,
-      estimatedRemaining: budget.maxTime,
-    },
-    candidates: [],
-    insights: [
-      "Initialized reinforcement learning controller",
-      "Training agent to generate high-performance architectures",
-      "Using accuracy as reward signal with efficiency penalties",
-      "Implementing progressive training curriculum",
-    ],
-  };
-}
-
-// Random Search Implementation
-async function initializeRandomSearch(
-  searchId: string,
-  searchSpace: any,
-  constraints: any,
-  objectives: any,
-  budget: any,
-): Promise<OptimizationResponse> {
-  const candidates = generateInitialPopulation(
-    budget.parallel * 2,
-    searchSpace,
-  );
-
-  return {
-    success: true,
-    algorithm: "random",
-    searchId,
-    status: "initialized",
-    progress: {
-      evaluations: 0,
-      bestScore: 0,
-      convergence: 0,
-      timeElapsed: 0,
-      estimatedRemaining: budget.maxTime * 0.5, // Random search typically faster per evaluation
-    },
-    candidates: candidates.slice(0, 5),
-    insights: [
-      `Generated ${candidates.length} random architectures for evaluation`,
-      "Random search provides strong baseline for comparison",
-      "Efficient parallelization across available resources",
-      "No convergence assumptions - explores full search space",
-    ],
-  };
-}
-
-function generateInitialPopulation(
-  size: number,
-  searchSpace: any,
-  seeds?: any[],
-): any[] {
-  const population = [];
-
-  // Include seeds if provided
-  if (seeds) {
-    population.push(...seeds.slice(0, Math.floor(size / 2)));
-  }
-
-  // Generate random architectures to fill population
-  while (population.length < size) {
-    const architecture = {
-      id: `arch_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
-      layers: generateRandomLayers(searchSpace),
-      optimizer: randomChoice(
-        searchSpace.optimizers || ["adam", "sgd", "rmsprop"],
-      ),
-      learningRate: randomChoice(
-        searchSpace.learningRates || [0.001, 0.01, 0.1],
-      ),
-      batchSize: randomChoice(searchSpace.batchSizes || [16, 32, 64, 128]),
-      score: Math.random() * 0.3 + 0.6, // Random baseline score 0.6-0.9
-      estimatedParams: Math.floor(Math.random() * 20000000) + 1000000,
-      estimatedLatency: Math.random() * 50 + 10,
-      confidence: 0.5,
-    };
-
-    population.push(architecture);
-  }
-
-  return population.sort((a, b) => b.score - a.score);
-}
-
-function generateRandomLayers(searchSpace: any): any[] {
-  const layers = [];
-  const numLayers = Math.floor(Math.random() * 15) + 5; // 5-20 layers
-  const availableLayers = searchSpace.layers || [
-    "conv2d",
-    "depthwise_conv",
-    "dense",
-    "batch_norm",
-    "dropout",
-    "pooling",
-  ];
-
-  for (let i = 0; i < numLayers; i++) {
-    const layerType = randomChoice(availableLayers);
-    const layer: any = { type: layerType };
-
-    switch (layerType) {
-      case "conv2d":
-        layer.filters = randomChoice([16, 32, 64, 128, 256]);
-        layer.kernel_size = randomChoice([1, 3, 5, 7]);
-        layer.activation = randomChoice(["relu", "swish", "gelu"]);
-        break;
-      case "depthwise_conv":
-        layer.kernel_size = randomChoice([3, 5, 7]);
-        layer.activation = randomChoice(["relu", "swish"]);
-        break;
-      case "dense":
-        layer.units = randomChoice([64, 128, 256, 512, 1024]);
-        layer.activation = randomChoice(["relu", "swish", "gelu"]);
-        break;
-      case "dropout":
-        layer.rate = Math.random() * 0.5 + 0.1; // 0.1-0.6
-        break;
-      case "batch_norm":
-        layer.momentum = Math.random() * 0.1 + 0.9; // 0.9-1.0
-        break;
-    }
-
-    layers.push(layer);
-  }
-
-  return layers;
-}
-
-function randomChoice<T>(array: T[]): T {
-  return array[Math.floor(Math.random() * array.length)];
-}
-
-async function getOptimizationStatus(
-  searchId: string,
-): Promise<OptimizationResponse> {
-  // Simulate progress tracking
-  const elapsed = Math.random() * 2; // 0-2 hours
-  const totalEvaluations = Math.floor(Math.random() * 500) + 100;
-  const bestScore = Math.random() * 0.15 + 0.8; // 0.8-0.95
-
-  return {
-    success: true,
-    algorithm: "evolutionary", // Would be stored in real implementation
-    searchId,
-    status: "running",
-    progress: {
-      evaluations: totalEvaluations,
-      bestScore,
-      convergence: Math.min(totalEvaluations / 1000, 0.95),
-      timeElapsed: elapsed,
-      estimatedRemaining: Math.max(0, 4 - elapsed),
-    },
-    candidates: generateInitialPopulation(5, {}), // Top 5 current candidates
-    insights: [
-      `Found ${totalEvaluations} architectures so far`,
-      `Best architecture achieves ${(bestScore * 100).toFixed(1)}% efficiency score`,
-      "Search is converging towards optimal solutions",
-      "Consider expanding search space if plateau is reached",
-    ],
-  };
-}
-
-async function updateOptimization(
-  searchId: string,
-  action: string,
-  parameters: any,
-): Promise<OptimizationResponse> {
-  const actions = ["pause", "resume", "adjust_budget", "expand_search_space"];
-
-  if (!actions.includes(action)) {
-    return {
-      success: false,
-      algorithm: "",
-      searchId,
-      status: "failed",
-      error: `Invalid action: ${action}. Supported actions: ${actions.join(", ")}`,
-    };
-  }
-
-  return {
-    success: true,
-    algorithm: "evolutionary",
-    searchId,
-    status: "running",
-    insights: [
-      `Successfully applied action: ${action}`,
-      "Search parameters updated",
-      "Continuing optimization with new settings",
-    ],
-  };
-}
-
-async function stopOptimization(
-  searchId: string,
-): Promise<OptimizationResponse> {
-  return {
-    success: true,
-    algorithm: "evolutionary",
-    searchId,
-    status: "completed",
-    progress: {
-      evaluations: 1000,
-      bestScore: 0.89,
-      convergence: 0.95,
-      timeElapsed: 3.5,
-      estimatedRemaining: 0,
-    },
-    insights: [
-      "Optimization stopped successfully",
-      "Final results saved to database",
-      "Best architectures ready for deployment",
-      "Performance analysis available in dashboard",
-    ],
-  };
+  return handleOptimization(req, res);
 }
@@ -0,0 +1,136 @@
+import { VercelRequest, VercelResponse } from "@vercel/node";
+import { randomSeed, SeededRandom } from "../server/nas/random";
+import {
+  flattenSearchSpace,
+  parseSearchSpace,
+  sampleSearchSpace,
+  searchSpaceCardinality,
+  stageCardinality,
+} from "../shared/searchSpace";
+import {
+  getSearchSpaceTemplate,
+  SEARCH_SPACE_TEMPLATES,
+} from "../shared/searchSpaceTemplates";
+
+// Validates a search-space DSL document or template, reports its size and
+// draws uniform samples from it; GET lists the templates
+// Built by Shaurya Upadhyay
+
+interface SearchSpaceRequest {
+  // A DSL document, or a template name such as "vit-small@1"
+  searchSpace: unknown;
+  // Number of architectures to sample, 0-100
+  samples?: number;
+  seed?: number;
+}
+
+const MAX_SAMPLES = 100;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Handle CORS
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+
+  if (req.method === "OPTIONS") {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method === "GET") {
+    return res.json({
+      success: true,
+      templates: SEARCH_SPACE_TEMPLATES.map(({ space, ...template }) => ({
+        ...template,
+        cardinality: searchSpaceCardinality(space).toString(),
+      })),
+    });
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const {
+    searchSpace,
+    samples = 5,
+    seed,
+  } = (req.body || {}) as SearchSpaceRequest;
+
+  if (!Number.isInteger(samples) || samples < 0 || samples > MAX_SAMPLES) {
+    return res.status(400).json({
+      success: false,
+      error: `samples must be an integer between 0 and ${MAX_SAMPLES}`,
+    });
+  }
+  if (
+    seed !== undefined &&
+    !(Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32)
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: "seed must be an integer between 0 and 4294967295",
+    });
+  }
+
+  const template =
+    typeof searchSpace === "string"
+      ? getSearchSpaceTemplate(searchSpace)
+      : undefined;
+  if (typeof searchSpace === "string" && !template) {
+    return res.status(404).json({
+      success: false,
+      error: `Unknown search-space template "${searchSpace}"`,
+    });
+  }
+
+  const parsed = parseSearchSpace(template ? template.space : searchSpace);
+  if (parsed.success === false) {
+    return res.status(400).json({
+      success: false,
+      valid: false,
+      error: "Invalid search space",
+      issues: parsed.issues,
+    });
+  }
+
+  const { spec } = parsed;
+  const cardinality = searchSpaceCardinality(spec);
+  const usedSeed = seed ?? randomSeed();
+  const rng = new SeededRandom(usedSeed);
+
+  res.json({
+    success: true,
+    valid: true,
+    ...(template
+      ? {
+          template: `${template.name}@${template.version}`,
+          dataset: template.dataset,
+          constraints: template.constraints,
+        }
+      : {}),
+    searchSpace: spec,
+    // Exact counts as decimal strings; they routinely exceed 2^53
+    cardinality: cardinality.toString(),
+    log10Cardinality: log10(cardinality),
+    stageCardinalities: spec.stages.map((stage) =>
+      stageCardinality(stage).toString(),
+    ),
+    flattened: flattenSearchSpace(spec),
+    seed: usedSeed,
+    samples: Array.from({ length: samples }, () =>
+      sampleSearchSpace(spec, rng),
+    ),
+  });
+}
+
+function log10(value: bigint): number {
+  const digits = value.toString();
+  const leading = Number(digits.slice(0, 15));
+  return (
+    Math.round(
+      (digits.length - Math.min(digits.length, 15) + Math.log10(leading)) *
+        1000,
+    ) / 1000
+  );
+}
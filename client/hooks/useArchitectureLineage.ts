@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { ArchitectureLineage } from "@shared/api";
+
+// Ancestry and descendants of an architecture found by a search
+// Built by Shaurya Upadhyay
+
+export function useArchitectureLineage(
+  searchId: string | null,
+  architectureId: string | undefined,
+) {
+  const [lineage, setLineage] = useState<ArchitectureLineage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLineage(null);
+    setError(null);
+    if (!searchId || !architectureId) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({
+      searchId,
+      view: "lineage",
+      architectureId,
+    });
+
+    async function fetchLineage() {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/optimization?${params}`);
+        const result = await response.json();
+        if (cancelled) return;
+        if (!result.success) {
+          setError(result.error || "Failed to load lineage");
+        } else {
+          setLineage(result.lineage);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load lineage",
+          );
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    fetchLineage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchId, architectureId]);
+
+  return { lineage, loading, error };
+}
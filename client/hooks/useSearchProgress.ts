@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import {
+  isTerminalStatus,
+  SearchGenerationEvent,
+  SearchSnapshotEvent,
+  SearchStatusEvent,
+  SearchStreamCandidate,
+} from "@shared/api";
+
+// Live progress of a search from the server's event stream
+// Built by Shaurya Upadhyay
+
+export interface SearchProgressState {
+  status: string | null;
+  evaluations: number;
+  maxEvaluations: number;
+  bestScore: number;
+  convergence: number;
+  // Every candidate streamed so far, best score first
+  candidates: SearchStreamCandidate[];
+  error: string | null;
+}
+
+const initialState: SearchProgressState = {
+  status: null,
+  evaluations: 0,
+  maxEvaluations: 0,
+  bestScore: 0,
+  convergence: 0,
+  candidates: [],
+  error: null,
+};
+
+function mergeCandidates(
+  current: SearchStreamCandidate[],
+  found: SearchStreamCandidate[],
+): SearchStreamCandidate[] {
+  const ids = new Set(current.map((c) => c.id));
+  return [...current, ...found.filter((c) => !ids.has(c.id))].sort(
+    (a, b) => b.score - a.score,
+  );
+}
+
+export function useSearchProgress(searchId: string | null) {
+  const [state, setState] = useState<SearchProgressState>(initialState);
+
+  useEffect(() => {
+    setState(initialState);
+    if (!searchId) return;
+
+    const source = new EventSource(
+      `/api/optimization/${encodeURIComponent(searchId)}/events`,
+    );
+    // The server ends the stream once the search is over; EventSource would
+    // otherwise report that as an error and reconnect
+    let ended = false;
+    const end = (status: string) => {
+      if (!isTerminalStatus(status)) return;
+      ended = true;
+      source.close();
+    };
+
+    source.addEventListener("snapshot", (event) => {
+      const data: SearchSnapshotEvent = JSON.parse(
+        (event as MessageEvent).data,
+      );
+      setState((prev) => ({
+        ...prev,
+        status: data.status,
+        evaluations: data.evaluations,
+        maxEvaluations: data.maxEvaluations,
+        bestScore: data.bestScore,
+        convergence: data.convergence,
+        candidates: mergeCandidates(prev.candidates, data.candidates),
+      }));
+      end(data.status);
+    });
+
+    source.addEventListener("generation", (event) => {
+      const data: SearchGenerationEvent = JSON.parse(
+        (event as MessageEvent).data,
+      );
+      setState((prev) => ({
+        ...prev,
+        evaluations: data.evaluations,
+        maxEvaluations: data.maxEvaluations,
+        bestScore: data.bestScore,
+        convergence: data.convergence,
+        candidates: mergeCandidates(prev.candidates, data.candidates),
+      }));
+    });
+
+    source.addEventListener("status", (event) => {
+      const data: SearchStatusEvent = JSON.parse((event as MessageEvent).data);
+      setState((prev) => ({
+        ...prev,
+        status: data.status,
+        error: data.error ?? prev.error,
+      }));
+      end(data.status);
+    });
+
+    source.onerror = () => {
+      if (ended) {
+        source.close();
+      } else if (source.readyState === EventSource.CLOSED) {
+        setState((prev) => ({
+          ...prev,
+          error: prev.error ?? "Lost connection to the search progress stream",
+        }));
+      }
+    };
+
+    return () => source.close();
+  }, [searchId]);
+
+  const progress =
+    state.maxEvaluations > 0
+      ? Math.min(100, (state.evaluations / state.maxEvaluations) * 100)
+      : 0;
+  const finished = state.status !== null && isTerminalStatus(state.status);
+
+  return { ...state, progress, finished };
+}
@@ -78,7 +78,8 @@ export interface SearchExperiment {
     | "reinforcement"
     | "gradient"
     | "bayesian"
-    | "random";
+    | "random"
+    | "hyperband";
   dataset: "imagenet" | "cifar10" | "cifar100" | "custom";
   search_budget: number;
   population_size: number;
@@ -96,6 +97,22 @@ export interface SearchExperiment {
   search_time_hours?: number;
   gpu_hours?: number;
   convergence_status: string;
+
+  // Search job state written by /api/optimization
+  search_id?: string;
+  search_config?: any;
+  warm_start_from?: string[];
+  job_status?:
+    | "initialized"
+    | "running"
+    | "paused"
+    | "completed"
+    | "stopped"
+    | "failed";
+  status_history?: any[];
+  candidates?: any[];
+  checkpoint?: any;
+  error?: string;
 }
 
 export interface NeuralArchitecture {
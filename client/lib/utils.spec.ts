@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { cn } from "./utils";
+import { cn, formatCount } from "./utils";
 
 describe("cn function", () => {
   it("should merge classes correctly", () => {
@@ -30,3 +30,24 @@ describe("cn function", () => {
     );
   });
 });
+
+describe("formatCount", () => {
+  it("should print counts below a thousand as they are", () => {
+    expect(formatCount(0)).toBe("0");
+    expect(formatCount(999)).toBe("999");
+    expect(formatCount(42.6)).toBe("43");
+  });
+
+  it("should switch units at each thousand", () => {
+    expect(formatCount(1000)).toBe("1K");
+    expect(formatCount(1_000_000)).toBe("1M");
+    expect(formatCount(1_000_000_000)).toBe("1G");
+    expect(formatCount(5_400_000)).toBe("5.4M");
+  });
+
+  it("should round up into the next unit rather than to 1000", () => {
+    expect(formatCount(999_949)).toBe("999.9K");
+    expect(formatCount(999_999)).toBe("1M");
+    expect(formatCount(999_999_999)).toBe("1G");
+  });
+});
@@ -4,3 +4,21 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// 5400000 -> "5.4M"
+export function formatCount(value: number): string {
+  const units: [number, string][] = [
+    [1e9, "G"],
+    [1e6, "M"],
+    [1e3, "K"],
+  ];
+  for (const [i, [size, suffix]] of units.entries()) {
+    if (value < size) continue;
+    const scaled = Math.round((value / size) * 10) / 10;
+    // 999950 rounds to 1000K, which is 1M
+    return scaled >= 1000 && i > 0
+      ? `1${units[i - 1][1]}`
+      : `${scaled}${suffix}`;
+  }
+  return String(Math.round(value));
+}
@@ -1,5 +1,5 @@
 import React from "react";
-import { useParams, Link } from "react-router-dom";
+import { useParams, useSearchParams, Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -18,8 +18,22 @@ import {
   Share,
   Play,
 } from "lucide-react";
+import { LineageNode } from "@shared/api";
+import { useArchitectureLineage } from "@/hooks/useArchitectureLineage";
+import { formatCount } from "@/lib/utils";
 
-const architectureData = {
+interface ArchitectureSummary {
+  name: string;
+  accuracy: number;
+  params: string;
+  flops: string;
+  latency: number;
+  score: number;
+  description: string;
+  layers: { type: string; [key: string]: any }[];
+}
+
+const architectureData: Record<string, ArchitectureSummary> = {
   "1": {
     name: "EfficientNet-B7",
     accuracy: 94.8,
@@ -45,9 +59,50 @@ const architectureData = {
   },
 };
 
+// A candidate found by a search, shown like the reference architectures
+function fromCandidate(node: LineageNode): ArchitectureSummary {
+  return {
+    name: node.id,
+    accuracy: Math.round((node.metrics?.estimatedAccuracy ?? 0) * 1000) / 10,
+    params: formatCount(node.estimatedParams),
+    flops: formatCount(node.metrics?.flops ?? 0),
+    latency: Math.round(node.estimatedLatency * 10) / 10,
+    score: Math.round(node.score * 1000) / 10,
+    description: `Discovered in generation ${node.generation ?? 0} of the search`,
+    layers: node.layers,
+  };
+}
+
+// Generations of the lineage in order, each with its architectures
+function lineageByGeneration(nodes: LineageNode[]): [number, LineageNode[]][] {
+  const generations = new Map<number, LineageNode[]>();
+  for (const node of nodes) {
+    const generation = node.generation ?? 0;
+    generations.set(generation, [...(generations.get(generation) || []), node]);
+  }
+  return [...generations];
+}
+
 export default function ArchitectureDetails() {
   const { id } = useParams();
-  const architecture = architectureData[id as keyof typeof architectureData];
+  const [searchParams] = useSearchParams();
+  const searchId = searchParams.get("search");
+  const {
+    lineage,
+    loading: lineageLoading,
+    error: lineageError,
+  } = useArchitectureLineage(searchId, id);
+  const root = lineage?.nodes.find((node) => node.relation === "root");
+  const architecture =
+    architectureData[id] ?? (root ? fromCandidate(root) : undefined);
+
+  if (!architecture && searchId && !lineageError) {
+    return (
+      <div className="min-h-screen bg-background text-foreground flex items-center justify-center">
+        <p className="text-muted-foreground">Loading architecture...</p>
+      </div>
+    );
+  }
 
   if (!architecture) {
     return (
@@ -170,9 +225,10 @@ export default function ArchitectureDetails() {
 
         {/* Architecture Details */}
         <Tabs defaultValue="architecture" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="architecture">Architecture</TabsTrigger>
             <TabsTrigger value="performance">Performance</TabsTrigger>
+            <TabsTrigger value="lineage">Lineage</TabsTrigger>
             <TabsTrigger value="analysis">Analysis</TabsTrigger>
             <TabsTrigger value="code">Code</TabsTrigger>
           </TabsList>
@@ -300,6 +356,72 @@ export default function ArchitectureDetails() {
             </div>
           </TabsContent>
 
+          <TabsContent value="lineage" className="space-y-6">
+            <Card className="border-border bg-card/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <GitBranch className="h-5 w-5 text-primary" />
+                  Lineage
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!searchId ? (
+                  <p className="text-muted-foreground">
+                    Lineage is recorded for architectures discovered by an
+                    evolutionary search.
+                  </p>
+                ) : lineageLoading ? (
+                  <p className="text-muted-foreground">Loading lineage...</p>
+                ) : lineageError ? (
+                  <p className="text-destructive">{lineageError}</p>
+                ) : lineage && lineage.nodes.length === 1 ? (
+                  <p className="text-muted-foreground">
+                    This architecture was sampled directly and has no recorded
+                    ancestors or descendants.
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {lineageByGeneration(lineage?.nodes || []).map(
+                      ([generation, nodes]) => (
+                        <div key={generation} className="flex gap-4">
+                          <Badge
+                            variant="outline"
+                            className="font-mono text-xs h-fit"
+                          >
+                            G{generation}
+                          </Badge>
+                          <div className="flex flex-wrap gap-2">
+                            {nodes.map((node) => (
+                              <Link
+                                key={node.id}
+                                to={`/architecture/${node.id}?search=${encodeURIComponent(searchId)}`}
+                                className={`p-3 rounded-lg text-sm ${
+                                  node.relation === "root"
+                                    ? "bg-primary/20 border border-primary"
+                                    : "bg-muted/20 hover:bg-muted/40"
+                                }`}
+                              >
+                                <div className="font-mono font-medium">
+                                  {node.id}
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                  Score {Math.round(node.score * 1000) / 10}
+                                  {node.operator && ` • ${node.operator}`}
+                                  {node.parentIds.length > 0 &&
+                                    ` of ${node.parentIds.join(" × ")}`}
+                                </div>
+                              </Link>
+                            ))}
+                          </div>
+                        </div>
+                      ),
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="analysis" className="space-y-6">
             <Card className="border-border bg-card/50">
               <CardHeader>
@@ -36,6 +36,13 @@ import SupabaseSetupInstructions from "@/components/SupabaseSetupInstructions";
 import SimpleSupabaseTest from "@/components/SimpleSupabaseTest";
 import OAuthSetupGuide from "@/components/OAuthSetupGuide";
 import { AuthButton, AuthStatus } from "@/components/AuthComponents";
+import {
+  getSearchSpaceTemplate,
+  SEARCH_SPACE_TEMPLATES,
+} from "@shared/searchSpaceTemplates";
+import { SearchStreamCandidate } from "@shared/api";
+import { useSearchProgress } from "@/hooks/useSearchProgress";
+import { formatCount } from "@/lib/utils";
 
 interface Architecture {
   id: string;
@@ -77,26 +84,80 @@ const mockArchitectures: Architecture[] = [
   },
 ];
 
+function toArchitecture(candidate: SearchStreamCandidate): Architecture {
+  return {
+    id: candidate.id,
+    name: `${candidate.id} (${candidate.layers.length} layers)`,
+    accuracy:
+      Math.round((candidate.metrics?.estimatedAccuracy ?? 0) * 1000) / 10,
+    params: formatCount(candidate.estimatedParams),
+    flops: formatCount(candidate.metrics?.flops ?? 0),
+    latency: Math.round(candidate.estimatedLatency * 10) / 10,
+    score: Math.round(candidate.score * 1000) / 10,
+  };
+}
+
 export default function Index() {
-  const [isSearching, setIsSearching] = useState(false);
-  const [searchProgress, setSearchProgress] = useState(0);
+  const [searchId, setSearchId] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
+  const [budget, setBudget] = useState("");
+  const searchProgress = useSearchProgress(searchId);
+  const isSearching =
+    isStarting || (searchId !== null && !searchProgress.finished);
+  const architectures =
+    searchProgress.candidates.length > 0
+      ? searchProgress.candidates.slice(0, 10).map(toArchitecture)
+      : mockArchitectures;
   const [selectedDataset, setSelectedDataset] = useState("imagenet");
   const [searchStrategy, setSearchStrategy] = useState("evolutionary");
+  const [searchSpaceName, setSearchSpaceName] = useState("mobilenetv3");
+  const searchSpaceTemplate = getSearchSpaceTemplate(searchSpaceName);
+
+  const selectSearchSpace = (name: string) => {
+    setSearchSpaceName(name);
+    const template = getSearchSpaceTemplate(name);
+    if (template) setSelectedDataset(template.dataset);
+  };
 
-  const startSearch = () => {
-    setIsSearching(true);
-    setSearchProgress(0);
+  const startSearch = async () => {
+    setIsStarting(true);
+    setStartError(null);
+    setSearchId(null);
 
-    const interval = setInterval(() => {
-      setSearchProgress((prev) => {
-        if (prev >= 100) {
-          clearInterval(interval);
-          setIsSearching(false);
-          return 100;
-        }
-        return prev + Math.random() * 15;
+    try {
+      const response = await fetch("/api/optimization", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          algorithm: searchStrategy,
+          searchSpace: searchSpaceName,
+          dataset: selectedDataset,
+          objectives: {
+            accuracy: { weight: 0.5 },
+            latency: { weight: 0.2 },
+            params: { weight: 0.2 },
+            energy: { weight: 0.1 },
+          },
+          budget: {
+            maxEvaluations: Number(budget) || 100,
+            maxTime: 1,
+            parallel: 4,
+          },
+        }),
       });
-    }, 500);
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || "Could not start the search");
+      }
+      setSearchId(result.searchId);
+    } catch (error) {
+      setStartError(
+        error instanceof Error ? error.message : "Could not start the search",
+      );
+    } finally {
+      setIsStarting(false);
+    }
   };
 
   return (
@@ -178,6 +239,39 @@ export default function Index() {
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="search-space">Search Space</Label>
+                  <Select
+                    value={searchSpaceName}
+                    onValueChange={selectSearchSpace}
+                  >
+                    <SelectTrigger id="search-space">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SEARCH_SPACE_TEMPLATES.map((template) => (
+                        <SelectItem key={template.name} value={template.name}>
+                          {template.title} v{template.version}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {searchSpaceTemplate && (
+                    <div className="space-y-1 text-xs text-muted-foreground">
+                      <p>{searchSpaceTemplate.description}</p>
+                      <div className="flex flex-wrap gap-1">
+                        {Object.entries(searchSpaceTemplate.constraints).map(
+                          ([name, value]) => (
+                            <Badge key={name} variant="outline">
+                              {name}: {value.toLocaleString()}
+                            </Badge>
+                          ),
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="strategy">Search Strategy</Label>
                   <Select
@@ -191,13 +285,20 @@ export default function Index() {
                       <SelectItem value="evolutionary">
                         Evolutionary Search
                       </SelectItem>
-                      <SelectItem value="reinforcement">
-                        Reinforcement Learning
+                      {/* Their controllers only learn flat layer lists, not
+                          search-space templates */}
+                      <SelectItem value="reinforcement" disabled>
+                        Reinforcement Learning (API only)
+                      </SelectItem>
+                      <SelectItem value="gradient" disabled>
+                        Gradient-based (API only)
                       </SelectItem>
-                      <SelectItem value="gradient">Gradient-based</SelectItem>
                       <SelectItem value="bayesian">
                         Bayesian Optimization
                       </SelectItem>
+                      <SelectItem value="hyperband">
+                        Hyperband (Multi-fidelity)
+                      </SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -205,7 +306,12 @@ export default function Index() {
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="budget">Search Budget</Label>
-                    <Input id="budget" placeholder="100" />
+                    <Input
+                      id="budget"
+                      placeholder="100"
+                      value={budget}
+                      onChange={(e) => setBudget(e.target.value)}
+                    />
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="population">Population Size</Label>
@@ -236,15 +342,38 @@ export default function Index() {
                   </Button>
                 </div>
 
-                {isSearching && (
+                {searchId && (
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
-                      <span>Progress</span>
-                      <span>{Math.round(searchProgress)}%</span>
+                      <span>
+                        Progress
+                        {searchProgress.status && ` (${searchProgress.status})`}
+                      </span>
+                      <span>
+                        {searchProgress.evaluations}/
+                        {searchProgress.maxEvaluations || "?"} ·{" "}
+                        {Math.round(searchProgress.progress)}%
+                      </span>
+                    </div>
+                    <Progress value={searchProgress.progress} className="h-2" />
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>
+                        Best score{" "}
+                        {Math.round(searchProgress.bestScore * 1000) / 10}
+                      </span>
+                      <span>
+                        Convergence{" "}
+                        {Math.round(searchProgress.convergence * 100)}%
+                      </span>
                     </div>
-                    <Progress value={searchProgress} className="h-2" />
                   </div>
                 )}
+
+                {(startError || searchProgress.error) && (
+                  <p className="text-sm text-destructive">
+                    {startError || searchProgress.error}
+                  </p>
+                )}
               </CardContent>
             </Card>
 
@@ -328,12 +457,15 @@ export default function Index() {
                 <div className="flex items-center justify-between">
                   <h3 className="text-lg font-semibold">Top Architectures</h3>
                   <Badge variant="outline" className="text-primary">
-                    {mockArchitectures.length} Found
+                    {searchProgress.candidates.length > 0
+                      ? searchProgress.candidates.length
+                      : mockArchitectures.length}{" "}
+                    Found
                   </Badge>
                 </div>
 
                 <div className="space-y-4">
-                  {mockArchitectures.map((arch, index) => (
+                  {architectures.map((arch, index) => (
                     <Card
                       key={arch.id}
                       className="border-border bg-card/50 hover:bg-card/80 transition-colors"
@@ -357,7 +489,13 @@ export default function Index() {
                               </div>
                             </div>
                           </div>
-                          <Link to={`/architecture/${arch.id}`}>
+                          <Link
+                            to={
+                              searchProgress.candidates.length > 0
+                                ? `/architecture/${arch.id}?search=${encodeURIComponent(searchId)}`
+                                : `/architecture/${arch.id}`
+                            }
+                          >
                             <Button variant="outline" size="sm">
                               View Details
                             </Button>
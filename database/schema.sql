@@ -10,7 +10,8 @@ CREATE TYPE search_strategy AS ENUM (
   'reinforcement',
   'gradient',
   'bayesian',
-  'random'
+  'random',
+  'hyperband'
 );
 
 CREATE TYPE architecture_status AS ENUM (
@@ -51,7 +52,17 @@ CREATE TABLE search_experiments (
   best_accuracy DECIMAL(5,2),
   search_time_hours DECIMAL(8,2),
   gpu_hours DECIMAL(8,2),
-  convergence_status VARCHAR(50) DEFAULT 'running'
+  convergence_status VARCHAR(50) DEFAULT 'running',
+
+  -- Search job state used by /api/optimization
+  search_id VARCHAR(255) UNIQUE, -- API searchId (nas_<algorithm>_...)
+  search_config JSONB, -- searchSpace, constraints, objectives, budget
+  warm_start_from TEXT[], -- search_ids whose architectures seeded this search
+  job_status VARCHAR(20), -- initialized, running, paused, completed, stopped, failed
+  status_history JSONB DEFAULT '[]',
+  candidates JSONB DEFAULT '[]', -- Current population / top candidates
+  checkpoint JSONB DEFAULT '{}', -- Strategy state needed to resume
+  error TEXT
 );
 
 -- 2. Neural Architectures Table  
@@ -68,6 +79,7 @@ CREATE TABLE neural_architectures (
   model_size_mb DECIMAL(10,2),
   generation INTEGER DEFAULT 1, -- Which generation in evolutionary search
   parent_ids UUID[], -- Array of parent architecture IDs for tracking lineage
+  architecture_hash VARCHAR(64), -- Canonical hash; equal for duplicate architectures
   
   -- Performance Metrics
   top1_accuracy DECIMAL(5,2),
@@ -87,7 +99,10 @@ CREATE TABLE neural_architectures (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   training_started_at TIMESTAMP WITH TIME ZONE,
-  training_completed_at TIMESTAMP WITH TIME ZONE
+  training_completed_at TIMESTAMP WITH TIME ZONE,
+
+  -- A search stores each distinct architecture once
+  UNIQUE (experiment_id, architecture_hash)
 );
 
 -- 3. Architecture Layers Table
@@ -100,7 +115,7 @@ CREATE TABLE architecture_layers (
   layer_config JSONB NOT NULL, -- Store layer-specific configuration
   input_shape INTEGER[],
   output_shape INTEGER[],
-  parameters_count INTEGER,
+  parameters_count BIGINT,
   flops_count BIGINT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -168,9 +183,21 @@ CREATE TABLE performance_benchmarks (
   notes TEXT
 );
 
+-- 8. Evaluation Cache Table
+-- Cached /api/nas-ai evaluations, shared across experiments and instances
+CREATE TABLE evaluation_cache (
+  cache_key VARCHAR(64) PRIMARY KEY, -- SHA-256 of architecture, input shape, dataset and device
+  evaluator_version VARCHAR(64) NOT NULL, -- rows of other versions are deleted on invalidation
+  dataset VARCHAR(50) NOT NULL,
+  device VARCHAR(50) NOT NULL,
+  result JSONB NOT NULL, -- metrics and per-layer shape analysis
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better query performance
 CREATE INDEX idx_experiments_created_at ON search_experiments(created_at DESC);
 CREATE INDEX idx_experiments_status ON search_experiments(status);
+CREATE INDEX idx_experiments_search_id ON search_experiments(search_id);
 CREATE INDEX idx_architectures_experiment_id ON neural_architectures(experiment_id);
 CREATE INDEX idx_architectures_accuracy ON neural_architectures(top1_accuracy DESC);
 CREATE INDEX idx_architectures_score ON neural_architectures(overall_score DESC);
@@ -180,6 +207,7 @@ CREATE INDEX idx_progress_iteration ON search_progress(experiment_id, iteration)
 CREATE INDEX idx_interactions_experiment_id ON user_interactions(experiment_id);
 CREATE INDEX idx_conversations_session ON ai_conversations(session_id);
 CREATE INDEX idx_benchmarks_architecture ON performance_benchmarks(architecture_id);
+CREATE INDEX idx_evaluation_cache_version ON evaluation_cache(evaluator_version);
 
 -- Create views for common queries
 CREATE VIEW architecture_leaderboard AS
@@ -220,6 +248,7 @@ ALTER TABLE search_progress ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_interactions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE ai_conversations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE performance_benchmarks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE evaluation_cache ENABLE ROW LEVEL SECURITY;
 
 -- Create policies (adjust based on your authentication needs)
 CREATE POLICY "Allow all operations for authenticated users" ON search_experiments
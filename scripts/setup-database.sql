@@ -14,7 +14,8 @@ BEGIN
             'reinforcement',
             'gradient',
             'bayesian',
-            'random'
+            'random',
+            'hyperband'
         );
     END IF;
     
@@ -38,6 +39,9 @@ BEGIN
     END IF;
 END $$;
 
+-- Databases created before Hyperband was added
+ALTER TYPE search_strategy ADD VALUE IF NOT EXISTS 'hyperband';
+
 -- 1. Search Experiments Table
 CREATE TABLE IF NOT EXISTS search_experiments (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -63,6 +67,16 @@ CREATE TABLE IF NOT EXISTS search_experiments (
     convergence_status VARCHAR(50) DEFAULT 'running'
 );
 
+-- Search job state used by /api/optimization
+ALTER TABLE search_experiments ADD COLUMN IF NOT EXISTS search_id VARCHAR(255) UNIQUE;
+ALTER TABLE search_experiments ADD COLUMN IF NOT EXISTS search_config JSONB;
+ALTER TABLE search_experiments ADD COLUMN IF NOT EXISTS job_status VARCHAR(20);
+ALTER TABLE search_experiments ADD COLUMN IF NOT EXISTS status_history JSONB DEFAULT '[]';
+ALTER TABLE search_experiments ADD COLUMN IF NOT EXISTS candidates JSONB DEFAULT '[]';
+ALTER TABLE search_experiments ADD COLUMN IF NOT EXISTS checkpoint JSONB DEFAULT '{}';
+ALTER TABLE search_experiments ADD COLUMN IF NOT EXISTS error TEXT;
+ALTER TABLE search_experiments ADD COLUMN IF NOT EXISTS warm_start_from TEXT[];
+
 -- 2. Neural Architectures Table
 CREATE TABLE IF NOT EXISTS neural_architectures (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -98,7 +112,31 @@ CREATE TABLE IF NOT EXISTS neural_architectures (
     training_completed_at TIMESTAMP WITH TIME ZONE
 );
 
--- 3. AI Conversations Table
+-- Canonical architecture hash; a search stores each distinct architecture once
+ALTER TABLE neural_architectures ADD COLUMN IF NOT EXISTS architecture_hash VARCHAR(64);
+
+-- Exact per-layer parameter counts overflow INTEGER (database/schema.sql)
+ALTER TABLE IF EXISTS architecture_layers ALTER COLUMN parameters_count TYPE BIGINT;
+
+-- 3. Search Progress Table
+CREATE TABLE IF NOT EXISTS search_progress (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    experiment_id UUID REFERENCES search_experiments(id) ON DELETE CASCADE,
+    iteration INTEGER NOT NULL,
+    generation INTEGER,
+    best_accuracy_so_far DECIMAL(5,2),
+    average_accuracy DECIMAL(5,2),
+    architectures_evaluated INTEGER,
+    time_elapsed_hours DECIMAL(8,2),
+    cpu_usage_percent DECIMAL(5,2),
+    gpu_usage_percent DECIMAL(5,2),
+    memory_usage_gb DECIMAL(8,2),
+    convergence_metric DECIMAL(10,6),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 4. AI Conversations Table
 CREATE TABLE IF NOT EXISTS ai_conversations (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     experiment_id UUID REFERENCES search_experiments(id) ON DELETE SET NULL,
@@ -112,13 +150,27 @@ CREATE TABLE IF NOT EXISTS ai_conversations (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- 5. Evaluation Cache Table (shared by every instance of /api/nas-ai)
+CREATE TABLE IF NOT EXISTS evaluation_cache (
+    cache_key VARCHAR(64) PRIMARY KEY,
+    evaluator_version VARCHAR(64) NOT NULL,
+    dataset VARCHAR(50) NOT NULL,
+    device VARCHAR(50) NOT NULL,
+    result JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_experiments_created_at ON search_experiments(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_experiments_status ON search_experiments(status);
+CREATE INDEX IF NOT EXISTS idx_experiments_search_id ON search_experiments(search_id);
+CREATE INDEX IF NOT EXISTS idx_progress_experiment_id ON search_progress(experiment_id);
 CREATE INDEX IF NOT EXISTS idx_architectures_experiment_id ON neural_architectures(experiment_id);
 CREATE INDEX IF NOT EXISTS idx_architectures_accuracy ON neural_architectures(top1_accuracy DESC);
 CREATE INDEX IF NOT EXISTS idx_architectures_score ON neural_architectures(overall_score DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_architectures_experiment_hash ON neural_architectures(experiment_id, architecture_hash);
 CREATE INDEX IF NOT EXISTS idx_conversations_session ON ai_conversations(session_id);
+CREATE INDEX IF NOT EXISTS idx_evaluation_cache_version ON evaluation_cache(evaluator_version);
 
 -- Create view for architecture leaderboard
 CREATE OR REPLACE VIEW architecture_leaderboard AS
@@ -219,5 +271,6 @@ INSERT INTO ai_conversations (
 -- ALTER TABLE search_experiments ENABLE ROW LEVEL SECURITY;
 -- ALTER TABLE neural_architectures ENABLE ROW LEVEL SECURITY;
 -- ALTER TABLE ai_conversations ENABLE ROW LEVEL SECURITY;
+-- ALTER TABLE evaluation_cache ENABLE ROW LEVEL SECURITY;
 
 SELECT 'Neural Architecture Search Database Setup Complete!' as status;
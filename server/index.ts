@@ -3,6 +3,10 @@ import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
 import { handleChat } from "./routes/chat";
+import { handleOptimization } from "./routes/optimization";
+import { handleSearchEvents } from "./routes/searchEvents";
+import { EvaluationPool, setEvaluationPool } from "./nas/evaluationPool";
+import { resumeInterruptedSearches } from "./nas/strategies";
 
 export function createServer() {
   const app = express();
@@ -25,6 +29,10 @@ export function createServer() {
         "GET /api/ping": "Health check",
         "GET /api/demo": "Demo endpoint",
         "POST /api/chat": "Shaurya AI Chat endpoint",
+        "POST|GET|PUT|DELETE /api/optimization":
+          "Start, inspect, adjust and stop architecture searches",
+        "GET /api/optimization/:searchId/events":
+          "Search progress stream (Server-Sent Events)",
       },
       chat_example: {
         method: "POST",
@@ -52,5 +60,24 @@ export function createServer() {
   // Shaurya AI Chat endpoint
   app.post("/api/chat", handleChat);
 
+  // Searches run in this process, so their events stream from here too
+  app.all("/api/optimization", handleOptimization);
+
+  // Per-generation progress of a search started through /api/optimization
+  app.get("/api/optimization/:searchId/events", handleSearchEvents);
+
   return app;
 }
+
+/**
+ * For long-running Node servers: searches run in this process evaluate
+ * candidates on worker threads, and the ones a previous process left
+ * running continue from their last recorded generation.
+ */
+export async function startSearchRunner(): Promise<void> {
+  setEvaluationPool(new EvaluationPool());
+  const searchIds = await resumeInterruptedSearches();
+  if (searchIds.length > 0) {
+    console.log(`Resumed searches: ${searchIds.join(", ")}`);
+  }
+}
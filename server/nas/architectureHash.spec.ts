@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  ArchitectureGraph,
+  layersToGraph,
+} from "../../shared/architectureGraph";
+import { architectureHash } from "./architectureHash";
+
+const training = { optimizer: "adam", learningRate: 0.001, batchSize: 32 };
+
+// input -> conv -> {a, b} -> add -> output, with the given node ids and order
+function residual(ids: [string, string, string], reversed = false) {
+  const [conv, a, b] = ids;
+  const graph: ArchitectureGraph = {
+    version: 1,
+    nodes: [
+      { id: "input", kind: "input" },
+      { id: conv, kind: "layer", layer: { type: "conv2d", filters: 32 } },
+      { id: a, kind: "layer", layer: { type: "conv2d", filters: 32 } },
+      { id: b, kind: "layer", layer: { kernelSize: 1, type: "conv2d" } },
+      { id: "sum", kind: "merge", op: "add" },
+      { id: "output", kind: "output" },
+    ],
+    edges: [
+      { from: "input", to: conv },
+      { from: conv, to: a },
+      { from: conv, to: b },
+      { from: a, to: "sum" },
+      { from: b, to: "sum" },
+      { from: "sum", to: "output" },
+    ],
+  };
+  if (reversed) {
+    graph.nodes.reverse();
+    graph.edges.reverse();
+  }
+  return { ...training, graph };
+}
+
+describe("architectureHash", () => {
+  const layers = [
+    { type: "conv2d", filters: 32, kernelSize: 3 },
+    { type: "dense", units: 10 },
+  ];
+
+  it("should ignore ids, scores and layer field order", () => {
+    const a = { ...training, id: "arch_a", score: 0.9, layers };
+    const b = {
+      ...training,
+      id: "arch_b",
+      score: 0.1,
+      layers: [
+        { kernelSize: 3, filters: 32, type: "conv2d" },
+        { units: 10, type: "dense" },
+      ],
+    };
+
+    expect(architectureHash(a)).toBe(architectureHash(b));
+  });
+
+  it("should hash a layer list like the equivalent chain graph", () => {
+    expect(architectureHash({ ...training, layers })).toBe(
+      architectureHash({ ...training, graph: layersToGraph(layers) }),
+    );
+  });
+
+  it("should ignore node ids and the order of nodes and edges", () => {
+    expect(architectureHash(residual(["c", "x", "y"]))).toBe(
+      architectureHash(residual(["stem", "left", "right"], true)),
+    );
+  });
+
+  it("should tell different networks and training setups apart", () => {
+    const base = architectureHash({ ...training, layers });
+
+    expect(
+      architectureHash({ ...training, layers: [...layers].reverse() }),
+    ).not.toBe(base);
+    expect(architectureHash({ ...training, layers, batchSize: 64 })).not.toBe(
+      base,
+    );
+    expect(architectureHash({ ...training, layers, fidelity: 3 })).not.toBe(
+      base,
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { createHash } from "node:crypto";
+import {
+  ArchitectureGraph,
+  GraphNode,
+  layersToGraph,
+  predecessors,
+  topologicalOrder,
+} from "../../shared/architectureGraph";
+import { LayerSpec } from "./types";
+
+// Canonical architecture hashing: equal for architectures that train the
+// same network, whatever their ids, field order or graph node naming
+// Built by Shaurya Upadhyay
+
+export interface HashableArchitecture {
+  layers?: LayerSpec[];
+  graph?: ArchitectureGraph;
+  optimizer?: string;
+  learningRate?: number;
+  batchSize?: number;
+  // Training epochs, for multi-fidelity evaluations
+  fidelity?: number;
+}
+
+/**
+ * SHA-256 of the architecture's canonical form: the topology with node ids
+ * replaced by structural signatures, layer configurations with sorted keys,
+ * and the training hyperparameters. A flat layer list hashes like the
+ * equivalent chain graph.
+ */
+export function architectureHash(architecture: HashableArchitecture): string {
+  const graph = architecture.graph || layersToGraph(architecture.layers || []);
+  return sha256(
+    canonicalJson({
+      graph: graphSignature(graph),
+      optimizer: architecture.optimizer,
+      learningRate: architecture.learningRate,
+      batchSize: architecture.batchSize,
+      fidelity: architecture.fidelity,
+    }),
+  );
+}
+
+// Each node is named by a digest of its own label and its inputs' names,
+// so renaming or reordering nodes and edges leaves the names unchanged.
+// Merge inputs are sorted too: add and multiply commute, and concatenation
+// order only permutes channels, which the next layer's weights absorb.
+function graphSignature(graph: ArchitectureGraph): string {
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const names = new Map<string, string>();
+  for (const id of topologicalOrder(graph)) {
+    const inputs = predecessors(graph, id)
+      .map((input) => names.get(input))
+      .sort();
+    names.set(id, sha256(canonicalJson([nodeLabel(byId.get(id)), inputs])));
+  }
+
+  // Node and edge multisets tell a shared branch from two identical ones
+  return canonicalJson({
+    nodes: [...names.values()].sort(),
+    edges: graph.edges
+      .map((edge) => `${names.get(edge.from)}>${names.get(edge.to)}`)
+      .sort(),
+  });
+}
+
+function nodeLabel(node: GraphNode): unknown {
+  switch (node.kind) {
+    case "input":
+      return ["input", node.shape ?? null];
+    case "layer":
+      return ["layer", node.layer];
+    case "merge":
+      return ["merge", node.op];
+    case "output":
+      return ["output"];
+  }
+}
+
+/** JSON with object keys sorted and undefined fields dropped. */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, field) =>
+    field && typeof field === "object" && !Array.isArray(field)
+      ? Object.fromEntries(
+          Object.keys(field)
+            .sort()
+            .map((key) => [key, field[key]]),
+        )
+      : field,
+  );
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
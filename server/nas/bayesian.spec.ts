@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  expectedImprovement,
+  GaussianProcess,
+  matern52,
+  planBayesian,
+} from "./bayesian";
+
+describe("matern52", () => {
+  it("should be 1 at zero distance and decay with distance", () => {
+    expect(matern52([0.3, 0.7], [0.3, 0.7], 1)).toBe(1);
+
+    // r = sqrt(5) * d / lengthscale; k = (1 + r + r^2 / 3) e^-r
+    const r = Math.sqrt(5) * 0.5;
+    expect(matern52([0], [0.5], 1)).toBeCloseTo(
+      (1 + r + (r * r) / 3) * Math.exp(-r),
+    );
+    expect(matern52([0], [1], 1)).toBeLessThan(matern52([0], [0.5], 1));
+    expect(matern52([0], [1], 2)).toBeCloseTo(matern52([0], [0.5], 1));
+  });
+});
+
+describe("GaussianProcess", () => {
+  const X = [0, 0.25, 0.5, 0.75, 1].map((x) => [x]);
+  const y = X.map(([x]) => Math.sin(3 * x));
+  const yMean = y.reduce((sum, v) => sum + v, 0) / y.length;
+  const yStd = Math.sqrt(
+    y.reduce((sum, v) => sum + (v - yMean) ** 2, 0) / y.length,
+  );
+
+  // Fixed hyperparameters, so the posterior is the textbook one
+  function nearlyNoiseless() {
+    const gp = new GaussianProcess();
+    gp.lengthscale = 0.5;
+    gp.noise = 1e-4;
+    return gp.fit(X, y, false);
+  }
+
+  it("should interpolate its observations with low uncertainty", () => {
+    const gp = nearlyNoiseless();
+
+    X.forEach((x, i) => {
+      const { mean, std } = gp.predict(x);
+      expect(mean).toBeCloseTo(y[i], 2);
+      expect(std).toBeLessThan(0.05);
+    });
+    const between = gp.predict([0.375]);
+    expect(between.mean).toBeCloseTo(Math.sin(1.125), 1);
+    expect(between.std).toBeGreaterThan(gp.predict([0.25]).std);
+  });
+
+  it("should fall back to the prior far from the data", () => {
+    const far = nearlyNoiseless().predict([50]);
+
+    expect(far.mean).toBeCloseTo(yMean);
+    expect(far.std).toBeCloseTo(yStd);
+  });
+});
+
+describe("expectedImprovement", () => {
+  it("should match the closed form", () => {
+    // At mean = best: std * pdf(0)
+    expect(expectedImprovement(1, 2, 1, 0)).toBeCloseTo(
+      2 / Math.sqrt(2 * Math.PI),
+    );
+    expect(expectedImprovement(1.5, 0, 1, 0.1)).toBeCloseTo(0.4);
+    expect(expectedImprovement(0.5, 0, 1, 0)).toBe(0);
+  });
+
+  it("should grow with the predicted mean and uncertainty", () => {
+    expect(expectedImprovement(1.2, 0.5, 1, 0.01)).toBeGreaterThan(
+      expectedImprovement(1, 0.5, 1, 0.01),
+    );
+    expect(expectedImprovement(1, 1, 1, 0.01)).toBeGreaterThan(
+      expectedImprovement(1, 0.5, 1, 0.01),
+    );
+  });
+});
+
+describe("planBayesian", () => {
+  it("should draw at least one and at most 20 initial samples", () => {
+    expect(planBayesian({ parallel: 4 }).initialSamples).toBe(8);
+    expect(planBayesian({ parallel: 50 }).initialSamples).toBe(20);
+    expect(planBayesian({ parallel: 0 }).initialSamples).toBe(1);
+    expect(planBayesian({ parallel: NaN }).initialSamples).toBe(1);
+  });
+
+  it("should default to expected improvement", () => {
+    expect(planBayesian({ parallel: 4 }).acquisition).toBe("ei");
+    expect(planBayesian({ parallel: 4 }, "ucb").acquisition).toBe("ucb");
+  });
+});
@@ -0,0 +1,418 @@
+import { encodeCandidate } from "./encoding";
+import { mutate } from "./evolutionary";
+import { SeededRandom } from "./random";
+import { generateArchitectureId, sampleCandidate } from "./sampling";
+import { evaluateBatch, SearchStrategy, topCandidates } from "./searchRunner";
+import { Candidate, SearchSpace } from "./types";
+
+// Gaussian-process Bayesian optimization with EI/UCB acquisition
+// Built by Shaurya Upadhyay
+
+export type AcquisitionFunction = "ei" | "ucb";
+
+export interface BayesianOptions {
+  initialSamples: number;
+  acquisition: AcquisitionFunction;
+  // Random candidates scored by the acquisition function per proposal
+  poolSize: number;
+  // EI exploration margin / UCB exploration weight
+  xi: number;
+  beta: number;
+  // Largest training set the GP is fitted on (best + most recent points)
+  maxObservations: number;
+}
+
+export interface Observation {
+  layers: Candidate["layers"];
+  optimizer: string;
+  learningRate: number;
+  batchSize: number;
+  score: number;
+}
+
+const LENGTHSCALES = [0.25, 0.5, 1, 2, 4];
+const NOISE_LEVELS = [1e-4, 1e-2, 1e-1];
+
+/**
+ * Zero-mean GP regressor with a Matern 5/2 kernel on standardized targets.
+ * Lengthscale and noise are picked by grid search over the log marginal
+ * likelihood on every fit.
+ */
+export class GaussianProcess {
+  private X: number[][] = [];
+  private L: number[][] = [];
+  private alpha: number[] = [];
+  private yMean = 0;
+  private yStd = 1;
+  lengthscale = 1;
+  noise = 1e-2;
+
+  /**
+   * Fits the GP to (X, y). With `tune` off the current lengthscale and noise
+   * are kept, which is what batch fantasies use.
+   */
+  fit(X: number[][], y: number[], tune = true): this {
+    this.X = [...X];
+    this.yMean = y.reduce((sum, v) => sum + v, 0) / y.length;
+    const variance =
+      y.reduce((sum, v) => sum + (v - this.yMean) ** 2, 0) / y.length;
+    this.yStd = Math.sqrt(variance) || 1;
+    const targets = y.map((v) => (v - this.yMean) / this.yStd);
+
+    const lengthscales = tune ? LENGTHSCALES : [this.lengthscale];
+    const noiseLevels = tune ? NOISE_LEVELS : [this.noise];
+    let best = -Infinity;
+    for (const lengthscale of lengthscales) {
+      for (const noise of noiseLevels) {
+        const fitted = this.factorize(this.X, targets, lengthscale, noise);
+        if (fitted && fitted.logLikelihood > best) {
+          best = fitted.logLikelihood;
+          this.lengthscale = lengthscale;
+          this.noise = noise;
+          this.L = fitted.L;
+          this.alpha = fitted.alpha;
+        }
+      }
+    }
+    if (best === -Infinity) {
+      throw new Error("Kernel matrix is not positive definite");
+    }
+    return this;
+  }
+
+  predict(x: number[]): { mean: number; std: number } {
+    const k = this.X.map((xi) => matern52(xi, x, this.lengthscale));
+    const mean = k.reduce((sum, ki, i) => sum + ki * this.alpha[i], 0);
+    const v = forwardSubstitute(this.L, k);
+    const variance = Math.max(1 - v.reduce((sum, vi) => sum + vi * vi, 0), 0);
+
+    return {
+      mean: mean * this.yStd + this.yMean,
+      std: Math.sqrt(variance + 1e-12) * this.yStd,
+    };
+  }
+
+  private factorize(
+    X: number[][],
+    y: number[],
+    lengthscale: number,
+    noise: number,
+  ): { L: number[][]; alpha: number[]; logLikelihood: number } | null {
+    const n = X.length;
+    const K = X.map((xi, i) =>
+      X.map((xj, j) => matern52(xi, xj, lengthscale) + (i === j ? noise : 0)),
+    );
+    const L = cholesky(K);
+    if (!L) return null;
+
+    const alpha = backSubstitute(L, forwardSubstitute(L, y));
+    const logDet = L.reduce((sum, row, i) => sum + Math.log(row[i]), 0);
+    const logLikelihood =
+      -0.5 * y.reduce((sum, yi, i) => sum + yi * alpha[i], 0) -
+      logDet -
+      (n / 2) * Math.log(2 * Math.PI);
+
+    return { L, alpha, logLikelihood };
+  }
+}
+
+export function matern52(a: number[], b: number[], lengthscale: number) {
+  let squared = 0;
+  for (let i = 0; i < a.length; i++) squared += (a[i] - b[i]) ** 2;
+  const r = (Math.sqrt(5 * squared) || 0) / lengthscale;
+  return (1 + r + (r * r) / 3) * Math.exp(-r);
+}
+
+/** Expected improvement over `best` for a maximization problem. */
+export function expectedImprovement(
+  mean: number,
+  std: number,
+  best: number,
+  xi: number,
+): number {
+  if (std <= 0) return Math.max(mean - best - xi, 0);
+  const improvement = mean - best - xi;
+  const z = improvement / std;
+  return improvement * normalCdf(z) + std * normalPdf(z);
+}
+
+export function upperConfidenceBound(mean: number, std: number, beta: number) {
+  return mean + beta * std;
+}
+
+/**
+ * Ask/tell Bayesian optimizer over the flat layer-list search space.
+ * Until `initialSamples` observations exist it proposes random candidates;
+ * afterwards each `ask` fits the GP and picks a batch by maximizing the
+ * acquisition function over a sampled pool, using the "kriging believer"
+ * heuristic (pretend the GP mean was observed) to diversify the batch.
+ */
+export class BayesianOptimizer {
+  private observations: Observation[] = [];
+
+  constructor(
+    private searchSpace: SearchSpace,
+    private options: BayesianOptions,
+    private rng: SeededRandom,
+  ) {}
+
+  tell(candidates: Observation[]): void {
+    for (const {
+      layers,
+      optimizer,
+      learningRate,
+      batchSize,
+      score,
+    } of candidates) {
+      this.observations.push({
+        layers,
+        optimizer,
+        learningRate,
+        batchSize,
+        score,
+      });
+    }
+  }
+
+  getObservations(): Observation[] {
+    return this.observations;
+  }
+
+  ask(batchSize: number): Candidate[] {
+    if (this.observations.length < this.options.initialSamples) {
+      return Array.from({ length: batchSize }, () =>
+        sampleCandidate(this.searchSpace, this.rng),
+      );
+    }
+
+    const training = this.trainingSet();
+    const X = training.map((o) => encodeCandidate(o, this.searchSpace));
+    const y = training.map((o) => o.score);
+    const incumbent = Math.max(...y);
+    const pool = this.candidatePool();
+    const encodedPool = pool.map((c) => encodeCandidate(c, this.searchSpace));
+    const gp = new GaussianProcess().fit(X, y);
+    const batch: Candidate[] = [];
+
+    while (batch.length < batchSize && pool.length > 0) {
+      let bestIndex = 0;
+      let bestValue = -Infinity;
+      encodedPool.forEach((x, i) => {
+        const value = this.acquire(gp.predict(x), incumbent);
+        if (value > bestValue) {
+          bestValue = value;
+          bestIndex = i;
+        }
+      });
+
+      const [chosen] = pool.splice(bestIndex, 1);
+      const [encoded] = encodedPool.splice(bestIndex, 1);
+      batch.push(chosen);
+
+      if (batch.length < batchSize) {
+        y.push(gp.predict(encoded).mean);
+        X.push(encoded);
+        gp.fit(X, y, false);
+      }
+    }
+
+    return batch;
+  }
+
+  private acquire(
+    prediction: { mean: number; std: number },
+    incumbent: number,
+  ): number {
+    return this.options.acquisition === "ucb"
+      ? upperConfidenceBound(prediction.mean, prediction.std, this.options.beta)
+      : expectedImprovement(
+          prediction.mean,
+          prediction.std,
+          incumbent,
+          this.options.xi,
+        );
+  }
+
+  private trainingSet(): Observation[] {
+    const max = this.options.maxObservations;
+    if (this.observations.length <= max) return [...this.observations];
+
+    const best = [...this.observations]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, Math.floor(max / 2));
+    const recent = this.observations
+      .slice(-max)
+      .filter((o) => !best.includes(o))
+      .slice(-(max - best.length));
+    return [...best, ...recent];
+  }
+
+  // Random samples for exploration plus mutations of the incumbents so the
+  // acquisition maximizer can also refine around the current best
+  private candidatePool(): Candidate[] {
+    const incumbents = [...this.observations]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 5);
+    const pool: Candidate[] = [];
+    const localCount = Math.floor(this.options.poolSize / 2);
+
+    for (let i = 0; i < localCount; i++) {
+      const parent = incumbents[i % incumbents.length];
+      pool.push(
+        mutate(
+          {
+            ...parent,
+            id: generateArchitectureId(this.rng),
+            estimatedParams: 0,
+            estimatedLatency: 0,
+            confidence: 0.5,
+          },
+          this.searchSpace,
+          0.2,
+          this.rng,
+        ),
+      );
+    }
+    while (pool.length < this.options.poolSize) {
+      pool.push(sampleCandidate(this.searchSpace, this.rng));
+    }
+    return pool;
+  }
+}
+
+export function planBayesian(
+  budget: { parallel: number },
+  acquisition: AcquisitionFunction = "ei",
+): BayesianOptions {
+  return {
+    initialSamples: Math.min(Math.max(budget.parallel * 2 || 1, 1), 20),
+    acquisition,
+    poolSize: 200,
+    xi: 0.01,
+    beta: 2,
+    maxObservations: 200,
+  };
+}
+
+export const bayesianStrategy: SearchStrategy = {
+  async initialize(job, context, currentBest) {
+    // The acquisition function is picked when the search is created
+    const options = planBayesian(job.budget, job.checkpoint.acquisition);
+    const optimizer = new BayesianOptimizer(
+      job.searchSpace,
+      options,
+      context.rng,
+    );
+    // Scored architectures from earlier searches pre-fit the surrogate, so
+    // with enough of them even the first batch is chosen by acquisition
+    optimizer.tell(
+      (currentBest || []).filter(
+        (c) => Array.isArray(c?.layers) && Number.isFinite(c.score),
+      ),
+    );
+    const evaluated = await evaluateBatch(
+      context,
+      optimizer.ask(
+        Math.min(options.initialSamples, job.budget.maxEvaluations),
+      ),
+      0,
+    );
+    optimizer.tell(evaluated);
+
+    return {
+      evaluated,
+      candidates: topCandidates(evaluated),
+      checkpoint: {
+        acquisition: options.acquisition,
+        observations: optimizer.getObservations(),
+      },
+    };
+  },
+
+  async step(job, context, remaining, generation) {
+    const options = planBayesian(job.budget, job.checkpoint.acquisition);
+    const optimizer = new BayesianOptimizer(
+      job.searchSpace,
+      options,
+      context.rng,
+    );
+    optimizer.tell(job.checkpoint.observations || []);
+
+    const batchSize = Math.min(Math.max(job.budget.parallel, 1), remaining);
+    const evaluated = await evaluateBatch(
+      context,
+      optimizer.ask(batchSize),
+      generation,
+    );
+    optimizer.tell(evaluated);
+
+    return {
+      evaluated,
+      candidates: topCandidates([...job.candidates, ...evaluated]),
+      checkpoint: {
+        acquisition: options.acquisition,
+        observations: optimizer.getObservations(),
+      },
+    };
+  },
+};
+
+function cholesky(A: number[][]): number[][] | null {
+  const n = A.length;
+  const L = A.map(() => new Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = A[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (sum <= 0) return null;
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  return L;
+}
+
+// Solves L x = b for lower-triangular L
+function forwardSubstitute(L: number[][], b: number[]): number[] {
+  const x = new Array(b.length).fill(0);
+  for (let i = 0; i < b.length; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= L[i][k] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+}
+
+// Solves L^T x = b for lower-triangular L
+function backSubstitute(L: number[][], b: number[]): number[] {
+  const n = b.length;
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = b[i];
+    for (let k = i + 1; k < n; k++) sum -= L[k][i] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+}
+
+function normalPdf(z: number): number {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+}
+
+// Abramowitz & Stegun 7.1.26 approximation of erf, |error| < 1.5e-7
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
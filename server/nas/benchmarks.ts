@@ -0,0 +1,64 @@
+import {
+  calibrateProfile,
+  DeviceProfile,
+  getDeviceProfile,
+  LatencySample,
+  profileForHardware,
+  registerDeviceProfile,
+} from "./devices";
+import { inferShapes } from "./shapes";
+
+// Calibrates the device profiles from measured latencies stored in
+// performance_benchmarks
+// Built by Shaurya Upadhyay
+
+export interface BenchmarkRow {
+  hardware_type: string;
+  batch_size: number;
+  inference_time_ms: number | null;
+  architecture_json: { layers?: any[] } | null;
+  dataset?: string;
+}
+
+export interface CalibrationReport {
+  // Calibrated profiles, keyed by id
+  calibrated: Record<string, DeviceProfile>;
+  // hardware_type values no profile matched
+  unmatched: string[];
+  rows: number;
+}
+
+/**
+ * Groups benchmark rows by the device profile their hardware_type matches,
+ * calibrates each profile on its rows and registers the result.
+ */
+export function calibrateFromRows(rows: BenchmarkRow[]): CalibrationReport {
+  const samples = new Map<string, LatencySample[]>();
+  const unmatched = new Set<string>();
+
+  for (const row of rows) {
+    const layers = row.architecture_json?.layers;
+    if (!layers || !row.inference_time_ms) continue;
+    const profile = profileForHardware(row.hardware_type);
+    if (!profile) {
+      unmatched.add(row.hardware_type);
+      continue;
+    }
+    samples.set(profile.id, [
+      ...(samples.get(profile.id) || []),
+      {
+        analysis: inferShapes(layers, row.dataset),
+        batchSize: row.batch_size || 1,
+        measuredMs: Number(row.inference_time_ms),
+      },
+    ]);
+  }
+
+  const calibrated: Record<string, DeviceProfile> = {};
+  for (const [id, deviceSamples] of samples) {
+    calibrated[id] = calibrateProfile(getDeviceProfile(id)!, deviceSamples);
+    registerDeviceProfile(calibrated[id]);
+  }
+
+  return { calibrated, unmatched: [...unmatched], rows: rows.length };
+}
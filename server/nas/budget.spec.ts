@@ -0,0 +1,178 @@
+import { afterEach, describe, it, expect, beforeEach } from "vitest";
+import { activeHours, evaluationGpuHours, simulatedGpuHours } from "./budget";
+import { enforceConstraints } from "./constraints";
+import {
+  EvaluationCancelledError,
+  EvaluationPool,
+  EvaluationTask,
+  setEvaluationPool,
+} from "./evaluationPool";
+import { applyBudget, cancelSearch, startSearch } from "./searchRunner";
+import {
+  createSearchJob,
+  getSearchJobStore,
+  MemorySearchJobStore,
+  SearchJob,
+  setSearchJobStore,
+} from "./searchStore";
+import { getSearchStrategy } from "./strategies";
+import { Candidate, SearchBudget } from "./types";
+
+const HOUR = 3600000;
+
+function job(searchId: string, budget: Partial<SearchBudget> = {}) {
+  return createSearchJob({
+    searchId,
+    algorithm: "random",
+    searchSpace: { layers: ["conv2d", "depthwise_conv", "dense", "pooling"] },
+    constraints: {},
+    objectives: {
+      accuracy: { weight: 1 },
+      latency: { weight: 0 },
+      params: { weight: 0 },
+      energy: { weight: 0 },
+    },
+    budget: { maxEvaluations: 40, maxTime: 1, parallel: 4, ...budget },
+    seed: 5,
+  });
+}
+
+async function waitFor(condition: () => Promise<boolean>) {
+  while (!(await condition())) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+async function status(searchId: string) {
+  return (await (await getSearchJobStore()).get(searchId)).status;
+}
+
+function lastReason(search: SearchJob) {
+  return search.statusHistory[search.statusHistory.length - 1].reason;
+}
+
+// Evaluates the initial batch inline, then blocks every later batch until
+// the runner aborts it, like a long training run
+function blockingPool(onBlocked: () => void) {
+  return {
+    async evaluate(
+      tasks: EvaluationTask[],
+      options: { parallel: number; signal?: AbortSignal },
+    ) {
+      if (!options.signal) {
+        return tasks.map((t) =>
+          enforceConstraints(t.candidate, t.constraints, t.dataset),
+        );
+      }
+      onBlocked();
+      return new Promise((_, reject) => {
+        const abort = () => reject(new EvaluationCancelledError());
+        if (options.signal.aborted) abort();
+        options.signal.addEventListener("abort", abort);
+      });
+    },
+  } as unknown as EvaluationPool;
+}
+
+describe("activeHours", () => {
+  it("should not count time spent paused", () => {
+    const search = job("nas_budget_active");
+    const start = search.createdAt;
+    search.statusHistory.push(
+      { from: "initialized", to: "running", at: start + HOUR },
+      { from: "running", to: "paused", at: start + 2 * HOUR },
+      { from: "paused", to: "running", at: start + 5 * HOUR },
+    );
+
+    expect(activeHours(search, start + 6 * HOUR)).toBeCloseTo(3);
+  });
+});
+
+describe("simulatedGpuHours", () => {
+  const candidate = {
+    metrics: { flops: 2e9 },
+  } as Candidate;
+
+  it("should scale with training epochs and dataset size", () => {
+    const full = simulatedGpuHours(candidate, "imagenet", 200);
+
+    expect(full).toBeGreaterThan(1);
+    expect(
+      simulatedGpuHours({ ...candidate, fidelity: 20 }, "imagenet", 200),
+    ).toBeCloseTo(full / 10);
+    expect(simulatedGpuHours(candidate, "cifar10", 200)).toBeLessThan(
+      full / 20,
+    );
+  });
+
+  it("should prefer GPU-hours an evaluator measured", () => {
+    expect(
+      evaluationGpuHours({ ...candidate, gpuHours: 0.5 }, job("nas_gpu")),
+    ).toBe(0.5);
+  });
+});
+
+describe("search budget", () => {
+  beforeEach(() => {
+    setSearchJobStore(new MemorySearchJobStore());
+  });
+
+  afterEach(() => {
+    setEvaluationPool(null);
+  });
+
+  it("should stop once the GPU-hour budget is used up", async () => {
+    const store = await getSearchJobStore();
+    const search = job("nas_budget_gpu", { maxGpuHours: 1e-6 });
+    await store.create(search);
+    await startSearch(search, getSearchStrategy("random"));
+    await waitFor(async () => (await status(search.searchId)) !== "running");
+
+    const finished = await store.get(search.searchId);
+    expect(lastReason(finished)).toBe("GPU-hour budget exhausted");
+    expect(finished.evaluations).toBeLessThan(search.budget.maxEvaluations);
+    const evaluated = await store.listEvaluated(search.searchId);
+    expect(finished.generations[0].gpuHours).toBeCloseTo(
+      evaluated.reduce((sum, c) => sum + c.gpuHours, 0),
+    );
+  });
+
+  it("should cut the running generation short when maxTime shrinks", async () => {
+    const store = await getSearchJobStore();
+    let blocked = false;
+    setEvaluationPool(blockingPool(() => (blocked = true)));
+    const search = job("nas_budget_shrink");
+    await store.create(search);
+    await startSearch(search, getSearchStrategy("random"));
+    await waitFor(async () => blocked);
+
+    const budget = { ...search.budget, maxTime: 0 };
+    await store.update(search.searchId, { budget });
+    applyBudget(search.searchId, budget);
+    await waitFor(async () => (await status(search.searchId)) !== "running");
+
+    expect(lastReason(await store.get(search.searchId))).toBe(
+      "Time budget exhausted",
+    );
+  });
+
+  it("should keep running past the old deadline after an extension", async () => {
+    const store = await getSearchJobStore();
+    let blocked = false;
+    setEvaluationPool(blockingPool(() => (blocked = true)));
+    const search = job("nas_budget_extend", { maxTime: 2 / 3600 });
+    await store.create(search);
+    await startSearch(search, getSearchStrategy("random"));
+    await waitFor(async () => blocked);
+
+    // As if extended through another process: only the store changes
+    await store.update(search.searchId, {
+      budget: { ...search.budget, maxTime: 1 },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 2500));
+
+    expect(await status(search.searchId)).toBe("running");
+    cancelSearch(search.searchId);
+    await store.transition(search.searchId, "stopped", "Test cleanup");
+  }, 10000);
+});
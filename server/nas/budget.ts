@@ -0,0 +1,113 @@
+import { getDeviceProfile } from "./devices";
+import type { SearchJob } from "./searchStore";
+import { Candidate, SearchBudget } from "./types";
+
+// Search budget accounting: evaluations, wall-clock hours spent running and
+// GPU-hours used, checked against the job's (adjustable) limits
+// Built by Shaurya Upadhyay
+
+// Full training length when the budget does not set maxEpochs; the
+// search_experiments.max_epochs default
+export const DEFAULT_MAX_EPOCHS = 200;
+
+// Training-set sizes for the simulated training cost
+const TRAINING_IMAGES: Record<string, number> = {
+  imagenet: 1281167,
+  cifar10: 50000,
+  cifar100: 50000,
+};
+const DEFAULT_TRAINING_IMAGES = 50000;
+
+// Simulated training runs on this device profile, so calibrating it also
+// recalibrates GPU-hour estimates
+const TRAINING_DEVICE = "datacenter_gpu";
+
+export interface BudgetUsage {
+  evaluations: number;
+  // Time spent initializing or running; pauses do not count
+  wallClockHours: number;
+  gpuHours: number;
+}
+
+/**
+ * GPU-hours training `candidate` would take: three times its forward FLOPs
+ * (forward plus backward pass) per image and epoch, at the training
+ * device's sustained throughput. Fidelity-tagged candidates train for
+ * their `fidelity` epochs.
+ */
+export function simulatedGpuHours(
+  candidate: Candidate,
+  dataset: string,
+  maxEpochs: number = DEFAULT_MAX_EPOCHS,
+): number {
+  const device = getDeviceProfile(TRAINING_DEVICE);
+  const images = TRAINING_IMAGES[dataset] ?? DEFAULT_TRAINING_IMAGES;
+  const epochs = candidate.fidelity ?? maxEpochs;
+  const flops = 3 * (candidate.metrics?.flops ?? 0) * images * epochs;
+  return flops / (device.peakFlops * device.utilization) / 3600;
+}
+
+/** Measured GPU-hours when the evaluator reported them, else simulated. */
+export function evaluationGpuHours(candidate: Candidate, job: SearchJob) {
+  return (
+    candidate.gpuHours ??
+    simulatedGpuHours(candidate, job.dataset, job.budget.maxEpochs)
+  );
+}
+
+/** Hours the search spent initialized or running, up to `now`. */
+export function activeHours(job: SearchJob, now: number = Date.now()) {
+  let active = 0;
+  let since: number | null = job.createdAt;
+  for (const { to, at } of job.statusHistory) {
+    const counting = to === "initialized" || to === "running";
+    if (counting && since === null) since = at;
+    if (!counting && since !== null) {
+      active += at - since;
+      since = null;
+    }
+  }
+  if (since !== null) active += now - since;
+  return active / 3600000;
+}
+
+export function searchUsage(
+  job: SearchJob,
+  now: number = Date.now(),
+): BudgetUsage {
+  const latest = job.generations[job.generations.length - 1];
+  return {
+    evaluations: job.evaluations,
+    wallClockHours: activeHours(job, now),
+    gpuHours: latest?.gpuHours ?? 0,
+  };
+}
+
+/**
+ * Why the search has to stop before its next step, or null while every
+ * limit has room. GPU-hours are only known once a batch is evaluated, so
+ * the last batch can overshoot maxGpuHours.
+ */
+export function exhaustedBudget(
+  budget: SearchBudget,
+  usage: BudgetUsage,
+): string | null {
+  if (usage.evaluations >= budget.maxEvaluations) {
+    return "Evaluation budget exhausted";
+  }
+  if (usage.wallClockHours >= budget.maxTime) {
+    return "Time budget exhausted";
+  }
+  if (
+    budget.maxGpuHours !== undefined &&
+    usage.gpuHours >= budget.maxGpuHours
+  ) {
+    return "GPU-hour budget exhausted";
+  }
+  return null;
+}
+
+/** Wall-clock budget left, in milliseconds. */
+export function wallClockLeft(budget: SearchBudget, usage: BudgetUsage) {
+  return (budget.maxTime - usage.wallClockHours) * 3600000;
+}
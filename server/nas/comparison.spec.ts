@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { comparisonWeights, rankArchitectures } from "./comparison";
+
+const conv = (filters: number, kernel_size = 3) => ({
+  type: "conv2d",
+  filters,
+  kernel_size,
+});
+const head = [{ type: "global_avg_pool" }, { type: "dense", units: 10 }];
+
+const small = { name: "small", layers: [conv(16), conv(32), ...head] };
+const wide = { name: "wide", layers: [conv(128), conv(256), ...head] };
+// Costs slightly more than small for the same estimated accuracy
+const wasteful = {
+  name: "wasteful",
+  layers: [conv(16), conv(32), { type: "batch_norm" }, ...head],
+};
+
+describe("rankArchitectures", () => {
+  it("should build a dominance matrix and per-metric rankings", () => {
+    const result = rankArchitectures([small, wide, wasteful], {}, "cifar10");
+
+    expect(result.dominance[0][2]).toBe(true);
+    expect(result.dominance[2][0]).toBe(false);
+    expect(result.dominance.map((row, i) => row[i])).toEqual([
+      false,
+      false,
+      false,
+    ]);
+    expect(result.rankings.params[0]).toBe(0);
+    expect(result.rankings.accuracy[0]).toBe(1);
+    expect(result.architectures.map((a) => a.rank).sort()).toEqual([1, 2, 3]);
+    expect(rankArchitectures([small, wide, wasteful], {}, "cifar10")).toEqual(
+      result,
+    );
+  });
+
+  it("should rank architectures that meet the constraints first", () => {
+    const minAccuracy = rankArchitectures([small, wide], {}, "cifar10")
+      .architectures[1].metrics.estimatedAccuracy;
+    const result = rankArchitectures([small, wide], { minAccuracy }, "cifar10");
+
+    expect(result.winner).toBe(1);
+    expect(result.architectures[0].feasible).toBe(false);
+    expect(result.explanation[0]).toBe(
+      "wide satisfies every constraint, unlike small",
+    );
+    expect(result.weights).toEqual(comparisonWeights({ minAccuracy }));
+    expect(result.weights.accuracy).toBe(2);
+  });
+});
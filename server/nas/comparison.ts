@@ -0,0 +1,218 @@
+import {
+  checkMetrics,
+  ConstraintName,
+  ConstraintViolation,
+} from "./constraints";
+import { estimateArchitectureMetrics, estimateEnergy } from "./evaluator";
+import { dominates, ObjectiveName } from "./pareto";
+import { ArchitectureMetrics, SearchConstraints } from "./types";
+
+// Deterministic side-by-side comparison of architectures: Pareto dominance,
+// per-metric rankings and a constraint-weighted score
+// Built by Shaurya Upadhyay
+
+export interface ComparedArchitecture {
+  index: number;
+  name: string;
+  metrics: ArchitectureMetrics;
+  values: Record<ObjectiveName, number>;
+  feasible: boolean;
+  violations: ConstraintViolation[];
+  // Weighted mean of min-max normalized metrics, 0-100
+  score: number;
+  // Position in the final order, 1 = winner
+  rank: number;
+}
+
+export interface ComparisonResult {
+  architectures: ComparedArchitecture[];
+  weights: Record<ObjectiveName, number>;
+  // dominance[i][j]: architecture i Pareto-dominates architecture j
+  dominance: boolean[][];
+  // Architecture indices per metric, best first
+  rankings: Record<ObjectiveName, number[]>;
+  winner: number;
+  explanation: string[];
+}
+
+const METRICS: ObjectiveName[] = ["accuracy", "latency", "params", "energy"];
+const MAXIMIZED: ObjectiveName[] = ["accuracy"];
+
+// The metric each constraint limits; model size scales with parameters
+const CONSTRAINED_METRIC: Record<ConstraintName, ObjectiveName> = {
+  minAccuracy: "accuracy",
+  maxLatency: "latency",
+  maxParams: "params",
+  maxMemory: "params",
+  energyBudget: "energy",
+};
+
+/**
+ * Metric weights: every metric counts once, plus once more for each
+ * constraint the caller placed on it.
+ */
+export function comparisonWeights(
+  constraints: SearchConstraints = {},
+): Record<ObjectiveName, number> {
+  const weights = { accuracy: 1, latency: 1, params: 1, energy: 1 };
+  for (const [name, limit] of Object.entries(constraints)) {
+    const metric = CONSTRAINED_METRIC[name as ConstraintName];
+    if (metric && limit !== undefined && limit !== null) weights[metric] += 1;
+  }
+  return weights;
+}
+
+/**
+ * Evaluates and ranks architectures. Architectures that satisfy every
+ * constraint rank above those that do not; within each group the order is
+ * by weighted score, then by input position, so the same input always
+ * gives the same result.
+ */
+export function rankArchitectures(
+  architectures: { name?: string; layers?: any[]; graph?: any }[],
+  constraints: SearchConstraints = {},
+  dataset: string = "imagenet",
+  device?: string,
+): ComparisonResult {
+  const weights = comparisonWeights(constraints);
+  const compared = architectures.map((architecture, index) => {
+    const metrics = estimateArchitectureMetrics(architecture, dataset, device);
+    const violations = checkMetrics(metrics, constraints);
+    return {
+      index,
+      name: architecture.name || `Architecture ${index + 1}`,
+      metrics,
+      values: {
+        accuracy: metrics.estimatedAccuracy,
+        latency: metrics.estimatedLatency,
+        params: metrics.parameterCount,
+        energy: estimateEnergy(metrics),
+      },
+      feasible: violations.length === 0,
+      violations,
+      score: 0,
+      rank: 0,
+    };
+  });
+
+  const normalized = normalize(compared.map((c) => c.values));
+  const totalWeight = METRICS.reduce((sum, m) => sum + weights[m], 0);
+  compared.forEach((c, i) => {
+    c.score = round(
+      (METRICS.reduce((sum, m) => sum + weights[m] * normalized[i][m], 0) /
+        totalWeight) *
+        100,
+    );
+  });
+
+  const order = [...compared].sort(
+    (a, b) =>
+      Number(b.feasible) - Number(a.feasible) ||
+      b.score - a.score ||
+      a.index - b.index,
+  );
+  order.forEach((c, position) => (c.rank = position + 1));
+
+  const vectors = compared.map((c) => toMinimized(c.values));
+  const dominance = vectors.map((a) => vectors.map((b) => dominates(a, b)));
+  const rankings = Object.fromEntries(
+    METRICS.map((metric, k) => [
+      metric,
+      compared
+        .map((c) => c.index)
+        .sort((a, b) => vectors[a][k] - vectors[b][k] || a - b),
+    ]),
+  ) as Record<ObjectiveName, number[]>;
+
+  const winner = order[0].index;
+  return {
+    architectures: compared,
+    weights,
+    dominance,
+    rankings,
+    winner,
+    explanation: explain(compared, order, dominance, rankings, weights),
+  };
+}
+
+function explain(
+  compared: ComparedArchitecture[],
+  order: ComparedArchitecture[],
+  dominance: boolean[][],
+  rankings: Record<ObjectiveName, number[]>,
+  weights: Record<ObjectiveName, number>,
+): string[] {
+  const [winner, runnerUp] = order;
+  const lines: string[] = [];
+
+  const infeasible = compared.filter((c) => !c.feasible);
+  if (!winner.feasible) {
+    lines.push(
+      `No architecture satisfies every constraint; ${winner.name} scores best regardless`,
+    );
+  } else if (infeasible.length > 0) {
+    lines.push(
+      `${winner.name} satisfies every constraint, unlike ${infeasible
+        .map((c) => c.name)
+        .join(", ")}`,
+    );
+  }
+
+  const dominated = compared.filter((c) => dominance[winner.index][c.index]);
+  if (dominated.length > 0) {
+    lines.push(
+      `${winner.name} is at least as good on every metric as ${dominated
+        .map((c) => c.name)
+        .join(", ")} and strictly better on one`,
+    );
+  }
+
+  const leads = METRICS.filter((m) => rankings[m][0] === winner.index);
+  if (leads.length > 0) {
+    lines.push(`${winner.name} ranks first on ${leads.join(", ")}`);
+  }
+
+  if (runnerUp) {
+    // Metrics where the winner beats the runner-up, heaviest weight first
+    const ours = toMinimized(winner.values);
+    const theirs = toMinimized(runnerUp.values);
+    const advantages = METRICS.filter((_, k) => ours[k] < theirs[k]).sort(
+      (a, b) => weights[b] - weights[a],
+    );
+    lines.push(
+      `${winner.name} scores ${winner.score} against ${runnerUp.score} for ${
+        runnerUp.name
+      }${advantages.length > 0 ? `, ahead on ${advantages.join(", ")}` : ""}`,
+    );
+  }
+  return lines;
+}
+
+// Each metric mapped to [0, 1] across the compared set, 1 being best
+function normalize(
+  values: Record<ObjectiveName, number>[],
+): Record<ObjectiveName, number>[] {
+  const bounds = METRICS.map((m) => {
+    const column = values.map((v) => v[m]);
+    return [Math.min(...column), Math.max(...column)];
+  });
+  return values.map(
+    (v) =>
+      Object.fromEntries(
+        METRICS.map((m, k) => {
+          const [min, max] = bounds[k];
+          if (max === min) return [m, 1];
+          const position = (v[m] - min) / (max - min);
+          return [m, MAXIMIZED.includes(m) ? position : 1 - position];
+        }),
+      ) as Record<ObjectiveName, number>,
+  );
+}
+
+function toMinimized(values: Record<ObjectiveName, number>): number[] {
+  return METRICS.map((m) => (MAXIMIZED.includes(m) ? -values[m] : values[m]));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import {
+  emptyConstraintStats,
+  enforceConstraints,
+  recordOutcome,
+} from "./constraints";
+import { Candidate } from "./types";
+
+const wide: Candidate = {
+  id: "arch_wide",
+  layers: [
+    { type: "conv2d", filters: 256, kernel_size: 3, activation: "relu" },
+    { type: "conv2d", filters: 256, kernel_size: 3, activation: "relu" },
+    { type: "pooling" },
+    { type: "dense", units: 1024, activation: "relu" },
+    { type: "dense", units: 1024, activation: "relu" },
+  ],
+  optimizer: "adam",
+  learningRate: 0.001,
+  batchSize: 32,
+  score: 0,
+  estimatedLatency: 0,
+  estimatedParams: 0,
+  confidence: 0,
+};
+
+describe("enforceConstraints", () => {
+  it("should repair a candidate over the parameter limit", () => {
+    const outcome = enforceConstraints(wide, { maxParams: 500000 }, "cifar10");
+
+    expect(outcome.repaired).toBe(true);
+    expect(outcome.violations[0].constraint).toBe("maxParams");
+    expect(outcome.candidate!.metrics!.parameterCount).toBeLessThanOrEqual(
+      500000,
+    );
+  });
+
+  it("should reject what shrinking cannot fix and count it", () => {
+    const stats = emptyConstraintStats();
+    const outcome = enforceConstraints(wide, { minAccuracy: 1 }, "cifar10");
+    recordOutcome(stats, outcome);
+
+    expect(outcome.candidate).toBeNull();
+    expect(outcome.rejection![0].reason).toMatch(/^minAccuracy/);
+    expect(stats).toMatchObject({
+      checked: 1,
+      rejected: 1,
+      filtered: { minAccuracy: 1 },
+    });
+  });
+});
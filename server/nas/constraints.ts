@@ -0,0 +1,191 @@
+import { estimateEnergy, evaluateCandidate } from "./evaluator";
+import {
+  ArchitectureMetrics,
+  Candidate,
+  LayerSpec,
+  SearchConstraints,
+} from "./types";
+
+// Hard constraint enforcement: candidates over a limit are repaired by
+// shrinking or dropping layers, or rejected with the reasons recorded
+// Built by Shaurya Upadhyay
+
+export type ConstraintName = keyof SearchConstraints;
+
+export interface ConstraintViolation {
+  constraint: ConstraintName;
+  limit: number;
+  actual: number;
+  reason: string;
+}
+
+export interface ConstraintStats {
+  checked: number;
+  repaired: number;
+  rejected: number;
+  // Candidates that violated each constraint before repair
+  violations: Partial<Record<ConstraintName, number>>;
+  // Candidates each constraint caused to be rejected
+  filtered: Partial<Record<ConstraintName, number>>;
+}
+
+export interface Rejection {
+  candidateId: string;
+  generation: number;
+  reasons: string[];
+}
+
+export interface ConstraintOutcome {
+  // Evaluated (possibly repaired) candidate, or null if rejected
+  candidate: Candidate | null;
+  violations: ConstraintViolation[];
+  repaired: boolean;
+  rejection?: ConstraintViolation[];
+}
+
+const MIN_LAYERS = 2;
+const MIN_FILTERS = 16;
+const MIN_UNITS = 64;
+const MAX_REPAIR_STEPS = 30;
+
+/** Limits an evaluated candidate exceeds, in the estimator's units. */
+export function checkConstraints(
+  candidate: Candidate,
+  constraints: SearchConstraints,
+): ConstraintViolation[] {
+  return checkMetrics(candidate.metrics, constraints);
+}
+
+export function checkMetrics(
+  metrics: ArchitectureMetrics | undefined,
+  constraints: SearchConstraints,
+): ConstraintViolation[] {
+  if (!metrics || !constraints) return [];
+
+  const checks: [ConstraintName, number, string, boolean][] = [
+    ["maxParams", metrics.parameterCount, "parameters", false],
+    ["maxLatency", metrics.estimatedLatency, "ms latency", false],
+    ["maxMemory", metrics.modelSize, "MB model size", false],
+    ["energyBudget", estimateEnergy(metrics), "mJ per inference", false],
+    ["minAccuracy", metrics.estimatedAccuracy, "estimated accuracy", true],
+  ];
+
+  return checks.flatMap(([constraint, actual, unit, isMinimum]) => {
+    const limit = constraints[constraint];
+    if (limit === undefined || limit === null) return [];
+    if (isMinimum ? actual >= limit : actual <= limit) return [];
+    return [
+      {
+        constraint,
+        limit,
+        actual,
+        reason: `${constraint}: ${round(actual)} ${unit} ${
+          isMinimum ? "is below the minimum" : "exceeds the limit"
+        } of ${round(limit)}`,
+      },
+    ];
+  });
+}
+
+/**
+ * Evaluates a candidate and enforces the constraints on it. Cost limits are
+ * repaired by repeatedly halving the widest layer's filters/units and, once
+ * every layer is at its minimum width, dropping layers. Accuracy floors
+ * cannot be repaired by shrinking, so those candidates are rejected.
+ */
+export function enforceConstraints(
+  candidate: Candidate,
+  constraints: SearchConstraints,
+  dataset: string,
+): ConstraintOutcome {
+  let current = evaluateCandidate(candidate, dataset);
+  const violations = checkConstraints(current, constraints);
+  if (violations.length === 0) {
+    return { candidate: current, violations, repaired: false };
+  }
+
+  let remaining = violations;
+  for (
+    let step = 0;
+    step < MAX_REPAIR_STEPS && remaining.some(isRepairable);
+    step++
+  ) {
+    const layers = shrinkLayers(current.layers);
+    if (!layers) break;
+    current = evaluateCandidate({ ...current, layers }, dataset);
+    remaining = checkConstraints(current, constraints);
+  }
+
+  if (remaining.length > 0) {
+    return {
+      candidate: null,
+      violations,
+      repaired: false,
+      rejection: remaining,
+    };
+  }
+  return { candidate: current, violations, repaired: true };
+}
+
+export function emptyConstraintStats(): ConstraintStats {
+  return { checked: 0, repaired: 0, rejected: 0, violations: {}, filtered: {} };
+}
+
+/** Adds one outcome to running stats (mutates `stats`). */
+export function recordOutcome(
+  stats: ConstraintStats,
+  outcome: ConstraintOutcome,
+): void {
+  stats.checked++;
+  if (outcome.repaired) stats.repaired++;
+  for (const { constraint } of outcome.violations) {
+    stats.violations[constraint] = (stats.violations[constraint] || 0) + 1;
+  }
+  if (outcome.rejection) {
+    stats.rejected++;
+    for (const { constraint } of outcome.rejection) {
+      stats.filtered[constraint] = (stats.filtered[constraint] || 0) + 1;
+    }
+  }
+}
+
+function isRepairable(violation: ConstraintViolation): boolean {
+  return violation.constraint !== "minAccuracy";
+}
+
+// One repair move: halve the widest layer, or drop it if already minimal
+function shrinkLayers(layers: LayerSpec[]): LayerSpec[] | null {
+  let widest = -1;
+  let widestRatio = 1;
+  layers.forEach((layer, i) => {
+    const ratio = Math.max(
+      (layer.filters || 0) / MIN_FILTERS,
+      (layer.units || 0) / MIN_UNITS,
+    );
+    if (ratio > widestRatio) {
+      widest = i;
+      widestRatio = ratio;
+    }
+  });
+
+  if (widest >= 0) {
+    const layer = { ...layers[widest] };
+    if (layer.filters) {
+      layer.filters = Math.max(MIN_FILTERS, Math.floor(layer.filters / 2));
+    }
+    if (layer.units) {
+      layer.units = Math.max(MIN_UNITS, Math.floor(layer.units / 2));
+    }
+    return layers.map((l, i) => (i === widest ? layer : l));
+  }
+
+  if (layers.length <= MIN_LAYERS) return null;
+  // Every layer is at minimum width: drop the last parameterized one
+  let drop = layers.length - 1;
+  while (drop > 0 && !layers[drop].filters && !layers[drop].units) drop--;
+  return layers.filter((_, i) => i !== drop);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
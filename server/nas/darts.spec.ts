@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { DartsSupernet, planSupernet, SupernetState } from "./darts";
+import { SeededRandom } from "./random";
+
+const searchSpace = { layers: ["conv2d", "pooling", "dense"] };
+
+function supernet(state?: SupernetState, dataset = "cifar10") {
+  return new DartsSupernet(
+    searchSpace,
+    dataset,
+    planSupernet(),
+    new SeededRandom(1),
+    state,
+  );
+}
+
+describe("DartsSupernet relaxation", () => {
+  it("should mix the enabled ops uniformly on every edge at first", () => {
+    const net = supernet();
+    const { nodes } = planSupernet();
+
+    expect(net.edges).toHaveLength((nodes * (nodes + 1)) / 2);
+    expect(net.ops.map((op) => op.name)).toEqual([
+      "conv_3x3",
+      "conv_5x5",
+      "max_pool_3x3",
+      "skip_connect",
+      "none",
+    ]);
+    for (const w of net.weights()) {
+      for (const weight of w) expect(weight).toBeCloseTo(1 / net.ops.length);
+    }
+  });
+
+  it("should report the gradient of its surrogate", () => {
+    const state = supernet().getState();
+    state.alphas[2].conv_5x5 = 0.4;
+    state.alphas[5].skip_connect = -0.3;
+    const { gradient } = supernet(state).surrogate();
+
+    const h = 1e-5;
+    for (const [edge, op] of [
+      [2, 1],
+      [5, 3],
+      [7, 4],
+    ]) {
+      const shifted = structuredClone(state);
+      shifted.alphas[edge][supernet().ops[op].name] += h;
+      const numeric =
+        (supernet(shifted).surrogate().value -
+          supernet(state).surrogate().value) /
+        h;
+      expect(gradient[edge][op]).toBeCloseTo(numeric, 5);
+    }
+  });
+
+  it("should raise the surrogate by training the alphas", () => {
+    const net = supernet();
+    const before = net.surrogate().value;
+    net.train(20);
+
+    expect(net.surrogate().value).toBeGreaterThan(before);
+  });
+});
+
+describe("DartsSupernet discretization", () => {
+  it("should keep the strongest op on the strongest incoming edges", () => {
+    const state = supernet().getState();
+    state.alphas.forEach((a) => (a.none = 10));
+    state.alphas[0].conv_5x5 = 2;
+    state.alphas[1].max_pool_3x3 = 3;
+    state.alphas[2].max_pool_3x3 = 1;
+    const cell = supernet(state).derive();
+
+    // Node k has k incoming edges and keeps at most two
+    expect(cell.map(({ from, to }) => [from, to])).toEqual([
+      [0, 1],
+      [0, 2],
+      [1, 2],
+      [0, 3],
+      [1, 3],
+      [0, 4],
+      [1, 4],
+    ]);
+    expect(cell.some(({ op }) => op.name === "none")).toBe(false);
+    expect(cell[0].op.name).toBe("conv_5x5");
+    expect(cell[1].op.name).toBe("max_pool_3x3");
+  });
+
+  it("should flatten a derived cell into a layer list", () => {
+    const net = supernet(undefined, "cifar100");
+    const cell = net.derive();
+    const layers = net.toLayers(cell);
+    const { cellChannels } = planSupernet();
+    const perCell = cell.filter(({ op }) => op.layer).length;
+
+    expect(layers).toHaveLength(
+      cellChannels.length * (perCell + 1) + (cellChannels.length - 1) + 2,
+    );
+    expect(layers.filter((l) => l.type === "batch_norm")).toEqual(
+      cellChannels.map((features) => ({
+        type: "batch_norm",
+        features,
+        momentum: 0.99,
+      })),
+    );
+    expect(layers.slice(-2)).toEqual([
+      { type: "global_avg_pool" },
+      { type: "dense", units: 100, activation: "softmax" },
+    ]);
+    for (const layer of layers.filter((l) => l.type === "conv2d")) {
+      expect(cellChannels).toContain(layer.filters);
+    }
+  });
+
+  it("should derive the same cell from a saved state", () => {
+    const net = supernet();
+    net.train(5);
+
+    expect(supernet(net.getState()).derive()).toEqual(net.derive());
+  });
+});
@@ -0,0 +1,394 @@
+import { estimateArchitectureMetrics } from "./evaluator";
+import { sampleIndex, SeededRandom, softmax } from "./random";
+import { generateArchitectureId } from "./sampling";
+import {
+  evaluateBatch,
+  SearchContext,
+  SearchStrategy,
+  topCandidates,
+} from "./searchRunner";
+import { Candidate, LayerSpec, SearchSpace } from "./types";
+
+// DARTS-style differentiable search over a cell-based supernet
+// Built by Shaurya Upadhyay
+
+export interface CellOp {
+  name: string;
+  // Layer the op turns into after discretization; null for identity/zero
+  layer: LayerSpec | null;
+  // Proxy capacity used by the surrogate accuracy model
+  quality: number;
+  // Which flat search-space layer type enables the op
+  requires?: string;
+}
+
+export const CELL_OPS: CellOp[] = [
+  {
+    name: "conv_3x3",
+    layer: { type: "conv2d", kernel_size: 3, activation: "relu" },
+    quality: 0.9,
+    requires: "conv2d",
+  },
+  {
+    name: "conv_5x5",
+    layer: { type: "conv2d", kernel_size: 5, activation: "relu" },
+    quality: 1,
+    requires: "conv2d",
+  },
+  {
+    name: "dw_conv_3x3",
+    layer: { type: "depthwise_conv", kernel_size: 3, activation: "relu" },
+    quality: 0.6,
+    requires: "depthwise_conv",
+  },
+  {
+    name: "dw_conv_5x5",
+    layer: { type: "depthwise_conv", kernel_size: 5, activation: "relu" },
+    quality: 0.7,
+    requires: "depthwise_conv",
+  },
+  {
+    name: "max_pool_3x3",
+    layer: { type: "pooling" },
+    quality: 0.3,
+    requires: "pooling",
+  },
+  { name: "skip_connect", layer: null, quality: 0.2 },
+  { name: "none", layer: null, quality: 0 },
+];
+
+export interface SupernetConfig {
+  // Intermediate nodes per cell; node k has an edge from every earlier node
+  nodes: number;
+  // Channels of each cell, with a reduction (pooling) between cells
+  cellChannels: number[];
+  // Incoming edges each node keeps when discretizing
+  edgesPerNode: number;
+  learningRate: number;
+  // Gradient steps on the alphas between two evaluation rounds
+  stepsPerRound: number;
+}
+
+export interface SupernetState {
+  // Per-edge architecture weights keyed by op name, shared by all cells
+  alphas: Record<string, number>[];
+}
+
+export interface Edge {
+  from: number;
+  to: number;
+}
+
+export interface DerivedEdge extends Edge {
+  op: CellOp;
+  weight: number;
+}
+
+interface OpCost {
+  params: number;
+  latency: number;
+}
+
+const DATASET_CLASSES: Record<string, number> = {
+  cifar10: 10,
+  cifar100: 100,
+  imagenet: 1000,
+};
+
+/**
+ * Continuous relaxation of a cell search space: every edge is a softmax
+ * mixture over CELL_OPS weighted by its alphas. Alphas are trained by
+ * gradient ascent on a differentiable surrogate of the search fitness and
+ * the final architecture keeps the argmax op on the strongest edges.
+ */
+export class DartsSupernet {
+  readonly ops: CellOp[];
+  readonly edges: Edge[];
+  private alphas: Record<string, number>[];
+  private costs: OpCost[][];
+
+  constructor(
+    searchSpace: SearchSpace,
+    private dataset: string,
+    private config: SupernetConfig,
+    private rng: SeededRandom,
+    state?: SupernetState,
+  ) {
+    this.ops = availableOps(searchSpace);
+    this.edges = [];
+    for (let to = 1; to <= config.nodes; to++) {
+      for (let from = 0; from < to; from++) this.edges.push({ from, to });
+    }
+
+    this.alphas = this.edges.map((_, e) =>
+      Object.fromEntries(
+        this.ops.map((op) => [op.name, state?.alphas[e]?.[op.name] ?? 0]),
+      ),
+    );
+    this.costs = config.cellChannels.map((channels) =>
+      this.ops.map((op) => opCost(op, channels)),
+    );
+  }
+
+  getState(): SupernetState {
+    return { alphas: this.alphas.map((a) => ({ ...a })) };
+  }
+
+  /** Mixing weights of every edge, in `ops` order. */
+  weights(): number[][] {
+    return this.alphas.map((a) => softmax(this.ops.map((op) => a[op.name])));
+  }
+
+  /**
+   * Surrogate fitness of the relaxed supernet and its gradient w.r.t. the
+   * alphas. It mirrors fitnessFromMetrics: a saturating proxy accuracy on
+   * the expected op capacity minus log penalties on the expected parameter
+   * count and latency from the cost estimator.
+   */
+  surrogate(): { value: number; gradient: number[][] } {
+    const weights = this.weights();
+    const cells = this.config.cellChannels.length;
+    const tau = 0.5 * this.edges.length * cells;
+
+    let capacity = 0;
+    let params = 0;
+    let latency = 0;
+    weights.forEach((w) => {
+      this.ops.forEach((op, o) => {
+        capacity += cells * w[o] * op.quality;
+        this.costs.forEach((cellCosts) => {
+          params += w[o] * cellCosts[o].params;
+          latency += w[o] * cellCosts[o].latency;
+        });
+      });
+    });
+
+    const accuracy =
+      baseAccuracy(this.dataset) + 0.2 * (1 - Math.exp(-capacity / tau));
+    const value =
+      accuracy -
+      0.02 * Math.log10(1 + params / 1e6) -
+      0.02 * Math.log10(1 + latency);
+
+    // d value / d w[o], identical for every edge since costs are shared
+    const dAccuracy = (0.2 / tau) * Math.exp(-capacity / tau);
+    const dParams = 0.02 / (Math.LN10 * (1e6 + params));
+    const dLatency = 0.02 / (Math.LN10 * (1 + latency));
+    const dWeight = this.ops.map((op, o) => {
+      const cellParams = this.costs.reduce((s, c) => s + c[o].params, 0);
+      const cellLatency = this.costs.reduce((s, c) => s + c[o].latency, 0);
+      return (
+        dAccuracy * cells * op.quality -
+        dParams * cellParams -
+        dLatency * cellLatency
+      );
+    });
+
+    // Back through the softmax: dw_o/da_j = w_o (1[o = j] - w_j)
+    const gradient = weights.map((w) => {
+      const expected = w.reduce((s, wo, o) => s + wo * dWeight[o], 0);
+      return w.map((wj, j) => wj * (dWeight[j] - expected));
+    });
+
+    return { value, gradient };
+  }
+
+  /** Runs gradient-ascent steps on the alphas; returns the last surrogate value. */
+  train(steps = this.config.stepsPerRound): number {
+    let value = 0;
+    for (let i = 0; i < steps; i++) {
+      const result = this.surrogate();
+      value = result.value;
+      result.gradient.forEach((g, e) => {
+        this.ops.forEach((op, o) => {
+          this.alphas[e][op.name] += this.config.learningRate * g[o];
+        });
+      });
+    }
+    return value;
+  }
+
+  /**
+   * Discretizes the supernet: each edge keeps its strongest non-zero op
+   * (or one sampled from its mixture when `sample` is set) and each node
+   * keeps its `edgesPerNode` strongest incoming edges.
+   */
+  derive(sample = false): DerivedEdge[] {
+    const weights = this.weights();
+    const candidates = this.edges.map((edge, e) => {
+      const choices = this.ops
+        .map((op, o) => ({ op, weight: weights[e][o] }))
+        .filter(({ op }) => op.name !== "none");
+      const chosen = sample
+        ? choices[
+            sampleIndex(
+              choices.map((c) => c.weight),
+              this.rng.next(),
+            )
+          ]
+        : choices.reduce((a, b) => (b.weight > a.weight ? b : a));
+      return { ...edge, op: chosen.op, weight: chosen.weight };
+    });
+
+    const kept: DerivedEdge[] = [];
+    for (let to = 1; to <= this.config.nodes; to++) {
+      kept.push(
+        ...candidates
+          .filter((edge) => edge.to === to)
+          .sort((a, b) => b.weight - a.weight)
+          .slice(0, this.config.edgesPerNode)
+          .sort((a, b) => a.from - b.from),
+      );
+    }
+    return kept;
+  }
+
+  /** Flattens a derived cell into the API's ordinary layer list. */
+  toLayers(cell: DerivedEdge[]): LayerSpec[] {
+    const layers: LayerSpec[] = [];
+
+    this.config.cellChannels.forEach((channels, c) => {
+      if (c > 0) layers.push({ type: "pooling" });
+      for (const { op } of cell) {
+        if (!op.layer) continue;
+        layers.push(
+          op.layer.type === "conv2d"
+            ? { ...op.layer, filters: channels }
+            : { ...op.layer },
+        );
+      }
+      layers.push({ type: "batch_norm", features: channels, momentum: 0.99 });
+    });
+
+    layers.push({ type: "global_avg_pool" });
+    layers.push({
+      type: "dense",
+      units: DATASET_CLASSES[this.dataset] || 1000,
+      activation: "softmax",
+    });
+    return layers;
+  }
+
+  toCandidate(searchSpace: SearchSpace, sample = false): Candidate {
+    return {
+      id: generateArchitectureId(this.rng),
+      layers: this.toLayers(this.derive(sample)),
+      optimizer: this.rng.choice(
+        searchSpace.optimizers || ["adam", "sgd", "rmsprop"],
+      ),
+      learningRate: this.rng.choice(
+        searchSpace.learningRates || [0.001, 0.01, 0.1],
+      ),
+      batchSize: this.rng.choice(searchSpace.batchSizes || [16, 32, 64, 128]),
+      score: 0,
+      estimatedParams: 0,
+      estimatedLatency: 0,
+      confidence: 0.5,
+    };
+  }
+}
+
+export function planSupernet(): SupernetConfig {
+  return {
+    nodes: 4,
+    cellChannels: [32, 64, 128],
+    edgesPerNode: 2,
+    learningRate: 20,
+    stepsPerRound: 10,
+  };
+}
+
+export const gradientStrategy: SearchStrategy = {
+  initialize(job, context) {
+    const supernet = new DartsSupernet(
+      job.searchSpace,
+      job.dataset,
+      planSupernet(),
+      context.rng,
+    );
+    return searchRound(
+      supernet,
+      context,
+      job.searchSpace,
+      Math.min(job.budget.parallel, job.budget.maxEvaluations),
+      0,
+      [],
+    );
+  },
+
+  step(job, context, remaining, generation) {
+    const supernet = new DartsSupernet(
+      job.searchSpace,
+      job.dataset,
+      planSupernet(),
+      context.rng,
+      job.checkpoint.supernet,
+    );
+    return searchRound(
+      supernet,
+      context,
+      job.searchSpace,
+      Math.min(job.budget.parallel, remaining),
+      generation,
+      job.candidates,
+    );
+  },
+};
+
+// Trains the alphas for one round, then evaluates the argmax architecture
+// plus architectures sampled from the current mixtures
+async function searchRound(
+  supernet: DartsSupernet,
+  context: SearchContext,
+  searchSpace: SearchSpace,
+  batchSize: number,
+  generation: number,
+  workingSet: Candidate[],
+) {
+  const surrogate = supernet.train();
+  const proposals = [supernet.toCandidate(searchSpace)];
+  while (proposals.length < batchSize) {
+    proposals.push(supernet.toCandidate(searchSpace, true));
+  }
+  const evaluated = await evaluateBatch(context, proposals, generation);
+
+  return {
+    evaluated,
+    candidates: topCandidates([...workingSet, ...evaluated]),
+    checkpoint: {
+      supernet: supernet.getState(),
+      surrogate: Math.round(surrogate * 10000) / 10000,
+    },
+  };
+}
+
+function availableOps(searchSpace: SearchSpace): CellOp[] {
+  const layerTypes = searchSpace.layers;
+  if (!layerTypes) return CELL_OPS;
+  const ops = CELL_OPS.filter(
+    (op) => !op.requires || layerTypes.includes(op.requires),
+  );
+  // Fall back to the full op set when the space has no spatial ops at all
+  return ops.some((op) => op.layer) ? ops : CELL_OPS;
+}
+
+// Marginal cost of an op: estimate it behind a stand-in layer producing
+// `channels` feature maps and subtract the stand-in's own cost
+function opCost(op: CellOp, channels: number): OpCost {
+  if (!op.layer) return { params: 0, latency: 0 };
+  const input: LayerSpec = { type: "conv2d", filters: channels };
+  const layer =
+    op.layer.type === "conv2d" ? { ...op.layer, filters: channels } : op.layer;
+  const base = estimateArchitectureMetrics({ layers: [input] });
+  const withOp = estimateArchitectureMetrics({ layers: [input, layer] });
+  return {
+    params: withOp.parameterCount - base.parameterCount,
+    latency: withOp.estimatedLatency - base.estimatedLatency,
+  };
+}
+
+function baseAccuracy(dataset: string): number {
+  if (dataset === "cifar10") return 0.85;
+  if (dataset === "cifar100") return 0.6;
+  return 0.7;
+}
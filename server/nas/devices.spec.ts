@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import {
+  calibrateProfile,
+  estimateLatency,
+  getDeviceProfile,
+  profileForHardware,
+} from "./devices";
+import { inferShapes } from "./shapes";
+
+const architectures = [16, 32, 64, 128].map((filters) =>
+  inferShapes(
+    [
+      { type: "conv2d", filters, kernel_size: 3 },
+      { type: "pooling" },
+      { type: "conv2d", filters: filters * 2, kernel_size: 3 },
+      { type: "global_avg_pool" },
+      { type: "dense", units: 10 },
+    ],
+    "cifar10",
+  ),
+);
+
+describe("estimateLatency", () => {
+  it("should be faster on the datacenter GPU than on a mobile CPU", () => {
+    const mobile = estimateLatency(
+      architectures[3],
+      getDeviceProfile("mobile_cpu")!,
+    );
+    const gpu = estimateLatency(
+      architectures[3],
+      getDeviceProfile("datacenter_gpu")!,
+    );
+    expect(gpu).toBeLessThan(mobile / 10);
+  });
+});
+
+describe("calibrateProfile", () => {
+  it("should recover a device's utilization and overhead from benchmarks", () => {
+    const profile = getDeviceProfile("server_cpu")!;
+    const truth = { ...profile, utilization: 0.1, opOverheadMs: 0.2 };
+    const samples = architectures.flatMap((analysis) =>
+      [1, 8].map((batchSize) => ({
+        analysis,
+        batchSize,
+        measuredMs: estimateLatency(analysis, truth, batchSize),
+      })),
+    );
+
+    const calibrated = calibrateProfile(profile, samples);
+    expect(calibrated.utilization).toBeCloseTo(0.1, 6);
+    expect(calibrated.opOverheadMs).toBeCloseTo(0.2, 6);
+    expect(calibrated.calibration!.meanAbsoluteError).toBeCloseTo(0, 3);
+  });
+
+  it("should map benchmark hardware types to profiles", () => {
+    expect(profileForHardware("GPU_RTX3080")?.id).toBe("datacenter_gpu");
+    expect(profileForHardware("CPU_Intel_i7")?.id).toBe("server_cpu");
+    expect(profileForHardware("Snapdragon 888 CPU")?.id).toBe("mobile_cpu");
+    expect(profileForHardware("Coral EdgeTPU")?.id).toBe("edge_npu");
+  });
+});
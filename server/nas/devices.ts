@@ -0,0 +1,235 @@
+import { ArchitectureAnalysis } from "./shapes";
+
+// Device-profile registry and roofline latency model: every layer costs the
+// slower of its compute and memory time, plus a fixed dispatch overhead
+// Built by Shaurya Upadhyay
+
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  // Peak arithmetic throughput, FLOP/s
+  peakFlops: number;
+  // Memory bandwidth, bytes/s
+  memoryBandwidth: number;
+  // Fraction of peak compute and bandwidth real kernels achieve; fitted by
+  // calibration, so it exceeds 1 when the nominal peaks are too low
+  utilization: number;
+  // Per-layer dispatch/launch overhead, ms
+  opOverheadMs: number;
+  // 4 for float32 execution, 1 for int8 accelerators
+  bytesPerElement: number;
+  // Matches performance_benchmarks.hardware_type values for this device
+  hardwarePattern: RegExp;
+  calibration?: DeviceCalibration;
+}
+
+export interface DeviceCalibration {
+  samples: number;
+  // Mean absolute error of the fitted model on the benchmark rows, ms
+  meanAbsoluteError: number;
+  calibratedAt: number;
+}
+
+/** One measured inference, already shape-analyzed. */
+export interface LatencySample {
+  analysis: ArchitectureAnalysis;
+  batchSize: number;
+  measuredMs: number;
+}
+
+export const DEFAULT_DEVICE = "mobile_cpu";
+
+// Accelerators first: profileForHardware takes the first match
+const BUILTIN_PROFILES: DeviceProfile[] = [
+  {
+    id: "edge_npu",
+    name: "Edge NPU (int8, ~4 TOPS)",
+    peakFlops: 4e12,
+    memoryBandwidth: 8e9,
+    utilization: 0.3,
+    opOverheadMs: 0.05,
+    bytesPerElement: 1,
+    hardwarePattern: /npu|tpu|coral|jetson|hailo|neural.?engine|myriad/i,
+  },
+  {
+    id: "datacenter_gpu",
+    name: "Datacenter GPU (A100 class, FP32)",
+    peakFlops: 19.5e12,
+    memoryBandwidth: 1.55e12,
+    utilization: 0.5,
+    opOverheadMs: 0.008,
+    bytesPerElement: 4,
+    hardwarePattern: /gpu|cuda|nvidia|rtx|gtx|a100|h100|v100|t4/i,
+  },
+  {
+    id: "mobile_cpu",
+    name: "Mobile CPU (4x Cortex-A76 class)",
+    peakFlops: 50e9,
+    memoryBandwidth: 15e9,
+    utilization: 0.4,
+    opOverheadMs: 0.02,
+    bytesPerElement: 4,
+    hardwarePattern: /mobile|arm|cortex|snapdragon|exynos|pixel|iphone/i,
+  },
+  {
+    id: "server_cpu",
+    name: "Server CPU (32-core AVX-512)",
+    peakFlops: 2e12,
+    memoryBandwidth: 150e9,
+    utilization: 0.35,
+    opOverheadMs: 0.01,
+    bytesPerElement: 4,
+    hardwarePattern: /cpu|intel|xeon|epyc|amd|i[3579]\b/i,
+  },
+];
+
+const profiles = new Map(BUILTIN_PROFILES.map((p) => [p.id, p]));
+
+export function listDeviceProfiles(): DeviceProfile[] {
+  return [...profiles.values()];
+}
+
+export function getDeviceProfile(id: string): DeviceProfile | undefined {
+  return profiles.get(id);
+}
+
+/** Adds a device or replaces one, e.g. with its calibrated version. */
+export function registerDeviceProfile(profile: DeviceProfile): void {
+  profiles.set(profile.id, profile);
+}
+
+/** Profile a performance_benchmarks.hardware_type value belongs to. */
+export function profileForHardware(
+  hardwareType: string,
+): DeviceProfile | undefined {
+  return listDeviceProfiles().find((p) => p.hardwarePattern.test(hardwareType));
+}
+
+/** Inference latency in ms for one batch on `profile`. */
+export function estimateLatency(
+  analysis: ArchitectureAnalysis,
+  profile: DeviceProfile,
+  batchSize: number = 1,
+): number {
+  return (
+    rooflineTime(analysis, profile, batchSize) +
+    analysis.layers.length * profile.opOverheadMs
+  );
+}
+
+/** Latency on every registered device, keyed by profile id. */
+export function estimateLatencies(
+  analysis: ArchitectureAnalysis,
+  batchSize: number = 1,
+): Record<string, number> {
+  return Object.fromEntries(
+    listDeviceProfiles().map((profile) => [
+      profile.id,
+      Math.round(estimateLatency(analysis, profile, batchSize) * 1000) / 1000,
+    ]),
+  );
+}
+
+/**
+ * Fits `measured ≈ scale * roofline + overhead * layers` by least squares
+ * and folds the result back into the profile: utilization is divided by
+ * the scale and the overhead replaced. With a single sample, or when the
+ * joint fit goes negative, only the scale is fitted.
+ */
+export function calibrateProfile(
+  profile: DeviceProfile,
+  samples: LatencySample[],
+): DeviceProfile {
+  const usable = samples.filter((s) => s.measuredMs > 0);
+  if (usable.length === 0) return profile;
+
+  const roofline = usable.map((s) =>
+    rooflineTime(s.analysis, profile, s.batchSize),
+  );
+  const layerCounts = usable.map((s) => s.analysis.layers.length);
+  const measured = usable.map((s) => s.measuredMs);
+
+  let fit = usable.length >= 2 ? solve2(roofline, layerCounts, measured) : null;
+  if (!fit || fit.scale <= 0 || fit.overhead < 0) {
+    const remaining = measured.map(
+      (y, i) => y - layerCounts[i] * profile.opOverheadMs,
+    );
+    const scale = dot(roofline, remaining) / dot(roofline, roofline);
+    fit = { scale: scale > 0 ? scale : 1, overhead: profile.opOverheadMs };
+  }
+
+  const calibrated: DeviceProfile = {
+    ...profile,
+    utilization: profile.utilization / fit.scale,
+    opOverheadMs: fit.overhead,
+  };
+  const errors = usable.map((s) =>
+    Math.abs(
+      estimateLatency(s.analysis, calibrated, s.batchSize) - s.measuredMs,
+    ),
+  );
+  return {
+    ...calibrated,
+    calibration: {
+      samples: usable.length,
+      meanAbsoluteError:
+        Math.round((sum(errors) / errors.length) * 1000) / 1000,
+      calibratedAt: Date.now(),
+    },
+  };
+}
+
+// Compute-or-memory bound time of every layer, in ms. Weights are read
+// once per batch; activations are read and written once per image.
+function rooflineTime(
+  analysis: ArchitectureAnalysis,
+  profile: DeviceProfile,
+  batchSize: number,
+): number {
+  const flopsPerSecond = profile.peakFlops * profile.utilization;
+  const bytesPerSecond = profile.memoryBandwidth * profile.utilization;
+
+  return sum(
+    analysis.layers.map((layer) => {
+      const inputs = layer.inputShapes ?? [layer.inputShape];
+      const elements =
+        (sum(inputs.map(size)) + size(layer.outputShape)) * batchSize +
+        layer.params;
+      const compute = (layer.flops * batchSize) / flopsPerSecond;
+      const memory = (elements * profile.bytesPerElement) / bytesPerSecond;
+      return Math.max(compute, memory) * 1000;
+    }),
+  );
+}
+
+// Least squares for y ≈ a * x1 + b * x2 (no intercept)
+function solve2(
+  x1: number[],
+  x2: number[],
+  y: number[],
+): { scale: number; overhead: number } | null {
+  const a11 = dot(x1, x1);
+  const a12 = dot(x1, x2);
+  const a22 = dot(x2, x2);
+  const det = a11 * a22 - a12 * a12;
+  if (Math.abs(det) < 1e-12 * a11 * a22) return null;
+
+  const b1 = dot(x1, y);
+  const b2 = dot(x2, y);
+  return {
+    scale: (b1 * a22 - b2 * a12) / det,
+    overhead: (a11 * b2 - a12 * b1) / det,
+  };
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((total, v, i) => total + v * b[i], 0);
+}
+
+function size(shape: number[]): number {
+  return shape.reduce((product, d) => product * d, 1);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
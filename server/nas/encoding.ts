@@ -0,0 +1,88 @@
+import { DEFAULT_LAYER_TYPES } from "./sampling";
+import { Candidate, SearchSpace } from "./types";
+
+// Numeric feature encoding of candidates for surrogate models
+// Built by Shaurya Upadhyay
+
+const DEFAULT_ACTIVATIONS = ["relu", "swish", "gelu"];
+const DEFAULT_OPTIMIZERS = ["adam", "sgd", "rmsprop"];
+const DEFAULT_LEARNING_RATES = [0.001, 0.01, 0.1];
+const DEFAULT_BATCH_SIZES = [16, 32, 64, 128];
+const MAX_DEPTH = 30;
+
+/**
+ * Encodes a candidate as a fixed-length vector with every entry in [0, 1]:
+ * depth, layer-type and activation frequencies, mean (log) width and kernel
+ * size, optimizer one-hot and log-scaled learning rate and batch size.
+ * The layout depends only on the search space, so vectors from the same
+ * space are directly comparable.
+ */
+export function encodeCandidate(
+  candidate: Pick<
+    Candidate,
+    "layers" | "optimizer" | "learningRate" | "batchSize"
+  >,
+  searchSpace: SearchSpace,
+): number[] {
+  const layerTypes = searchSpace.layers || DEFAULT_LAYER_TYPES;
+  const activations = searchSpace.activations || DEFAULT_ACTIVATIONS;
+  const optimizers = searchSpace.optimizers || DEFAULT_OPTIMIZERS;
+  const layers = candidate.layers;
+  const depth = Math.max(layers.length, 1);
+
+  const typeFrequencies = layerTypes.map(
+    (type) => layers.filter((layer) => layer.type === type).length / depth,
+  );
+  const activationFrequencies = activations.map(
+    (activation) =>
+      layers.filter((layer) => layer.activation === activation).length / depth,
+  );
+
+  const filters = layers.filter((l) => l.filters).map((l) => l.filters);
+  const units = layers.filter((l) => l.units).map((l) => l.units);
+  const kernels = layers.filter((l) => l.kernel_size).map((l) => l.kernel_size);
+
+  return [
+    Math.min(layers.length / MAX_DEPTH, 1),
+    ...typeFrequencies,
+    ...activationFrequencies,
+    meanLogScaled(filters, 16, 256),
+    meanLogScaled(units, 64, 1024),
+    kernels.length > 0 ? mean(kernels) / 7 : 0,
+    ...optimizers.map((optimizer) =>
+      candidate.optimizer === optimizer ? 1 : 0,
+    ),
+    logScaled(
+      candidate.learningRate,
+      searchSpace.learningRates || DEFAULT_LEARNING_RATES,
+    ),
+    logScaled(
+      candidate.batchSize,
+      searchSpace.batchSizes || DEFAULT_BATCH_SIZES,
+    ),
+  ];
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function meanLogScaled(values: number[], min: number, max: number): number {
+  if (values.length === 0) return 0;
+  return clamp01(
+    (Math.log(mean(values)) - Math.log(min)) / (Math.log(max) - Math.log(min)),
+  );
+}
+
+function logScaled(value: number, choices: number[]): number {
+  const min = Math.min(...choices);
+  const max = Math.max(...choices);
+  if (!(value > 0) || min === max) return 0.5;
+  return clamp01(
+    (Math.log(value) - Math.log(min)) / (Math.log(max) - Math.log(min)),
+  );
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
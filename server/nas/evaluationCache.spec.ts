@@ -0,0 +1,137 @@
+import { afterEach, describe, it, expect } from "vitest";
+import { getDeviceProfile, registerDeviceProfile } from "./devices";
+import {
+  CachedEvaluation,
+  EvaluationCache,
+  EvaluationCacheEntry,
+  EvaluationCacheTier,
+  evaluationKey,
+  evaluatorVersion,
+} from "./evaluationCache";
+import { estimateArchitectureMetrics } from "./evaluator";
+import { inferShapes } from "./shapes";
+import { LayerSpec } from "./types";
+
+// Database tier stand-in: a shared map, like a table every process reads
+class MapTier implements EvaluationCacheTier {
+  rows = new Map<string, EvaluationCacheEntry>();
+
+  async get(key: string, version: string) {
+    const row = this.rows.get(key);
+    return row && row.version === version ? row.value : null;
+  }
+
+  async set(entry: EvaluationCacheEntry) {
+    this.rows.set(entry.key, entry);
+  }
+
+  async invalidate(version: string) {
+    let deleted = 0;
+    for (const [key, row] of this.rows) {
+      if (row.version !== version) deleted += Number(this.rows.delete(key));
+    }
+    return deleted;
+  }
+}
+
+function request(filters: number) {
+  const layers: LayerSpec[] = [
+    { type: "conv2d", filters, kernel_size: 3 },
+    { type: "global_avg_pool" },
+    { type: "dense", units: 10 },
+  ];
+  return {
+    architecture: { layers },
+    dataset: "cifar10",
+    device: "server_cpu",
+  };
+}
+
+function evaluate(cache: EvaluationCache, filters: number) {
+  const { architecture, dataset, device } = request(filters);
+  return cache.getOrCompute(
+    request(filters),
+    (): CachedEvaluation => ({
+      metrics: estimateArchitectureMetrics(architecture, dataset, device),
+      analysis: inferShapes(architecture.layers, dataset),
+    }),
+  );
+}
+
+const serverCpu = getDeviceProfile("server_cpu");
+
+afterEach(() => {
+  registerDeviceProfile(serverCpu);
+});
+
+describe("evaluationKey", () => {
+  it("should ignore layer field order but not the device", () => {
+    const reordered = request(32);
+    reordered.architecture.layers[0] = {
+      kernel_size: 3,
+      filters: 32,
+      type: "conv2d",
+    };
+
+    expect(evaluationKey(reordered)).toBe(evaluationKey(request(32)));
+    expect(
+      evaluationKey({ ...request(32), device: "datacenter_gpu" }),
+    ).not.toBe(evaluationKey(request(32)));
+  });
+});
+
+describe("EvaluationCache", () => {
+  it("should serve repeats from memory and evicted entries from the database", async () => {
+    const tier = new MapTier();
+    const cache = new EvaluationCache(tier, 2);
+
+    const first = await evaluate(cache, 16);
+    expect(first.source).toBe("computed");
+    expect((await evaluate(cache, 16)).source).toBe("memory");
+
+    await evaluate(cache, 32);
+    await evaluate(cache, 64);
+    const reloaded = await evaluate(cache, 16);
+    expect(reloaded.source).toBe("database");
+    expect(reloaded.value).toEqual(first.value);
+
+    expect(cache.stats()).toMatchObject({
+      size: 2,
+      memoryHits: 1,
+      databaseHits: 1,
+      misses: 3,
+      evictions: 2,
+    });
+  });
+
+  it("should share the database tier between processes", async () => {
+    const tier = new MapTier();
+    await evaluate(new EvaluationCache(tier), 16);
+
+    expect((await evaluate(new EvaluationCache(tier), 16)).source).toBe(
+      "database",
+    );
+  });
+
+  it("should recompute when a device profile is recalibrated", async () => {
+    const tier = new MapTier();
+    const cache = new EvaluationCache(tier);
+    const before = await evaluate(cache, 16);
+    const version = evaluatorVersion();
+
+    registerDeviceProfile({ ...serverCpu, opOverheadMs: 5 });
+    const after = await evaluate(cache, 16);
+
+    expect(evaluatorVersion()).not.toBe(version);
+    expect(after.source).toBe("computed");
+    expect(after.value.metrics.estimatedLatency).toBeGreaterThan(
+      before.value.metrics.estimatedLatency,
+    );
+    expect(cache.stats().invalidations).toBe(1);
+
+    await cache.invalidate();
+    expect([...tier.rows.values()].map((row) => row.version)).toEqual([
+      evaluatorVersion(),
+    ]);
+  });
+});
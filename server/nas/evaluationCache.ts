@@ -0,0 +1,281 @@
+import { createHash } from "node:crypto";
+import { ArchitectureGraph } from "../../shared/architectureGraph";
+import { architectureHash, canonicalJson } from "./architectureHash";
+import { listDeviceProfiles } from "./devices";
+import { ESTIMATOR_VERSION } from "./evaluator";
+import { getAccuracyPredictor } from "./predictor";
+import { ArchitectureAnalysis, TensorShape } from "./shapes";
+import { ArchitectureMetrics, LayerSpec } from "./types";
+
+// Content-addressed cache of architecture evaluations: an in-memory LRU in
+// front of an optional database tier shared by every process, keyed by the
+// canonical architecture, dataset, device and evaluator version
+// Built by Shaurya Upadhyay
+
+export interface EvaluationRequest {
+  architecture: {
+    layers?: LayerSpec[];
+    graph?: ArchitectureGraph;
+    inputShape?: TensorShape;
+  };
+  dataset: string;
+  device: string;
+}
+
+export interface CachedEvaluation {
+  metrics: ArchitectureMetrics;
+  analysis: ArchitectureAnalysis;
+}
+
+export interface EvaluationCacheEntry {
+  key: string;
+  version: string;
+  dataset: string;
+  device: string;
+  value: CachedEvaluation;
+}
+
+/** Persistent tier behind the in-memory LRU. */
+export interface EvaluationCacheTier {
+  get(key: string, version: string): Promise<CachedEvaluation | null>;
+  set(entry: EvaluationCacheEntry): Promise<void>;
+  /** Deletes every entry of another version; returns how many. */
+  invalidate(version: string): Promise<number>;
+}
+
+export interface EvaluationCacheStats {
+  version: string;
+  size: number;
+  capacity: number;
+  memoryHits: number;
+  databaseHits: number;
+  misses: number;
+  evictions: number;
+  invalidations: number;
+}
+
+export type EvaluationSource = "memory" | "database" | "computed";
+
+/**
+ * Version of everything an evaluation depends on besides its inputs: the
+ * estimator code, the device profiles (calibration refits them) and the
+ * accuracy predictor (retraining replaces it).
+ */
+export function evaluatorVersion(): string {
+  const state = JSON.stringify({
+    devices: listDeviceProfiles().map(({ hardwarePattern, ...profile }) => ({
+      ...profile,
+      hardwarePattern: hardwarePattern.source,
+    })),
+    predictor: getAccuracyPredictor()?.report ?? null,
+  });
+  return `v${ESTIMATOR_VERSION}-${sha256(state).slice(0, 16)}`;
+}
+
+/**
+ * Cache key of an evaluation. Field, node and edge order do not matter, but
+ * graph node ids do: the analysis reports each layer under its node id.
+ */
+export function evaluationKey(request: EvaluationRequest): string {
+  const { layers, graph, inputShape } = request.architecture;
+  return sha256(
+    canonicalJson({
+      architecture: graph
+        ? {
+            nodes: [...graph.nodes].sort((a, b) => a.id.localeCompare(b.id)),
+            edges: graph.edges.map((e) => `${e.from}>${e.to}`).sort(),
+          }
+        : architectureHash({ layers }),
+      inputShape,
+      dataset: request.dataset,
+      device: request.device,
+    }),
+  );
+}
+
+/** Map-backed LRU: reads refresh an entry, writes past capacity evict. */
+export class LruCache<V> {
+  private entries = new Map<string, V>();
+  evictions = 0;
+
+  constructor(readonly capacity: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value);
+      this.evictions++;
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export class EvaluationCache {
+  private memory: LruCache<CachedEvaluation>;
+  private version: string | null = null;
+  private memoryHits = 0;
+  private databaseHits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(
+    private tier: EvaluationCacheTier | null = null,
+    capacity = 1000,
+  ) {
+    this.memory = new LruCache(capacity);
+  }
+
+  /**
+   * The cached evaluation of `request`, or `compute()`'s result, which is
+   * then cached in both tiers. Errors from `compute` are not cached.
+   */
+  async getOrCompute(
+    request: EvaluationRequest,
+    compute: () => CachedEvaluation,
+  ): Promise<{ value: CachedEvaluation; source: EvaluationSource }> {
+    const version = this.currentVersion();
+    const key = evaluationKey(request);
+
+    const remembered = this.memory.get(key);
+    if (remembered) {
+      this.memoryHits++;
+      return { value: remembered, source: "memory" };
+    }
+
+    const stored = await this.fromTier(() => this.tier?.get(key, version));
+    if (stored) {
+      this.databaseHits++;
+      this.memory.set(key, stored);
+      return { value: stored, source: "database" };
+    }
+
+    this.misses++;
+    const value = compute();
+    this.memory.set(key, value);
+    await this.fromTier(() =>
+      this.tier?.set({
+        key,
+        version,
+        dataset: request.dataset,
+        device: request.device,
+        value,
+      }),
+    );
+    return { value, source: "computed" };
+  }
+
+  /**
+   * Drops every evaluation not made by the current evaluator version: the
+   * whole memory tier and the database tier's rows of other versions.
+   */
+  async invalidate(): Promise<void> {
+    this.version = evaluatorVersion();
+    this.memory.clear();
+    this.invalidations++;
+    await this.fromTier(() => this.tier?.invalidate(this.version));
+  }
+
+  stats(): EvaluationCacheStats {
+    return {
+      version: evaluatorVersion(),
+      size: this.memory.size,
+      capacity: this.memory.capacity,
+      memoryHits: this.memoryHits,
+      databaseHits: this.databaseHits,
+      misses: this.misses,
+      evictions: this.memory.evictions,
+      invalidations: this.invalidations,
+    };
+  }
+
+  // Database reads are filtered by version, so a version change only has to
+  // clear memory; other instances may still be on the old version
+  private currentVersion(): string {
+    const version = evaluatorVersion();
+    if (this.version !== null && version !== this.version) {
+      this.memory.clear();
+      this.invalidations++;
+    }
+    this.version = version;
+    return version;
+  }
+
+  // The database tier only saves work: when it fails, evaluate as if empty
+  private async fromTier<T>(operation: () => Promise<T> | undefined) {
+    try {
+      return await operation();
+    } catch (error) {
+      console.error("Evaluation cache database tier failed:", error);
+      return undefined;
+    }
+  }
+}
+
+let cache: Promise<EvaluationCache> | null = null;
+
+/**
+ * Returns the process-wide cache, backed by Supabase when server
+ * credentials are set, by SQLite when NAS_SQLITE_PATH is set, otherwise
+ * memory-only. NAS_EVAL_CACHE_SIZE sets the LRU capacity.
+ */
+export function getEvaluationCache(): Promise<EvaluationCache> {
+  if (!cache) {
+    cache = openEvaluationCache();
+  }
+  return cache;
+}
+
+/** Replaces the process-wide cache, e.g. with a memory-only one in tests. */
+export function setEvaluationCache(next: EvaluationCache): void {
+  cache = Promise.resolve(next);
+}
+
+async function openEvaluationCache(): Promise<EvaluationCache> {
+  const capacity = Number(process.env.NAS_EVAL_CACHE_SIZE) || 1000;
+
+  if (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    const { SupabaseEvaluationCacheTier } = await import(
+      "./evaluationCacheSupabase"
+    );
+    return new EvaluationCache(
+      new SupabaseEvaluationCacheTier(
+        process.env.SUPABASE_URL,
+        process.env.SUPABASE_SERVICE_ROLE_KEY,
+      ),
+      capacity,
+    );
+  }
+
+  if (process.env.NAS_SQLITE_PATH) {
+    const { SqliteEvaluationCacheTier } = await import(
+      "./evaluationCacheSqlite"
+    );
+    return new EvaluationCache(
+      await SqliteEvaluationCacheTier.open(process.env.NAS_SQLITE_PATH),
+      capacity,
+    );
+  }
+
+  return new EvaluationCache(null, capacity);
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
@@ -0,0 +1,70 @@
+import type { DatabaseSync } from "node:sqlite";
+import {
+  CachedEvaluation,
+  EvaluationCacheEntry,
+  EvaluationCacheTier,
+} from "./evaluationCache";
+
+// SQLite tier of the evaluation cache, alongside the local search store
+// Built by Shaurya Upadhyay
+
+export class SqliteEvaluationCacheTier implements EvaluationCacheTier {
+  private constructor(private db: DatabaseSync) {}
+
+  static async open(path: string): Promise<SqliteEvaluationCacheTier> {
+    const { DatabaseSync } = await import("node:sqlite");
+    const db = new DatabaseSync(path);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS evaluation_cache (
+        cache_key TEXT PRIMARY KEY,
+        evaluator_version TEXT NOT NULL,
+        dataset TEXT NOT NULL,
+        device TEXT NOT NULL,
+        result_json TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS evaluation_cache_version
+        ON evaluation_cache (evaluator_version);
+    `);
+
+    return new SqliteEvaluationCacheTier(db);
+  }
+
+  async get(key: string, version: string): Promise<CachedEvaluation | null> {
+    const row = this.db
+      .prepare(
+        "SELECT result_json FROM evaluation_cache WHERE cache_key = ? AND evaluator_version = ?",
+      )
+      .get(key, version) as { result_json: string } | undefined;
+    return row ? JSON.parse(row.result_json) : null;
+  }
+
+  async set(entry: EvaluationCacheEntry): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO evaluation_cache
+           (cache_key, evaluator_version, dataset, device, result_json, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (cache_key) DO UPDATE SET
+           evaluator_version = excluded.evaluator_version,
+           result_json = excluded.result_json,
+           created_at = excluded.created_at`,
+      )
+      .run(
+        entry.key,
+        entry.version,
+        entry.dataset,
+        entry.device,
+        JSON.stringify(entry.value),
+        Date.now(),
+      );
+  }
+
+  async invalidate(version: string): Promise<number> {
+    const result = this.db
+      .prepare("DELETE FROM evaluation_cache WHERE evaluator_version != ?")
+      .run(version);
+    return Number(result.changes);
+  }
+}
@@ -0,0 +1,60 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import {
+  CachedEvaluation,
+  EvaluationCacheEntry,
+  EvaluationCacheTier,
+} from "./evaluationCache";
+
+// Supabase tier of the evaluation cache: the evaluation_cache table, shared
+// by every serverless instance
+// Built by Shaurya Upadhyay
+
+export class SupabaseEvaluationCacheTier implements EvaluationCacheTier {
+  private client: SupabaseClient;
+
+  constructor(url: string, serviceRoleKey: string) {
+    this.client = createClient(url, serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+
+  async get(key: string, version: string): Promise<CachedEvaluation | null> {
+    const { data, error } = await this.client
+      .from("evaluation_cache")
+      .select("result")
+      .eq("cache_key", key)
+      .eq("evaluator_version", version)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? (data.result as CachedEvaluation) : null;
+  }
+
+  async set(entry: EvaluationCacheEntry): Promise<void> {
+    const { error } = await this.client.from("evaluation_cache").upsert(
+      [
+        {
+          cache_key: entry.key,
+          evaluator_version: entry.version,
+          dataset: entry.dataset,
+          device: entry.device,
+          result: entry.value,
+          created_at: new Date().toISOString(),
+        },
+      ],
+      { onConflict: "cache_key" },
+    );
+
+    if (error) throw error;
+  }
+
+  async invalidate(version: string): Promise<number> {
+    const { count, error } = await this.client
+      .from("evaluation_cache")
+      .delete({ count: "exact" })
+      .neq("evaluator_version", version);
+
+    if (error) throw error;
+    return count ?? 0;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { enforceConstraints } from "./constraints";
+import { EvaluationCancelledError, EvaluationPool } from "./evaluationPool";
+import { SeededRandom } from "./random";
+import { sampleCandidate } from "./sampling";
+
+const space = { layers: ["conv2d", "depthwise_conv", "dense", "pooling"] };
+const constraints = { maxParams: 2000000 };
+
+function samples(count: number) {
+  const rng = new SeededRandom(11);
+  return Array.from({ length: count }, () => sampleCandidate(space, rng));
+}
+
+describe("EvaluationPool", () => {
+  const pool = new EvaluationPool(2);
+
+  afterAll(() => pool.close());
+
+  it("should match main-thread evaluation, in task order", async () => {
+    const candidates = samples(6);
+    const outcomes = await pool.evaluate(
+      candidates.map((candidate) => ({
+        candidate,
+        constraints,
+        dataset: "cifar10",
+      })),
+      { parallel: 2 },
+    );
+
+    expect(outcomes).toEqual(
+      candidates.map((c) => enforceConstraints(c, constraints, "cifar10")),
+    );
+  }, 30000);
+
+  it("should reject the batch when cancelled", async () => {
+    const controller = new AbortController();
+    const batch = pool.evaluate(
+      samples(8).map((candidate) => ({
+        candidate,
+        constraints,
+        dataset: "imagenet",
+      })),
+      { parallel: 2, signal: controller.signal },
+    );
+    controller.abort();
+
+    await expect(batch).rejects.toBeInstanceOf(EvaluationCancelledError);
+  }, 30000);
+});
@@ -0,0 +1,239 @@
+import os from "node:os";
+import { Worker } from "node:worker_threads";
+import { ConstraintOutcome } from "./constraints";
+import { DeviceProfile, listDeviceProfiles } from "./devices";
+import { AccuracyPredictor, getAccuracyPredictor } from "./predictor";
+import { Candidate, SearchConstraints } from "./types";
+
+// Pool of worker threads that evaluate candidates under constraints in
+// parallel, capped per batch by the search's budget.parallel
+// Built by Shaurya Upadhyay
+
+export interface EvaluationTask {
+  candidate: Candidate;
+  constraints: SearchConstraints;
+  dataset: string;
+}
+
+// Process-wide estimator state the workers need to match the main thread
+export interface EvaluationSetup {
+  profiles: DeviceProfile[];
+  predictor: AccuracyPredictor | null;
+}
+
+export interface EvaluationRequest {
+  task: EvaluationTask;
+  // Sent with a worker's first task of every batch
+  setup?: EvaluationSetup;
+}
+
+export type EvaluationResponse =
+  | { outcome: ConstraintOutcome }
+  | { error: string };
+
+/** Raised for the tasks of a batch whose signal was aborted. */
+export class EvaluationCancelledError extends Error {
+  constructor() {
+    super("Evaluation cancelled");
+    this.name = "EvaluationCancelledError";
+  }
+}
+
+interface PoolWorker {
+  worker: Worker;
+  setup: EvaluationSetup | null;
+  pending: {
+    resolve(outcome: ConstraintOutcome): void;
+    reject(error: Error): void;
+  } | null;
+}
+
+// Source file under tsx/vitest, the bundled sibling in the server build
+const WORKER_URL = new URL(
+  import.meta.url.endsWith(".ts")
+    ? "./evaluationWorker.ts"
+    : "./evaluationWorker.mjs",
+  import.meta.url,
+);
+
+// Loader hooks do not carry over to worker threads, so a TypeScript worker
+// registers tsx itself before importing its source
+function createWorker(): Worker {
+  if (!WORKER_URL.pathname.endsWith(".ts")) return new Worker(WORKER_URL);
+  return new Worker(
+    `import("tsx/esm/api").then(({ register }) => {
+      register();
+      return import(${JSON.stringify(WORKER_URL.href)});
+    });`,
+    { eval: true },
+  );
+}
+
+export class EvaluationPool {
+  private workers: PoolWorker[] = [];
+  private idle: PoolWorker[] = [];
+  private waiting: ((slot: PoolWorker) => void)[] = [];
+
+  constructor(
+    readonly size: number = Math.max(1, os.availableParallelism() - 1),
+  ) {}
+
+  /**
+   * Evaluates the tasks on at most `parallel` workers at once. Results are
+   * aligned with the tasks. Aborting the signal terminates the workers
+   * still busy with the batch and rejects with EvaluationCancelledError.
+   */
+  async evaluate(
+    tasks: EvaluationTask[],
+    options: { parallel: number; signal?: AbortSignal },
+  ): Promise<ConstraintOutcome[]> {
+    const setup = {
+      profiles: listDeviceProfiles(),
+      predictor: getAccuracyPredictor(),
+    };
+    const results: ConstraintOutcome[] = new Array(tasks.length);
+    const lanes = Math.max(
+      1,
+      Math.min(options.parallel, this.size, tasks.length),
+    );
+    let next = 0;
+    let failed = false;
+
+    const lane = async () => {
+      while (next < tasks.length && !failed) {
+        const index = next++;
+        try {
+          results[index] = await this.run(tasks[index], setup, options.signal);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: lanes }, lane));
+    return results;
+  }
+
+  /** Terminates every worker; the pool spawns new ones on the next batch. */
+  async close(): Promise<void> {
+    const workers = this.workers;
+    this.workers = [];
+    this.idle = [];
+    await Promise.all(workers.map((slot) => slot.worker.terminate()));
+  }
+
+  private async run(
+    task: EvaluationTask,
+    setup: EvaluationSetup,
+    signal?: AbortSignal,
+  ): Promise<ConstraintOutcome> {
+    const slot = await this.acquire(signal);
+    if (signal?.aborted) {
+      this.release(slot);
+      throw new EvaluationCancelledError();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.discard(slot);
+        reject(new EvaluationCancelledError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      slot.pending = {
+        resolve: (outcome) => {
+          signal?.removeEventListener("abort", onAbort);
+          this.release(slot);
+          resolve(outcome);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          this.discard(slot);
+          reject(error);
+        },
+      };
+      const request: EvaluationRequest =
+        slot.setup === setup ? { task } : { task, setup };
+      slot.setup = setup;
+      slot.worker.postMessage(request);
+    });
+  }
+
+  private acquire(signal?: AbortSignal): Promise<PoolWorker> {
+    if (signal?.aborted) {
+      return Promise.reject(new EvaluationCancelledError());
+    }
+    const slot = this.idle.pop();
+    if (slot) return Promise.resolve(slot);
+    if (this.workers.length < this.size) return Promise.resolve(this.spawn());
+
+    return new Promise((resolve, reject) => {
+      const waiter = (slot: PoolWorker) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(slot);
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((w) => w !== waiter);
+        reject(new EvaluationCancelledError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiting.push(waiter);
+    });
+  }
+
+  private spawn(): PoolWorker {
+    const worker = createWorker();
+    // Idle workers must not keep the process alive
+    worker.unref();
+
+    const slot: PoolWorker = { worker, setup: null, pending: null };
+    worker.on("message", (response: EvaluationResponse) => {
+      if ("error" in response) {
+        slot.pending?.reject(new Error(response.error));
+      } else {
+        slot.pending?.resolve(response.outcome);
+      }
+    });
+    worker.on("error", (error) => slot.pending?.reject(error));
+    worker.on("exit", (code) => {
+      slot.pending?.reject(
+        new Error(`Evaluation worker exited with code ${code}`),
+      );
+      this.remove(slot);
+    });
+    this.workers.push(slot);
+    return slot;
+  }
+
+  private release(slot: PoolWorker): void {
+    slot.pending = null;
+    const waiter = this.waiting.shift();
+    if (waiter) waiter(slot);
+    else this.idle.push(slot);
+  }
+
+  // Drops a worker that is cancelled or broken and hands its place on
+  private discard(slot: PoolWorker): void {
+    slot.pending = null;
+    this.remove(slot);
+    slot.worker.terminate();
+    const waiter = this.waiting.shift();
+    if (waiter) waiter(this.spawn());
+  }
+
+  private remove(slot: PoolWorker): void {
+    this.workers = this.workers.filter((w) => w !== slot);
+    this.idle = this.idle.filter((w) => w !== slot);
+  }
+}
+
+// Process-wide pool; without one, searches evaluate on the main thread
+let pool: EvaluationPool | null = null;
+
+export function getEvaluationPool(): EvaluationPool | null {
+  return pool;
+}
+
+export function setEvaluationPool(next: EvaluationPool | null): void {
+  pool = next;
+}
@@ -0,0 +1,35 @@
+import { parentPort } from "node:worker_threads";
+import { enforceConstraints } from "./constraints";
+import { registerDeviceProfile } from "./devices";
+import { EvaluationRequest, EvaluationResponse } from "./evaluationPool";
+import { AccuracyPredictor, setAccuracyPredictor } from "./predictor";
+
+// Worker thread of the evaluation pool: evaluates one candidate under the
+// search's constraints per message
+// Built by Shaurya Upadhyay
+
+parentPort.on("message", ({ task, setup }: EvaluationRequest) => {
+  let response: EvaluationResponse;
+  try {
+    if (setup) {
+      for (const profile of setup.profiles) registerDeviceProfile(profile);
+      // Structured cloning drops the class; the fields are all it needs
+      setAccuracyPredictor(
+        setup.predictor &&
+          Object.assign(new AccuracyPredictor(), setup.predictor),
+      );
+    }
+    response = {
+      outcome: enforceConstraints(
+        task.candidate,
+        task.constraints,
+        task.dataset,
+      ),
+    };
+  } catch (error) {
+    response = {
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  parentPort.postMessage(response);
+});
@@ -0,0 +1,118 @@
+import { DEFAULT_DEVICE, estimateLatencies } from "./devices";
+import { getAccuracyPredictor } from "./predictor";
+import { ArchitectureGraph, layerNodes } from "../../shared/architectureGraph";
+import { inferGraphShapes, inferShapes, TensorShape } from "./shapes";
+import { ArchitectureMetrics, Candidate, LayerSpec } from "./types";
+
+// Architecture cost/accuracy estimator shared by /api/nas-ai and the search engine
+// Built by Shaurya Upadhyay
+
+// Bump whenever a change to the estimator or the shape analysis changes
+// their results; cached evaluations from other versions are then dropped
+export const ESTIMATOR_VERSION = 1;
+
+/**
+ * Estimates an architecture given as flat `layers` or as a `graph`; the
+ * graph, when present, is what gets analyzed.
+ */
+export function estimateArchitectureMetrics(
+  architecture: {
+    layers?: LayerSpec[];
+    graph?: ArchitectureGraph;
+    inputShape?: TensorShape;
+  },
+  dataset: string = "imagenet",
+  device: string = DEFAULT_DEVICE,
+): ArchitectureMetrics {
+  // Calculate estimated metrics based on architecture
+  const { graph, inputShape } = architecture;
+  const layers = graph ? layerNodes(graph) : architecture.layers || [];
+  const analysis = graph
+    ? inferGraphShapes(graph, dataset, inputShape)
+    : inferShapes(layers, dataset, inputShape);
+  const parameterCount = analysis.totalParams;
+  const latencyByDevice = estimateLatencies(analysis);
+  const estimatedLatency =
+    latencyByDevice[device] ?? latencyByDevice[DEFAULT_DEVICE];
+
+  // The learned predictor, once trained, replaces the complexity heuristic
+  const prediction = getAccuracyPredictor()?.predict(layers, dataset);
+
+  // Estimate accuracy based on complexity and dataset
+  let baseAccuracy = 0.7; // 70% baseline
+  if (dataset === "cifar10") baseAccuracy = 0.85;
+  if (dataset === "cifar100") baseAccuracy = 0.6;
+  if (dataset === "imagenet") baseAccuracy = 0.7;
+
+  // Adjust based on model complexity
+  const complexityFactor = Math.min(parameterCount / 1000000, 10) / 10; // Normalize to 0-1
+  const estimatedAccuracy =
+    prediction?.accuracy ??
+    Math.min(baseAccuracy + complexityFactor * 0.2, 0.98);
+
+  // Calculate efficiency score
+  const efficiencyScore =
+    (estimatedAccuracy * 100) / (parameterCount / 1000000 + estimatedLatency);
+
+  return {
+    estimatedAccuracy: Math.round(estimatedAccuracy * 1000) / 1000,
+    ...(prediction
+      ? {
+          accuracyInterval: {
+            lower: prediction.lower,
+            upper: prediction.upper,
+          },
+        }
+      : {}),
+    estimatedLatency: Math.round(estimatedLatency * 100) / 100,
+    latencyByDevice,
+    parameterCount,
+    flops: analysis.totalFlops,
+    macs: analysis.totalMacs,
+    activationMemory:
+      Math.round((analysis.peakActivationMemory / (1024 * 1024)) * 100) / 100, // MB
+    modelSize: Math.round(((parameterCount * 4) / (1024 * 1024)) * 100) / 100, // MB
+    efficiencyScore: Math.round(efficiencyScore * 100) / 100,
+  };
+}
+
+// Rough energy per FLOP on an edge accelerator
+const MILLIJOULES_PER_FLOP = 4.6e-9;
+
+/** Energy per inference in millijoules, proportional to FLOPs. */
+export function estimateEnergy(metrics: ArchitectureMetrics): number {
+  return metrics.flops * MILLIJOULES_PER_FLOP;
+}
+
+/**
+ * Scalar fitness used to rank search candidates: estimated accuracy with a
+ * mild logarithmic penalty for model size and latency, so equally accurate
+ * networks are separated by their cost.
+ */
+export function fitnessFromMetrics(metrics: ArchitectureMetrics): number {
+  const sizePenalty = Math.log10(1 + metrics.parameterCount / 1000000) * 0.02;
+  const latencyPenalty = Math.log10(1 + metrics.estimatedLatency) * 0.02;
+  return (
+    Math.round(
+      (metrics.estimatedAccuracy - sizePenalty - latencyPenalty) * 10000,
+    ) / 10000
+  );
+}
+
+/**
+ * Evaluates a search candidate without mutating it: returns a copy with the
+ * estimator's metrics and the derived fitness filled in.
+ */
+export function evaluateCandidate(
+  candidate: Candidate,
+  dataset: string = "imagenet",
+): Candidate {
+  const metrics = estimateArchitectureMetrics(candidate, dataset);
+  return {
+    ...candidate,
+    score: fitnessFromMetrics(metrics),
+    estimatedParams: metrics.parameterCount,
+    estimatedLatency: metrics.estimatedLatency,
+    metrics,
+  };
+}
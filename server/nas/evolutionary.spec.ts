@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import {
+  adaptMutationRate,
+  breedChild,
+  mutate,
+  tournamentSelect,
+  uniformCrossover,
+} from "./evolutionary";
+import { SeededRandom } from "./random";
+import { sampleCandidate } from "./sampling";
+import { Candidate } from "./types";
+
+const searchSpace = {
+  layers: ["conv2d", "dense", "pooling"],
+  optimizers: ["adam", "sgd"],
+  learningRates: [0.01, 0.1],
+  batchSizes: [32, 64],
+};
+
+function candidates(count: number, seed = 1): Candidate[] {
+  const rng = new SeededRandom(seed);
+  return Array.from({ length: count }, (_, i) => ({
+    ...sampleCandidate(searchSpace, rng),
+    score: i / count,
+  }));
+}
+
+describe("tournamentSelect", () => {
+  it("should favour fitter individuals more as tournaments grow", () => {
+    const population = candidates(10);
+    const fittest = population[9];
+    const winRate = (size: number) => {
+      const rng = new SeededRandom(5);
+      let wins = 0;
+      for (let i = 0; i < 2000; i++) {
+        if (tournamentSelect(population, size, rng) === fittest) wins++;
+      }
+      return wins / 2000;
+    };
+
+    // 1 - 0.9^size: the chance the fittest is drawn at least once
+    expect(winRate(1)).toBeCloseTo(0.1, 1);
+    expect(winRate(3)).toBeCloseTo(0.271, 1);
+  });
+});
+
+describe("uniformCrossover", () => {
+  it("should take every layer and hyperparameter from one of the parents", () => {
+    const rng = new SeededRandom(2);
+    const [a, b] = candidates(2, 3);
+    for (let i = 0; i < 50; i++) {
+      const child = uniformCrossover(a, b, rng);
+
+      expect([a.layers.length, b.layers.length]).toContain(child.layers.length);
+      child.layers.forEach((layer, j) => {
+        expect([a.layers[j], b.layers[j]]).toContainEqual(layer);
+      });
+      expect([a.optimizer, b.optimizer]).toContain(child.optimizer);
+      expect([a.learningRate, b.learningRate]).toContain(child.learningRate);
+      expect([a.batchSize, b.batchSize]).toContain(child.batchSize);
+      expect([a.id, b.id]).not.toContain(child.id);
+    }
+  });
+});
+
+describe("mutate", () => {
+  it("should copy the candidate unchanged at rate 0", () => {
+    const [parent] = candidates(1);
+    const child = mutate(parent, searchSpace, 0, new SeededRandom(4));
+
+    expect(child).toEqual(parent);
+    expect(child.layers[0]).not.toBe(parent.layers[0]);
+  });
+
+  it("should only draw from the search space at rate 1", () => {
+    const rng = new SeededRandom(6);
+    for (const parent of candidates(20)) {
+      const child = mutate(parent, searchSpace, 1, rng);
+
+      expect(Math.abs(child.layers.length - parent.layers.length)).toBeLessThan(
+        2,
+      );
+      for (const layer of child.layers) {
+        expect(searchSpace.layers).toContain(layer.type);
+      }
+      expect(searchSpace.optimizers).toContain(child.optimizer);
+      expect(searchSpace.learningRates).toContain(child.learningRate);
+      expect(searchSpace.batchSizes).toContain(child.batchSize);
+    }
+  });
+});
+
+describe("breedChild", () => {
+  it("should record the parents and the operator", () => {
+    const [a, b] = candidates(2);
+    const rng = new SeededRandom(8);
+    const options = { mutationRate: 0.1 };
+
+    expect(
+      breedChild(a, b, searchSpace, { ...options, crossoverRate: 1 }, rng),
+    ).toMatchObject({ parentIds: [a.id, b.id], operator: "crossover" });
+    expect(
+      breedChild(a, b, searchSpace, { ...options, crossoverRate: 0 }, rng),
+    ).toMatchObject({ parentIds: [a.id], operator: "mutation" });
+  });
+});
+
+describe("adaptMutationRate", () => {
+  it("should rise on stagnation and decay on improvement within bounds", () => {
+    expect(adaptMutationRate(0.2, false)).toBeCloseTo(0.26);
+    expect(adaptMutationRate(0.2, true)).toBeCloseTo(0.18);
+    expect(adaptMutationRate(0.45, false)).toBe(0.5);
+    expect(adaptMutationRate(0.05, true)).toBe(0.05);
+  });
+});
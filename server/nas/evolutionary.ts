@@ -0,0 +1,273 @@
+import { SeededRandom } from "./random";
+import {
+  DEFAULT_LAYER_TYPES,
+  generateArchitectureId,
+  generateRandomLayer,
+  sampleCandidate,
+} from "./sampling";
+import {
+  evaluateBatch,
+  SearchStrategy,
+  uniqueCandidates,
+} from "./searchRunner";
+import { Candidate, SearchBudget, SearchSpace } from "./types";
+
+// Generational evolutionary search over flat layer lists
+// Built by Shaurya Upadhyay
+
+const MIN_LAYERS = 2;
+const MAX_LAYERS = 30;
+const MIN_MUTATION_RATE = 0.05;
+const MAX_MUTATION_RATE = 0.5;
+
+export interface EvolutionOptions {
+  populationSize: number;
+  generations: number;
+  tournamentSize: number;
+  crossoverRate: number;
+  mutationRate: number;
+  eliteCount: number;
+}
+
+export function planEvolution(budget: SearchBudget): EvolutionOptions {
+  const populationSize = Math.max(4, Math.min(budget.parallel * 4, 50));
+
+  return {
+    populationSize,
+    generations: Math.max(
+      1,
+      Math.floor(budget.maxEvaluations / populationSize),
+    ),
+    tournamentSize: 3,
+    crossoverRate: 0.9,
+    mutationRate: 0.15,
+    eliteCount: Math.max(1, Math.floor(populationSize * 0.1)),
+  };
+}
+
+/**
+ * Picks the fittest of `size` individuals drawn uniformly with replacement.
+ */
+export function tournamentSelect(
+  population: Candidate[],
+  size: number,
+  rng: SeededRandom,
+): Candidate {
+  let winner = rng.choice(population);
+  for (let i = 1; i < size; i++) {
+    const challenger = rng.choice(population);
+    if (challenger.score > winner.score) winner = challenger;
+  }
+  return winner;
+}
+
+/**
+ * Uniform crossover: every layer position and hyperparameter is inherited
+ * from either parent with equal probability. The child takes the depth of one
+ * parent; positions only the longer parent has are copied from it.
+ */
+export function uniformCrossover(
+  a: Candidate,
+  b: Candidate,
+  rng: SeededRandom,
+): Candidate {
+  const depth = rng.next() < 0.5 ? a.layers.length : b.layers.length;
+  const layers = [];
+
+  for (let i = 0; i < depth; i++) {
+    const fromA = a.layers[i];
+    const fromB = b.layers[i];
+    const layer =
+      fromA && fromB ? (rng.next() < 0.5 ? fromA : fromB) : fromA || fromB;
+    layers.push({ ...layer });
+  }
+
+  return {
+    ...a,
+    id: generateArchitectureId(rng),
+    layers,
+    optimizer: rng.next() < 0.5 ? a.optimizer : b.optimizer,
+    learningRate: rng.next() < 0.5 ? a.learningRate : b.learningRate,
+    batchSize: rng.next() < 0.5 ? a.batchSize : b.batchSize,
+  };
+}
+
+/**
+ * Point and structural mutation. Each layer is resampled with probability
+ * `rate`, one layer may be inserted or removed, and each training
+ * hyperparameter is resampled with probability `rate`.
+ */
+export function mutate(
+  candidate: Candidate,
+  searchSpace: SearchSpace,
+  rate: number,
+  rng: SeededRandom,
+): Candidate {
+  const availableLayers = searchSpace.layers || DEFAULT_LAYER_TYPES;
+  const layers = candidate.layers.map((layer) =>
+    rng.next() < rate
+      ? generateRandomLayer(rng.choice(availableLayers), rng, searchSpace)
+      : { ...layer },
+  );
+
+  if (rng.next() < rate && layers.length < MAX_LAYERS) {
+    const position = rng.int(layers.length + 1);
+    layers.splice(
+      position,
+      0,
+      generateRandomLayer(rng.choice(availableLayers), rng, searchSpace),
+    );
+  }
+  if (rng.next() < rate && layers.length > MIN_LAYERS) {
+    layers.splice(rng.int(layers.length), 1);
+  }
+
+  return {
+    ...candidate,
+    layers,
+    optimizer:
+      rng.next() < rate
+        ? rng.choice(searchSpace.optimizers || ["adam", "sgd", "rmsprop"])
+        : candidate.optimizer,
+    learningRate:
+      rng.next() < rate
+        ? rng.choice(searchSpace.learningRates || [0.001, 0.01, 0.1])
+        : candidate.learningRate,
+    batchSize:
+      rng.next() < rate
+        ? rng.choice(searchSpace.batchSizes || [16, 32, 64, 128])
+        : candidate.batchSize,
+  };
+}
+
+/**
+ * Breeds one child: uniform crossover of both parents with probability
+ * `crossoverRate`, otherwise a copy of `parentA`, then mutation. Records the
+ * parents and the operator on the child.
+ */
+export function breedChild(
+  parentA: Candidate,
+  parentB: Candidate,
+  searchSpace: SearchSpace,
+  options: Pick<EvolutionOptions, "crossoverRate" | "mutationRate">,
+  rng: SeededRandom,
+): Candidate {
+  const crossover = rng.next() < options.crossoverRate;
+  const child = crossover
+    ? uniformCrossover(parentA, parentB, rng)
+    : { ...parentA, id: generateArchitectureId(rng) };
+
+  return {
+    ...mutate(child, searchSpace, options.mutationRate, rng),
+    parentIds:
+      crossover && parentB.id !== parentA.id
+        ? [parentA.id, parentB.id]
+        : [parentA.id],
+    operator: crossover ? "crossover" : "mutation",
+  };
+}
+
+/**
+ * Breeds the next (unevaluated) offspring. Elites are carried over by the
+ * caller, so this only returns `populationSize - eliteCount` children.
+ */
+export function breedOffspring(
+  population: Candidate[],
+  searchSpace: SearchSpace,
+  options: EvolutionOptions,
+  rng: SeededRandom,
+): Candidate[] {
+  const offspring: Candidate[] = [];
+  const count = options.populationSize - options.eliteCount;
+
+  while (offspring.length < count) {
+    const parentA = tournamentSelect(population, options.tournamentSize, rng);
+    const parentB = tournamentSelect(population, options.tournamentSize, rng);
+    offspring.push(breedChild(parentA, parentB, searchSpace, options, rng));
+  }
+
+  return offspring;
+}
+
+/**
+ * Raises the mutation rate when the best score stagnates and decays it back
+ * while the search keeps improving.
+ */
+export function adaptMutationRate(rate: number, improved: boolean): number {
+  const next = improved ? rate * 0.9 : rate * 1.3;
+  return Math.min(MAX_MUTATION_RATE, Math.max(MIN_MUTATION_RATE, next));
+}
+
+export const evolutionaryStrategy: SearchStrategy = {
+  async initialize(job, context, currentBest) {
+    const { rng } = context;
+    const options = planEvolution(job.budget);
+    // Never more than the evaluation budget, however small
+    const size = Math.min(options.populationSize, job.budget.maxEvaluations);
+    const seeds = (currentBest || [])
+      .filter((seed) => Array.isArray(seed?.layers))
+      .slice(0, Math.floor(size / 2))
+      .map((seed) => ({
+        ...sampleCandidate(job.searchSpace, rng),
+        ...seed,
+        id: seed.id || generateArchitectureId(rng),
+      }));
+    const initial = [...seeds];
+    while (initial.length < size) {
+      initial.push(sampleCandidate(job.searchSpace, rng));
+    }
+
+    const population = uniqueCandidates(
+      await evaluateBatch(context, initial, 0),
+    ).sort((a, b) => b.score - a.score);
+    return {
+      evaluated: population,
+      candidates: population,
+      checkpoint: { mutationRate: options.mutationRate },
+      mutationRate: options.mutationRate,
+    };
+  },
+
+  async step(job, context, remaining, generation) {
+    const { rng } = context;
+    // Re-planned every generation so budget adjustments resize the population
+    const options = planEvolution(job.budget);
+    const { mutationRate } = job.checkpoint;
+    const population = job.candidates;
+
+    // Constraints can reject a whole generation; start over from samples
+    const offspring = (
+      population.length > 0
+        ? breedOffspring(
+            population,
+            job.searchSpace,
+            {
+              ...options,
+              mutationRate,
+            },
+            rng,
+          )
+        : Array.from({ length: options.populationSize }, () =>
+            sampleCandidate(job.searchSpace, rng),
+          )
+    ).slice(0, remaining);
+    const evaluated = await evaluateBatch(context, offspring, generation);
+    const next = uniqueCandidates([
+      ...population.slice(0, options.eliteCount),
+      ...evaluated,
+    ])
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.populationSize);
+
+    const nextRate = adaptMutationRate(
+      mutationRate,
+      (next[0]?.score ?? 0) > (population[0]?.score ?? 0),
+    );
+    return {
+      evaluated,
+      candidates: next,
+      checkpoint: { mutationRate: nextRate },
+      mutationRate: nextRate,
+    };
+  },
+};
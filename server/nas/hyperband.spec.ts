@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  bracketRungs,
+  getFidelityEvaluator,
+  hyperbandStrategy,
+  learningCurveEvaluator,
+  planHyperband,
+  setFidelityEvaluator,
+} from "./hyperband";
+import { startSearch } from "./searchRunner";
+import {
+  createSearchJob,
+  getSearchJobStore,
+  MemorySearchJobStore,
+  SearchJob,
+  setSearchJobStore,
+} from "./searchStore";
+
+async function runHyperband(searchId: string): Promise<SearchJob> {
+  const job = createSearchJob({
+    searchId,
+    algorithm: "hyperband",
+    searchSpace: { layers: ["conv2d", "depthwise_conv", "dense", "pooling"] },
+    constraints: {},
+    objectives: {
+      accuracy: { weight: 1 },
+      latency: { weight: 0 },
+      params: { weight: 0 },
+      energy: { weight: 0 },
+    },
+    budget: { maxEvaluations: 60, maxTime: 1, parallel: 4, maxEpochs: 27 },
+    seed: 5,
+  });
+  const store = await getSearchJobStore();
+  await store.create(job);
+  await startSearch(job, hyperbandStrategy);
+  for (;;) {
+    const current = await store.get(searchId);
+    if (current!.status !== "running") return current!;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe("bracketRungs", () => {
+  it("should shrink candidates and grow epochs by eta per rung", () => {
+    const options = planHyperband({
+      maxEvaluations: 100,
+      maxTime: 1,
+      parallel: 1,
+      maxEpochs: 81,
+    });
+
+    expect(options.maxBracket).toBe(4);
+    expect(bracketRungs(options, 4)).toEqual([
+      { candidates: 81, epochs: 1 },
+      { candidates: 27, epochs: 3 },
+      { candidates: 9, epochs: 9 },
+      { candidates: 3, epochs: 27 },
+      { candidates: 1, epochs: 81 },
+    ]);
+    expect(bracketRungs(options, 0)).toEqual([{ candidates: 5, epochs: 81 }]);
+  });
+});
+
+describe("hyperbandStrategy", () => {
+  beforeEach(() => {
+    setSearchJobStore(new MemorySearchJobStore());
+  });
+
+  afterEach(() => {
+    setFidelityEvaluator(learningCurveEvaluator);
+  });
+
+  it("should record each rung and promote only what it evaluated", async () => {
+    const job = await runHyperband("nas_hyperband_rungs");
+
+    expect(job.status).toBe("completed");
+    const rungs = job.generations.map((g) => g.rung!);
+    expect(rungs[0]).toMatchObject({ bracket: 3, rung: 0, epochs: 1 });
+    expect(rungs[1]).toMatchObject({ bracket: 3, rung: 1, epochs: 3 });
+    expect(rungs[0].promoted).toHaveLength(rungs[1].evaluated);
+    expect(
+      rungs[1].promoted.every((id) => rungs[0].promoted.includes(id)),
+    ).toBe(true);
+    expect(job.candidates[0].fidelity).toBeGreaterThan(1);
+  });
+
+  it("should score candidates through the configured fidelity evaluator", async () => {
+    const calls: number[] = [];
+    setFidelityEvaluator({
+      evaluate(candidate, epochs, maxEpochs) {
+        calls.push(epochs);
+        return learningCurveEvaluator.evaluate(candidate, epochs, maxEpochs);
+      },
+    });
+
+    const job = await runHyperband("nas_hyperband_evaluator");
+
+    expect(getFidelityEvaluator()).not.toBe(learningCurveEvaluator);
+    expect(calls).toHaveLength(job.evaluations);
+    expect(new Set(calls)).toEqual(new Set([1, 3, 9, 27]));
+  });
+});
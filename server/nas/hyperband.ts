@@ -0,0 +1,221 @@
+import { DEFAULT_MAX_EPOCHS } from "./budget";
+import { fitnessFromMetrics } from "./evaluator";
+import { sampleCandidate } from "./sampling";
+import { evaluateBatch, SearchContext, SearchStrategy } from "./searchRunner";
+import { SearchJob } from "./searchStore";
+import { Candidate, SearchBudget } from "./types";
+
+// Multi-fidelity search: Hyperband brackets of successive halving. Each
+// bracket samples many candidates at few epochs and promotes the best
+// 1/eta of every rung to eta times the epochs, up to full training
+// Built by Shaurya Upadhyay
+
+export interface HyperbandOptions {
+  // Promotion ratio between rungs and epoch multiplier
+  eta: number;
+  maxEpochs: number;
+  // Most aggressive bracket; bracket s has s + 1 rungs
+  maxBracket: number;
+}
+
+export interface RungPlan {
+  candidates: number;
+  epochs: number;
+}
+
+/** Scores a candidate at a training fidelity. */
+export interface FidelityEvaluator {
+  /**
+   * `candidate` carries its full-training estimate; returns it scored as
+   * if trained for `epochs` of `maxEpochs`, with `fidelity` set.
+   */
+  evaluate(
+    candidate: Candidate,
+    epochs: number,
+    maxEpochs: number,
+  ): Candidate | Promise<Candidate>;
+}
+
+interface Schedule {
+  bracket: number;
+  rung: number;
+  // Candidates waiting to be evaluated at this rung
+  promoted: Candidate[];
+}
+
+export function planHyperband(budget: SearchBudget): HyperbandOptions {
+  const eta = 3;
+  const maxEpochs = budget.maxEpochs ?? DEFAULT_MAX_EPOCHS;
+  return {
+    eta,
+    maxEpochs,
+    maxBracket: Math.min(
+      4,
+      Math.floor(Math.log(maxEpochs) / Math.log(eta) + 1e-9),
+    ),
+  };
+}
+
+/** Candidates and epochs per rung of bracket `bracket` (Li et al., 2017). */
+export function bracketRungs(
+  options: HyperbandOptions,
+  bracket: number,
+): RungPlan[] {
+  const { eta, maxEpochs, maxBracket } = options;
+  const n = Math.ceil(((maxBracket + 1) / (bracket + 1)) * eta ** bracket);
+  return Array.from({ length: bracket + 1 }, (_, rung) => ({
+    candidates: Math.floor(n / eta ** rung),
+    epochs: Math.max(1, Math.round(maxEpochs * eta ** (rung - bracket))),
+  }));
+}
+
+/**
+ * Default fidelity model: accuracy follows a saturating learning curve
+ * towards the full-training estimate, and short runs read it with a
+ * deterministic per-candidate error that vanishes at full training, so
+ * low rungs rank candidates only roughly.
+ */
+export const learningCurveEvaluator: FidelityEvaluator = {
+  evaluate(candidate, epochs, maxEpochs) {
+    const progress = Math.min(1, epochs / maxEpochs);
+    const curve = (1 - Math.exp(-5 * progress)) / (1 - Math.exp(-5));
+    const error = (unitHash(`${candidate.id}:${epochs}`) - 0.5) * 0.1;
+    const accuracy =
+      candidate.metrics.estimatedAccuracy * (0.3 + 0.7 * curve) +
+      error * (1 - progress);
+    const metrics = {
+      ...candidate.metrics,
+      estimatedAccuracy:
+        Math.round(Math.min(1, Math.max(0, accuracy)) * 10000) / 10000,
+    };
+    return {
+      ...candidate,
+      metrics,
+      score: fitnessFromMetrics(metrics),
+      fidelity: epochs,
+    };
+  },
+};
+
+// Process-wide evaluator, replaceable by one that actually trains
+let fidelityEvaluator: FidelityEvaluator = learningCurveEvaluator;
+
+export function getFidelityEvaluator(): FidelityEvaluator {
+  return fidelityEvaluator;
+}
+
+export function setFidelityEvaluator(evaluator: FidelityEvaluator): void {
+  fidelityEvaluator = evaluator;
+}
+
+export const hyperbandStrategy: SearchStrategy = {
+  initialize(job, context) {
+    const { maxBracket } = planHyperband(job.budget);
+    return runRung(
+      job,
+      context,
+      { bracket: maxBracket, rung: 0, promoted: [] },
+      job.budget.maxEvaluations,
+      0,
+      [],
+    );
+  },
+
+  step(job, context, remaining, generation) {
+    return runRung(
+      job,
+      context,
+      job.checkpoint.schedule,
+      remaining,
+      generation,
+      job.candidates,
+    );
+  },
+};
+
+// Evaluates one rung, then schedules the next: the same bracket's next rung
+// with the promoted candidates, or after the last rung the next bracket,
+// cycling back to the most aggressive one
+async function runRung(
+  job: SearchJob,
+  context: SearchContext,
+  schedule: Schedule,
+  remaining: number,
+  generation: number,
+  workingSet: Candidate[],
+) {
+  const options = planHyperband(job.budget);
+  const bracket = Math.min(schedule.bracket, options.maxBracket);
+  const rungs = bracketRungs(options, bracket);
+  const rung = Math.min(schedule.rung, rungs.length - 1);
+  const { epochs } = rungs[rung];
+
+  // Tagged with the rung's epochs, so each fidelity is its own evaluation
+  // rather than a duplicate of the previous rung's
+  const proposals = (
+    rung === 0
+      ? Array.from({ length: Math.min(rungs[0].candidates, remaining) }, () =>
+          sampleCandidate(job.searchSpace, context.rng),
+        )
+      : schedule.promoted.slice(0, remaining)
+  ).map((candidate) => ({ ...candidate, fidelity: epochs }));
+  const evaluator = getFidelityEvaluator();
+  const evaluated: Candidate[] = [];
+  for (const candidate of await evaluateBatch(context, proposals, generation)) {
+    evaluated.push(
+      await evaluator.evaluate(candidate, epochs, options.maxEpochs),
+    );
+  }
+
+  const promoted =
+    rung < rungs.length - 1
+      ? [...evaluated]
+          .sort((a, b) => b.score - a.score)
+          .slice(0, rungs[rung + 1].candidates)
+      : [];
+  const next: Schedule =
+    promoted.length > 0
+      ? { bracket, rung: rung + 1, promoted }
+      : {
+          bracket: bracket === 0 ? options.maxBracket : bracket - 1,
+          rung: 0,
+          promoted: [],
+        };
+
+  return {
+    evaluated,
+    candidates: rankByFidelity([...workingSet, ...evaluated]),
+    checkpoint: { schedule: next },
+    rung: {
+      bracket,
+      rung,
+      epochs,
+      evaluated: evaluated.length,
+      promoted: promoted.map((c) => c.id),
+    },
+  };
+}
+
+// Each candidate at the highest fidelity it reached; higher fidelity ranks
+// first since low-fidelity scores are not comparable with full ones
+function rankByFidelity(candidates: Candidate[], size = 20): Candidate[] {
+  const latest = new Map<string, Candidate>();
+  for (const candidate of candidates) {
+    const seen = latest.get(candidate.id);
+    if (!seen || (candidate.fidelity ?? 0) >= (seen.fidelity ?? 0)) {
+      latest.set(candidate.id, candidate);
+    }
+  }
+  return [...latest.values()]
+    .sort((a, b) => (b.fidelity ?? 0) - (a.fidelity ?? 0) || b.score - a.score)
+    .slice(0, size);
+}
+
+// FNV-1a hash mapped to [0, 1)
+function unitHash(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0) / 4294967296;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { evolutionaryStrategy } from "./evolutionary";
+import { lineageGraph } from "./lineage";
+import { startSearch } from "./searchRunner";
+import {
+  createSearchJob,
+  getSearchJobStore,
+  MemorySearchJobStore,
+  setSearchJobStore,
+} from "./searchStore";
+import { Candidate } from "./types";
+
+function candidate(
+  id: string,
+  generation: number,
+  parentIds?: string[],
+): Candidate {
+  return {
+    id,
+    layers: [{ type: "conv2d" }],
+    optimizer: "adam",
+    learningRate: 0.001,
+    batchSize: 32,
+    score: 0.5,
+    estimatedParams: 1000,
+    estimatedLatency: 1,
+    confidence: 0.9,
+    generation,
+    ...(parentIds
+      ? {
+          parentIds,
+          operator: parentIds.length > 1 ? "crossover" : "mutation",
+        }
+      : {}),
+  };
+}
+
+//   a   b
+//    \ / \
+//     c   d
+//     |
+//     e
+const family = [
+  candidate("a", 0),
+  candidate("b", 0),
+  candidate("c", 1, ["a", "b"]),
+  candidate("d", 1, ["b"]),
+  candidate("e", 2, ["c"]),
+];
+
+describe("lineageGraph", () => {
+  it("should return ancestors and descendants but not siblings", () => {
+    const lineage = lineageGraph(family, "c");
+
+    expect(
+      Object.fromEntries(lineage.nodes.map((n) => [n.id, n.relation])),
+    ).toEqual({ a: "ancestor", b: "ancestor", c: "root", e: "descendant" });
+    expect(lineage.edges).toEqual([
+      { parent: "a", child: "c", operator: "crossover" },
+      { parent: "b", child: "c", operator: "crossover" },
+      { parent: "c", child: "e", operator: "mutation" },
+    ]);
+  });
+
+  it("should stop after depth breeding steps", () => {
+    const lineage = lineageGraph(family, "e", 1);
+
+    expect(lineage.nodes.map((n) => n.id)).toEqual(["c", "e"]);
+  });
+
+  it("should return null for architectures the search did not evaluate", () => {
+    expect(lineageGraph(family, "missing")).toBeNull();
+  });
+});
+
+describe("evolutionary lineage", () => {
+  beforeEach(() => {
+    setSearchJobStore(new MemorySearchJobStore());
+  });
+
+  it("should record parents evaluated in earlier generations", async () => {
+    const store = await getSearchJobStore();
+    const job = createSearchJob({
+      searchId: "nas_evolutionary_lineage",
+      algorithm: "evolutionary",
+      searchSpace: { layers: ["conv2d", "depthwise_conv", "dense", "pooling"] },
+      constraints: {},
+      objectives: {
+        accuracy: { weight: 1 },
+        latency: { weight: 0 },
+        params: { weight: 0 },
+        energy: { weight: 0 },
+      },
+      budget: { maxEvaluations: 24, maxTime: 1, parallel: 2 },
+      seed: 3,
+    });
+    await store.create(job);
+    await startSearch(job, evolutionaryStrategy);
+    while ((await store.get(job.searchId)).status === "running") {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    const evaluated = await store.listEvaluated(job.searchId);
+    const generations = new Map(evaluated.map((c) => [c.id, c.generation]));
+    const bred = evaluated.filter((c) => c.generation > 0);
+    expect(bred.length).toBeGreaterThan(0);
+    for (const child of bred) {
+      expect(["crossover", "mutation"]).toContain(child.operator);
+      for (const parentId of child.parentIds) {
+        expect(generations.get(parentId)).toBeLessThan(child.generation);
+      }
+    }
+
+    const winner = (await store.get(job.searchId)).candidates[0];
+    const lineage = lineageGraph(evaluated, winner.id);
+    expect(lineage.nodes.find((n) => n.relation === "root").id).toBe(winner.id);
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  ArchitectureLineage,
+  LineageEdge,
+  LineageNode,
+} from "../../shared/api";
+import { Candidate } from "./types";
+
+// Genealogy of evolved architectures: the ancestry and descendant subgraph
+// of one candidate, from the parent ids evolutionary search records
+// Built by Shaurya Upadhyay
+
+/**
+ * Ancestors and descendants of `architectureId` among a search's evaluated
+ * candidates, at most `depth` breeding steps away. Null when the search
+ * never evaluated it.
+ */
+export function lineageGraph(
+  evaluated: Candidate[],
+  architectureId: string,
+  depth = Infinity,
+): ArchitectureLineage | null {
+  // A candidate can be evaluated more than once; its latest record wins
+  const byId = new Map(evaluated.map((c) => [c.id, c]));
+  if (!byId.has(architectureId)) return null;
+
+  const children = new Map<string, string[]>();
+  for (const candidate of byId.values()) {
+    for (const parentId of candidate.parentIds || []) {
+      children.set(parentId, [...(children.get(parentId) || []), candidate.id]);
+    }
+  }
+
+  const relations = new Map<string, LineageNode["relation"]>([
+    [architectureId, "root"],
+  ]);
+  const walk = (
+    relation: LineageNode["relation"],
+    next: (id: string) => string[],
+  ) => {
+    let frontier = [architectureId];
+    for (let step = 0; step < depth && frontier.length > 0; step++) {
+      frontier = frontier
+        .flatMap(next)
+        .filter((id) => byId.has(id) && !relations.has(id));
+      for (const id of frontier) relations.set(id, relation);
+    }
+  };
+  walk("ancestor", (id) => byId.get(id).parentIds || []);
+  walk("descendant", (id) => children.get(id) || []);
+
+  const nodes: LineageNode[] = [...relations].map(([id, relation]) => {
+    const candidate = byId.get(id);
+    return { ...candidate, parentIds: candidate.parentIds || [], relation };
+  });
+  nodes.sort(
+    (a, b) => (a.generation ?? 0) - (b.generation ?? 0) || b.score - a.score,
+  );
+
+  const edges: LineageEdge[] = nodes.flatMap((node) =>
+    node.parentIds
+      .filter((parent) => relations.has(parent))
+      .map((parent) => ({
+        parent,
+        child: node.id,
+        ...(node.operator ? { operator: node.operator } : {}),
+      })),
+  );
+
+  return { architectureId, nodes, edges };
+}
@@ -0,0 +1,145 @@
+import { generateArchitectureId, sampleCandidate } from "./sampling";
+import { breedChild, planEvolution } from "./evolutionary";
+import { rankCandidates } from "./pareto";
+import { SeededRandom } from "./random";
+import {
+  evaluateBatch,
+  SearchStrategy,
+  uniqueCandidates,
+} from "./searchRunner";
+import { Candidate, SearchObjectives } from "./types";
+
+// NSGA-II: multi-objective evolutionary search over the request objectives
+// Built by Shaurya Upadhyay
+
+type RankedCandidate = Candidate & { crowdingDistance: number };
+
+/**
+ * Binary tournament on the crowded-comparison operator: lower Pareto rank
+ * wins, ties go to the less crowded candidate.
+ */
+export function crowdedTournament(
+  population: RankedCandidate[],
+  rng: SeededRandom,
+): RankedCandidate {
+  const a = rng.choice(population);
+  const b = rng.choice(population);
+  if (a.paretoRank !== b.paretoRank) {
+    return a.paretoRank! < b.paretoRank! ? a : b;
+  }
+  return a.crowdingDistance >= b.crowdingDistance ? a : b;
+}
+
+/**
+ * Environmental selection: fills the next population front by front and
+ * truncates the first front that does not fit by crowding distance.
+ */
+export function selectSurvivors(
+  ranked: RankedCandidate[],
+  size: number,
+): Candidate[] {
+  const survivors: RankedCandidate[] = [];
+
+  for (let rank = 1; survivors.length < size; rank++) {
+    const front = ranked.filter((c) => c.paretoRank === rank);
+    if (front.length === 0) break;
+    const room = size - survivors.length;
+    survivors.push(
+      ...(front.length <= room
+        ? front
+        : [...front]
+            .sort((a, b) => b.crowdingDistance - a.crowdingDistance)
+            .slice(0, room)
+            .sort((a, b) => b.score - a.score)),
+    );
+  }
+
+  return survivors.map(withoutCrowding);
+}
+
+export const nsga2Strategy: SearchStrategy = {
+  async initialize(job, context, currentBest) {
+    const { rng } = context;
+    const options = planEvolution(job.budget);
+    const size = Math.min(options.populationSize, job.budget.maxEvaluations);
+    const initial: Candidate[] = (currentBest || [])
+      .filter((seed) => Array.isArray(seed?.layers))
+      .slice(0, Math.floor(size / 2))
+      .map((seed) => ({
+        ...sampleCandidate(job.searchSpace, rng),
+        ...seed,
+        id: seed.id || generateArchitectureId(rng),
+      }));
+    while (initial.length < size) {
+      initial.push(sampleCandidate(job.searchSpace, rng));
+    }
+
+    const evaluated = await evaluateBatch(context, initial, 0);
+    return survive(
+      job.objectives,
+      [],
+      evaluated,
+      options.populationSize,
+      options.mutationRate,
+    );
+  },
+
+  async step(job, context, remaining, generation) {
+    const { rng } = context;
+    const options = planEvolution(job.budget);
+    const population = rankCandidates(job.candidates, job.objectives);
+
+    const offspring: Candidate[] = [];
+    const count = Math.min(options.populationSize, remaining);
+    while (offspring.length < count && population.length === 0) {
+      // Constraints rejected every candidate so far: start over from samples
+      offspring.push(sampleCandidate(job.searchSpace, rng));
+    }
+    while (offspring.length < count) {
+      const parentA = withoutCrowding(crowdedTournament(population, rng));
+      const parentB = withoutCrowding(crowdedTournament(population, rng));
+      offspring.push(
+        breedChild(parentA, parentB, job.searchSpace, options, rng),
+      );
+    }
+
+    const evaluated = await evaluateBatch(context, offspring, generation);
+    return survive(
+      job.objectives,
+      job.candidates,
+      evaluated,
+      options.populationSize,
+      options.mutationRate,
+    );
+  },
+};
+
+// Ranks parents and offspring together; evaluated candidates keep the rank
+// they had in that pool so it can be persisted alongside them
+function survive(
+  objectives: SearchObjectives,
+  parents: Candidate[],
+  evaluated: Candidate[],
+  populationSize: number,
+  mutationRate: number,
+) {
+  const ranked = rankCandidates(
+    uniqueCandidates([...parents, ...evaluated]),
+    objectives,
+  );
+  const ranks = new Map(ranked.map((c) => [c.id, c.paretoRank]));
+
+  return {
+    evaluated: evaluated.map((c) => ({ ...c, paretoRank: ranks.get(c.id) })),
+    candidates: selectSurvivors(ranked, populationSize),
+    checkpoint: {},
+    mutationRate,
+  };
+}
+
+function withoutCrowding({
+  crowdingDistance,
+  ...candidate
+}: RankedCandidate): Candidate {
+  return candidate;
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { crowdingDistance, dominates, nonDominatedSort } from "./pareto";
+
+describe("nonDominatedSort", () => {
+  it("should split minimization vectors into successive fronts", () => {
+    const vectors = [
+      [1, 5],
+      [2, 2],
+      [5, 1],
+      [3, 3],
+      [4, 4],
+      [2, 2],
+    ];
+
+    expect(nonDominatedSort(vectors)).toEqual([[0, 1, 2, 5], [3], [4]]);
+    expect(dominates([2, 2], [3, 3])).toBe(true);
+    expect(dominates([2, 2], [2, 2])).toBe(false);
+  });
+});
+
+describe("crowdingDistance", () => {
+  it("should favour boundary points and sparse regions", () => {
+    const distance = crowdingDistance([
+      [0, 4],
+      [1, 3],
+      [3, 1],
+      [4, 0],
+    ]);
+
+    expect(distance[0]).toBe(Infinity);
+    expect(distance[3]).toBe(Infinity);
+    expect(distance[1]).toBeCloseTo(1.5);
+    expect(distance[2]).toBeCloseTo(1.5);
+  });
+});
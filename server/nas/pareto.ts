@@ -0,0 +1,173 @@
+import { estimateEnergy } from "./evaluator";
+import { Candidate, SearchObjectives } from "./types";
+
+// Pareto dominance, non-dominated sorting and crowding distance over the
+// request's accuracy/latency/params/energy objectives
+// Built by Shaurya Upadhyay
+
+export type ObjectiveName = keyof SearchObjectives;
+
+// Accuracy is maximized, every cost objective minimized
+const MAXIMIZED: ObjectiveName[] = ["accuracy"];
+const OBJECTIVE_NAMES: ObjectiveName[] = [
+  "accuracy",
+  "latency",
+  "params",
+  "energy",
+];
+
+/** Raw objective values of an evaluated candidate. */
+export function objectiveValues(
+  candidate: Candidate,
+): Record<ObjectiveName, number> {
+  const metrics = candidate.metrics;
+  return {
+    accuracy: metrics?.estimatedAccuracy ?? candidate.score,
+    latency: metrics?.estimatedLatency ?? candidate.estimatedLatency,
+    params: metrics?.parameterCount ?? candidate.estimatedParams,
+    energy: metrics ? estimateEnergy(metrics) : 0,
+  };
+}
+
+/** Objectives the request gives a positive weight. */
+export function enabledObjectives(
+  objectives: SearchObjectives,
+): ObjectiveName[] {
+  return OBJECTIVE_NAMES.filter(
+    (name) => (objectives?.[name]?.weight ?? 0) > 0,
+  );
+}
+
+/** Objectives with a positive weight take part in dominance comparisons. */
+export function activeObjectives(
+  objectives: SearchObjectives,
+): ObjectiveName[] {
+  const active = enabledObjectives(objectives);
+  return active.length > 0 ? active : OBJECTIVE_NAMES;
+}
+
+/**
+ * Objective vector to minimize. A target turns an objective into a goal:
+ * values better than the target count as equal, so the search stops trading
+ * other objectives for improvements nobody asked for.
+ */
+export function objectiveVector(
+  candidate: Candidate,
+  objectives: SearchObjectives,
+): number[] {
+  const values = objectiveValues(candidate);
+  return activeObjectives(objectives).map((name) => {
+    const target = objectives?.[name]?.target;
+    if (MAXIMIZED.includes(name)) {
+      const value =
+        target !== undefined ? Math.min(values[name], target) : values[name];
+      return -value;
+    }
+    return target !== undefined ? Math.max(values[name], target) : values[name];
+  });
+}
+
+/** True if `a` is no worse than `b` everywhere and better somewhere. */
+export function dominates(a: number[], b: number[]): boolean {
+  let better = false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] > b[i]) return false;
+    if (a[i] < b[i]) better = true;
+  }
+  return better;
+}
+
+/**
+ * Fast non-dominated sort (Deb et al.). Returns the fronts as lists of
+ * indices into `vectors`, front 0 being the non-dominated set.
+ */
+export function nonDominatedSort(vectors: number[][]): number[][] {
+  const dominatedBy: number[][] = vectors.map(() => []);
+  const dominationCount = vectors.map(() => 0);
+  const fronts: number[][] = [[]];
+
+  for (let p = 0; p < vectors.length; p++) {
+    for (let q = p + 1; q < vectors.length; q++) {
+      if (dominates(vectors[p], vectors[q])) {
+        dominatedBy[p].push(q);
+        dominationCount[q]++;
+      } else if (dominates(vectors[q], vectors[p])) {
+        dominatedBy[q].push(p);
+        dominationCount[p]++;
+      }
+    }
+  }
+  vectors.forEach((_, p) => {
+    if (dominationCount[p] === 0) fronts[0].push(p);
+  });
+
+  for (let i = 0; fronts[i].length > 0; i++) {
+    const next: number[] = [];
+    for (const p of fronts[i]) {
+      for (const q of dominatedBy[p]) {
+        if (--dominationCount[q] === 0) next.push(q);
+      }
+    }
+    fronts.push(next);
+  }
+  fronts.pop();
+  return fronts;
+}
+
+/**
+ * Crowding distance of each member of one front: the normalized perimeter
+ * of the box spanned by its neighbours. Boundary points get Infinity.
+ */
+export function crowdingDistance(vectors: number[][]): number[] {
+  const distance = vectors.map(() => 0);
+  if (vectors.length === 0) return distance;
+
+  for (let m = 0; m < vectors[0].length; m++) {
+    const order = vectors
+      .map((_, i) => i)
+      .sort((a, b) => vectors[a][m] - vectors[b][m]);
+    const min = vectors[order[0]][m];
+    const max = vectors[order[order.length - 1]][m];
+    distance[order[0]] = Infinity;
+    distance[order[order.length - 1]] = Infinity;
+    if (max === min) continue;
+
+    for (let k = 1; k < order.length - 1; k++) {
+      distance[order[k]] +=
+        (vectors[order[k + 1]][m] - vectors[order[k - 1]][m]) / (max - min);
+    }
+  }
+  return distance;
+}
+
+/**
+ * Annotates every candidate with its 1-based Pareto rank and crowding
+ * distance. Returned in rank order, best fitness first within a rank.
+ */
+export function rankCandidates(
+  candidates: Candidate[],
+  objectives: SearchObjectives,
+): (Candidate & { crowdingDistance: number })[] {
+  const vectors = candidates.map((c) => objectiveVector(c, objectives));
+
+  return nonDominatedSort(vectors).flatMap((front, f) => {
+    const crowding = crowdingDistance(front.map((i) => vectors[i]));
+    return front
+      .map((i, k) => ({
+        ...candidates[i],
+        paretoRank: f + 1,
+        crowdingDistance: crowding[k],
+      }))
+      .sort((a, b) => b.score - a.score);
+  });
+}
+
+/** The rank-1 (non-dominated) subset, best fitness first. */
+export function paretoFront(
+  candidates: Candidate[],
+  objectives: SearchObjectives,
+): Candidate[] {
+  return rankCandidates(candidates, objectives)
+    .filter((c) => c.paretoRank === 1)
+    .map(({ crowdingDistance, ...candidate }) => candidate);
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { AccuracyPredictor, TrainingSample } from "./predictor";
+import { SeededRandom } from "./random";
+import { sampleCandidate } from "./sampling";
+import { inferShapes } from "./shapes";
+import { LayerSpec } from "./types";
+
+const searchSpace = {
+  layers: ["conv2d", "depthwise_conv", "pooling", "batch_norm", "dense"],
+};
+
+// Synthetic ground truth: accuracy grows with log-capacity and saturates
+function trueAccuracy(layers: LayerSpec[]): number {
+  const params = inferShapes(layers, "cifar10").totalParams;
+  return 0.5 + 0.4 * Math.tanh(Math.log10(1 + params) / 3 - 1.2);
+}
+
+function samples(count: number, seed: number): TrainingSample[] {
+  const rng = new SeededRandom(seed);
+  return Array.from({ length: count }, () => {
+    const { layers } = sampleCandidate(searchSpace, rng);
+    return { layers, dataset: "cifar10", accuracy: trueAccuracy(layers) };
+  });
+}
+
+describe("AccuracyPredictor", () => {
+  it("should learn accuracy from architecture features", () => {
+    const predictor = new AccuracyPredictor();
+    const report = predictor.train(samples(120, 1));
+    expect(report.heldOutSamples).toBe(24);
+    expect(report.heldOutMae).toBeLessThan(3);
+
+    const test = samples(40, 2);
+    const predictions = test.map((s) => predictor.predict(s.layers, s.dataset));
+    const mae =
+      predictions.reduce(
+        (sum, p, i) => sum + Math.abs(p.accuracy - test[i].accuracy),
+        0,
+      ) / test.length;
+    const covered = predictions.filter(
+      (p, i) => p.lower <= test[i].accuracy && test[i].accuracy <= p.upper,
+    ).length;
+
+    expect(mae).toBeLessThan(0.03);
+    expect(covered / test.length).toBeGreaterThan(0.75);
+  });
+
+  it("should refuse to train on too few completed architectures", () => {
+    expect(() => new AccuracyPredictor().train(samples(5, 3))).toThrow(
+      /at least 10/,
+    );
+  });
+});
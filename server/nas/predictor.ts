@@ -0,0 +1,366 @@
+import { SeededRandom } from "./random";
+import { inferShapes } from "./shapes";
+import { LayerSpec } from "./types";
+
+// Learned accuracy predictor: a bagged ensemble of gradient-boosted
+// regression trees over features of the architecture graph
+// Built by Shaurya Upadhyay
+
+export interface TrainingSample {
+  layers: LayerSpec[];
+  dataset: string;
+  // Measured top-1 accuracy as a fraction
+  accuracy: number;
+}
+
+export interface AccuracyPrediction {
+  accuracy: number;
+  // 90% interval combining ensemble disagreement and held-out error
+  lower: number;
+  upper: number;
+  std: number;
+}
+
+export interface PredictorReport {
+  trainingSamples: number;
+  heldOutSamples: number;
+  // Errors of a model fitted without the held-out split, in accuracy points
+  heldOutMae: number;
+  heldOutRmse: number;
+  trainedAt: number;
+}
+
+export interface BoostingOptions {
+  estimators: number;
+  learningRate: number;
+  maxDepth: number;
+  minSamplesLeaf: number;
+  subsample: number;
+  ensembleSize: number;
+  heldOutFraction: number;
+}
+
+type TreeNode =
+  | { value: number }
+  | { feature: number; threshold: number; left: TreeNode; right: TreeNode };
+
+interface BoostedModel {
+  base: number;
+  learningRate: number;
+  trees: TreeNode[];
+}
+
+export const MIN_TRAINING_SAMPLES = 10;
+
+const COUNTED_LAYERS = [
+  "conv2d",
+  "depthwise_conv",
+  "pointwise_conv",
+  "mb_conv",
+  "residual_block",
+  "se_block",
+  "pooling",
+  "global_avg_pool",
+  "dense",
+  "batch_norm",
+  "dropout",
+];
+const DATASETS = ["cifar10", "cifar100", "imagenet"];
+
+export const FEATURE_NAMES = [
+  "log_params",
+  "log_flops",
+  "log_peak_activation",
+  "depth",
+  "log_max_channels",
+  "final_resolution",
+  "mean_kernel_size",
+  ...COUNTED_LAYERS.map((type) => `count_${type}`),
+  ...DATASETS.map((dataset) => `dataset_${dataset}`),
+];
+
+const Z_90 = 1.645;
+
+export function planPredictor(): BoostingOptions {
+  return {
+    estimators: 120,
+    learningRate: 0.08,
+    maxDepth: 3,
+    minSamplesLeaf: 3,
+    subsample: 0.8,
+    ensembleSize: 5,
+    heldOutFraction: 0.2,
+  };
+}
+
+/** Numeric features of an architecture, in FEATURE_NAMES order. */
+export function architectureFeatures(
+  layers: LayerSpec[],
+  dataset: string,
+): number[] {
+  const analysis = inferShapes(layers, dataset);
+  const spatialShapes = analysis.layers
+    .map((l) => l.outputShape)
+    .filter((shape) => shape.length === 3);
+  const kernels = layers
+    .map((layer) => layer.kernel_size)
+    .filter((k): k is number => typeof k === "number");
+
+  return [
+    Math.log10(1 + analysis.totalParams),
+    Math.log10(1 + analysis.totalFlops),
+    Math.log10(1 + analysis.peakActivationMemory),
+    layers.length,
+    Math.log2(1 + Math.max(0, ...spatialShapes.map((shape) => shape[2]))),
+    spatialShapes.length > 0 ? spatialShapes[spatialShapes.length - 1][0] : 0,
+    kernels.length > 0
+      ? kernels.reduce((sum, k) => sum + k, 0) / kernels.length
+      : 0,
+    ...COUNTED_LAYERS.map(
+      (type) => layers.filter((layer) => layer.type === type).length,
+    ),
+    ...DATASETS.map((name) => (name === dataset ? 1 : 0)),
+  ];
+}
+
+export class AccuracyPredictor {
+  private models: BoostedModel[] = [];
+  private residualVariance = 0;
+  report: PredictorReport | null = null;
+
+  constructor(
+    private options: BoostingOptions = planPredictor(),
+    private seed: number = 0,
+  ) {}
+
+  get trained(): boolean {
+    return this.models.length > 0;
+  }
+
+  /**
+   * Fits the ensemble. A held-out split is scored with a model trained on
+   * the rest first; the final ensemble then trains on every sample.
+   */
+  train(samples: TrainingSample[]): PredictorReport {
+    if (samples.length < MIN_TRAINING_SAMPLES) {
+      throw new Error(
+        `Need at least ${MIN_TRAINING_SAMPLES} completed architectures to train the predictor, found ${samples.length}`,
+      );
+    }
+    const rng = new SeededRandom(this.seed);
+    const X = samples.map((s) => architectureFeatures(s.layers, s.dataset));
+    const y = samples.map((s) => s.accuracy);
+
+    const order = shuffle(
+      samples.map((_, i) => i),
+      rng,
+    );
+    const heldOut = order.slice(
+      0,
+      Math.max(1, Math.round(samples.length * this.options.heldOutFraction)),
+    );
+    const training = order.slice(heldOut.length);
+
+    const scoring = this.fitEnsemble(
+      training.map((i) => X[i]),
+      training.map((i) => y[i]),
+      rng,
+    );
+    const errors = heldOut.map((i) => ensembleMean(scoring, X[i]) - y[i]);
+    this.residualVariance =
+      errors.reduce((sum, e) => sum + e * e, 0) / errors.length;
+
+    this.models = this.fitEnsemble(X, y, rng);
+    this.report = {
+      trainingSamples: training.length,
+      heldOutSamples: heldOut.length,
+      heldOutMae: round(
+        (errors.reduce((sum, e) => sum + Math.abs(e), 0) / errors.length) * 100,
+      ),
+      heldOutRmse: round(Math.sqrt(this.residualVariance) * 100),
+      trainedAt: Date.now(),
+    };
+    return this.report;
+  }
+
+  predict(layers: LayerSpec[], dataset: string): AccuracyPrediction {
+    if (!this.trained) throw new Error("Accuracy predictor is not trained");
+    const x = architectureFeatures(layers, dataset);
+    const predictions = this.models.map((model) => predictTree(model, x));
+    const mean =
+      predictions.reduce((sum, p) => sum + p, 0) / predictions.length;
+    const spread =
+      predictions.reduce((sum, p) => sum + (p - mean) ** 2, 0) /
+      predictions.length;
+    const std = Math.sqrt(spread + this.residualVariance);
+    const accuracy = clamp01(mean);
+
+    return {
+      accuracy: round(accuracy),
+      lower: round(clamp01(mean - Z_90 * std)),
+      upper: round(clamp01(mean + Z_90 * std)),
+      std: round(std),
+    };
+  }
+
+  // One boosted model per bootstrap resample of the training rows
+  private fitEnsemble(
+    X: number[][],
+    y: number[],
+    rng: SeededRandom,
+  ): BoostedModel[] {
+    return Array.from({ length: this.options.ensembleSize }, () => {
+      const rows = X.map(() => rng.int(X.length));
+      return fitBoosted(
+        rows.map((i) => X[i]),
+        rows.map((i) => y[i]),
+        this.options,
+        rng,
+      );
+    });
+  }
+}
+
+// Process-wide predictor used by the evaluator once trained
+let activePredictor: AccuracyPredictor | null = null;
+
+export function getAccuracyPredictor(): AccuracyPredictor | null {
+  return activePredictor?.trained ? activePredictor : null;
+}
+
+export function setAccuracyPredictor(predictor: AccuracyPredictor | null) {
+  activePredictor = predictor;
+}
+
+function fitBoosted(
+  X: number[][],
+  y: number[],
+  options: BoostingOptions,
+  rng: SeededRandom,
+): BoostedModel {
+  const base = y.reduce((sum, v) => sum + v, 0) / y.length;
+  const current = y.map(() => base);
+  const trees: TreeNode[] = [];
+
+  for (let m = 0; m < options.estimators; m++) {
+    const residuals = y.map((v, i) => v - current[i]);
+    const rows = X.map((_, i) => i).filter(
+      () => rng.next() < options.subsample,
+    );
+    if (rows.length < 2 * options.minSamplesLeaf) continue;
+
+    const tree = fitTree(X, residuals, rows, 0, options);
+    trees.push(tree);
+    X.forEach((x, i) => {
+      current[i] += options.learningRate * evaluateTree(tree, x);
+    });
+  }
+
+  return { base, learningRate: options.learningRate, trees };
+}
+
+// CART regression tree on squared error over the given rows
+function fitTree(
+  X: number[][],
+  targets: number[],
+  rows: number[],
+  depth: number,
+  options: BoostingOptions,
+): TreeNode {
+  const total = rows.reduce((sum, i) => sum + targets[i], 0);
+  const leaf = { value: total / rows.length };
+  if (depth >= options.maxDepth || rows.length < 2 * options.minSamplesLeaf) {
+    return leaf;
+  }
+
+  let best: { feature: number; threshold: number; gain: number } | null = null;
+  const parentScore = (total * total) / rows.length;
+
+  for (let f = 0; f < X[0].length; f++) {
+    const sorted = [...rows].sort((a, b) => X[a][f] - X[b][f]);
+    let leftSum = 0;
+    for (let k = 0; k < sorted.length - 1; k++) {
+      leftSum += targets[sorted[k]];
+      const leftCount = k + 1;
+      const rightCount = sorted.length - leftCount;
+      if (
+        leftCount < options.minSamplesLeaf ||
+        rightCount < options.minSamplesLeaf ||
+        X[sorted[k]][f] === X[sorted[k + 1]][f]
+      ) {
+        continue;
+      }
+      const rightSum = total - leftSum;
+      // Reduction in squared error, up to a constant
+      const gain =
+        (leftSum * leftSum) / leftCount +
+        (rightSum * rightSum) / rightCount -
+        parentScore;
+      if (!best || gain > best.gain) {
+        best = {
+          feature: f,
+          threshold: (X[sorted[k]][f] + X[sorted[k + 1]][f]) / 2,
+          gain,
+        };
+      }
+    }
+  }
+
+  if (!best || best.gain <= 1e-12) return leaf;
+  const { feature, threshold } = best;
+  return {
+    feature,
+    threshold,
+    left: fitTree(
+      X,
+      targets,
+      rows.filter((i) => X[i][feature] <= threshold),
+      depth + 1,
+      options,
+    ),
+    right: fitTree(
+      X,
+      targets,
+      rows.filter((i) => X[i][feature] > threshold),
+      depth + 1,
+      options,
+    ),
+  };
+}
+
+function evaluateTree(node: TreeNode, x: number[]): number {
+  while (!("value" in node)) {
+    node = x[node.feature] <= node.threshold ? node.left : node.right;
+  }
+  return node.value;
+}
+
+function predictTree(model: BoostedModel, x: number[]): number {
+  return model.trees.reduce(
+    (sum, tree) => sum + model.learningRate * evaluateTree(tree, x),
+    model.base,
+  );
+}
+
+function ensembleMean(models: BoostedModel[], x: number[]): number {
+  return (
+    models.reduce((sum, model) => sum + predictTree(model, x), 0) /
+    models.length
+  );
+}
+
+function shuffle<T>(items: T[], rng: SeededRandom): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,57 @@
+import { randomInt } from "node:crypto";
+
+// Seeded pseudo-random numbers and categorical sampling helpers
+// Built by Shaurya Upadhyay
+
+/**
+ * Small, fast seeded PRNG (mulberry32). Its whole state is one 32-bit
+ * integer, so it can be stored in a search checkpoint and resumed exactly.
+ */
+export class SeededRandom {
+  state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Uniform float in [0, 1). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Uniform integer in [0, max). */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  choice<T>(array: T[]): T {
+    return array[this.int(array.length)];
+  }
+}
+
+/** Fresh seed for searches started without one. */
+export function randomSeed(): number {
+  return randomInt(0, 2 ** 32);
+}
+
+export function softmax(logits: number[]): number[] {
+  const max = Math.max(...logits);
+  const exps = logits.map((l) => Math.exp(l - max));
+  const total = exps.reduce((sum, e) => sum + e, 0);
+  return exps.map((e) => e / total);
+}
+
+/** Index drawn from a categorical distribution given a uniform `u`. */
+export function sampleIndex(probs: number[], u: number): number {
+  const total = probs.reduce((sum, p) => sum + p, 0);
+  let cumulative = 0;
+  for (let i = 0; i < probs.length; i++) {
+    cumulative += probs[i] / total;
+    if (u < cumulative) return i;
+  }
+  return probs.length - 1;
+}
@@ -0,0 +1,29 @@
+import { sampleCandidate } from "./sampling";
+import { evaluateBatch, SearchStrategy, topCandidates } from "./searchRunner";
+
+// Random search baseline: uniform samples from the search space
+// Built by Shaurya Upadhyay
+
+export const randomStrategy: SearchStrategy = {
+  async initialize(job, context) {
+    const samples = Array.from(
+      { length: Math.min(job.budget.parallel * 2, job.budget.maxEvaluations) },
+      () => sampleCandidate(job.searchSpace, context.rng),
+    );
+    const evaluated = await evaluateBatch(context, samples, 0);
+    return { evaluated, candidates: topCandidates(evaluated), checkpoint: {} };
+  },
+
+  async step(job, context, remaining, generation) {
+    const samples = Array.from(
+      { length: Math.min(job.budget.parallel, remaining) },
+      () => sampleCandidate(job.searchSpace, context.rng),
+    );
+    const evaluated = await evaluateBatch(context, samples, generation);
+    return {
+      evaluated,
+      candidates: topCandidates([...job.candidates, ...evaluated]),
+      checkpoint: {},
+    };
+  },
+};
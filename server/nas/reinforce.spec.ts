@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { SeededRandom } from "./random";
+import { planController, ReinforceController } from "./reinforce";
+import { Candidate } from "./types";
+
+const searchSpace = { layers: ["conv2d", "dense", "pooling", "dropout"] };
+
+// Synthetic objective: rewards shallow networks made of 3x3 convolutions
+function syntheticReward(candidate: Candidate): number {
+  const good = candidate.layers.filter(
+    (layer) => layer.type === "conv2d" && layer.kernel_size === 3,
+  ).length;
+  return good / candidate.layers.length - candidate.layers.length / 40;
+}
+
+function train(seed: number, iterations: number, batchSize = 8): number[] {
+  const controller = new ReinforceController(
+    searchSpace,
+    planController(),
+    new SeededRandom(seed),
+  );
+  const meanRewards = [];
+
+  for (let i = 0; i < iterations; i++) {
+    const episodes = Array.from({ length: batchSize }, () =>
+      controller.sample(),
+    );
+    const rewards = episodes.map((e) => syntheticReward(e.candidate));
+    controller.update(
+      episodes.map((e, j) => ({ actions: e.actions, reward: rewards[j] })),
+    );
+    meanRewards.push(rewards.reduce((sum, r) => sum + r, 0) / batchSize);
+  }
+
+  return meanRewards;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+describe("ReinforceController", () => {
+  it("should raise the mean reward on a synthetic objective", () => {
+    const rewards = train(42, 60);
+    expect(mean(rewards.slice(-10))).toBeGreaterThan(
+      mean(rewards.slice(0, 10)) + 0.2,
+    );
+  });
+
+  it("should be deterministic under a seed", () => {
+    expect(train(7, 10)).toEqual(train(7, 10));
+    expect(train(7, 10)).not.toEqual(train(8, 10));
+  });
+
+  it("should resume sampling exactly from a saved state", () => {
+    const rng = new SeededRandom(3);
+    const controller = new ReinforceController(
+      searchSpace,
+      planController(),
+      rng,
+    );
+    controller.sample();
+    const resumed = new ReinforceController(
+      searchSpace,
+      planController(),
+      new SeededRandom(rng.state),
+      controller.getState(),
+    );
+    expect(resumed.sample().candidate.layers).toEqual(
+      controller.sample().candidate.layers,
+    );
+  });
+});
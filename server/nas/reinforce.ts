@@ -0,0 +1,259 @@
+import { sampleIndex, SeededRandom, softmax } from "./random";
+import { generateArchitectureId, DEFAULT_LAYER_TYPES } from "./sampling";
+import { SearchContext, SearchStrategy, topCandidates } from "./searchRunner";
+import { Candidate, LayerSpec, SearchSpace } from "./types";
+
+// REINFORCE policy controller that generates architectures token by token
+// Built by Shaurya Upadhyay
+
+const DEPTH_CHOICES = [4, 6, 8, 10, 12, 16, 20];
+const FILTER_CHOICES = [16, 32, 64, 128, 256];
+const UNIT_CHOICES = [64, 128, 256, 512, 1024];
+const CONV_KERNEL_CHOICES = [1, 3, 5, 7];
+const DEPTHWISE_KERNEL_CHOICES = [3, 5, 7];
+
+export interface ControllerOptions {
+  learningRate: number;
+  // Decay of the exponential moving-average reward baseline
+  baselineDecay: number;
+}
+
+export interface ControllerState {
+  // Softmax logits per decision, keyed "<decision>:<context>"
+  logits: Record<string, number[]>;
+  baseline: number | null;
+  // Moving average of the squared advantage, used to normalize advantages
+  variance: number | null;
+  updates: number;
+}
+
+export interface ControllerAction {
+  key: string;
+  choice: number;
+}
+
+export interface Episode {
+  candidate: Candidate;
+  actions: ControllerAction[];
+}
+
+/**
+ * Tabular autoregressive policy over the flat layer-list search space.
+ * Each token (depth, layer type, filters/units, kernel size, activation and
+ * the training hyperparameters) is drawn from its own softmax, conditioned
+ * on the previous layer's type or on the current layer's type, and the whole
+ * policy is trained with REINFORCE against a moving-average baseline.
+ */
+export class ReinforceController {
+  private state: ControllerState;
+
+  constructor(
+    private searchSpace: SearchSpace,
+    private options: ControllerOptions,
+    private rng: SeededRandom,
+    state?: ControllerState,
+  ) {
+    this.state = state
+      ? structuredClone(state)
+      : { logits: {}, baseline: null, variance: null, updates: 0 };
+  }
+
+  getState(): ControllerState {
+    return structuredClone(this.state);
+  }
+
+  sample(): Episode {
+    const actions: ControllerAction[] = [];
+    const pick = <T>(decision: string, context: string, choices: T[]): T => {
+      const key = `${decision}:${context}`;
+      const probs = softmax(this.logitsFor(key, choices.length));
+      const choice = sampleIndex(probs, this.rng.next());
+      actions.push({ key, choice });
+      return choices[choice];
+    };
+
+    const layerTypes = this.searchSpace.layers || DEFAULT_LAYER_TYPES;
+    const activations = this.searchSpace.activations || [
+      "relu",
+      "swish",
+      "gelu",
+    ];
+    const depth = pick("depth", "start", DEPTH_CHOICES);
+    const layers: LayerSpec[] = [];
+    let previous = "start";
+
+    for (let i = 0; i < depth; i++) {
+      const type = pick("type", previous, layerTypes);
+      const layer: LayerSpec = { type };
+
+      switch (type) {
+        case "conv2d":
+          layer.filters = pick("filters", type, FILTER_CHOICES);
+          layer.kernel_size = pick("kernel", type, CONV_KERNEL_CHOICES);
+          layer.activation = pick("activation", type, activations);
+          break;
+        case "depthwise_conv":
+          layer.kernel_size = pick("kernel", type, DEPTHWISE_KERNEL_CHOICES);
+          layer.activation = pick("activation", type, activations);
+          break;
+        case "dense":
+          layer.units = pick("units", type, UNIT_CHOICES);
+          layer.activation = pick("activation", type, activations);
+          break;
+        case "dropout":
+          layer.rate = 0.3;
+          break;
+        case "batch_norm":
+          layer.momentum = 0.99;
+          break;
+      }
+
+      layers.push(layer);
+      previous = type;
+    }
+
+    const candidate: Candidate = {
+      id: generateArchitectureId(this.rng),
+      layers,
+      optimizer: pick(
+        "optimizer",
+        "train",
+        this.searchSpace.optimizers || ["adam", "sgd", "rmsprop"],
+      ),
+      learningRate: pick(
+        "learning_rate",
+        "train",
+        this.searchSpace.learningRates || [0.001, 0.01, 0.1],
+      ),
+      batchSize: pick(
+        "batch_size",
+        "train",
+        this.searchSpace.batchSizes || [16, 32, 64, 128],
+      ),
+      score: 0,
+      estimatedParams: 0,
+      estimatedLatency: 0,
+      confidence: 0.5,
+    };
+
+    return { candidate, actions };
+  }
+
+  /**
+   * One REINFORCE update from a batch of scored episodes. The advantage of
+   * each episode is its reward minus the moving-average baseline, scaled by
+   * the running reward spread so the step size does not depend on the
+   * objective's units; the gradient of log softmax for a chosen token is
+   * (one-hot - probabilities).
+   */
+  update(episodes: { actions: ControllerAction[]; reward: number }[]): void {
+    if (episodes.length === 0) return;
+
+    const rewards = episodes.map((e) => e.reward);
+    const batchMean = rewards.reduce((sum, r) => sum + r, 0) / rewards.length;
+    const baseline = this.state.baseline ?? batchMean;
+    const batchVariance =
+      rewards.reduce((sum, r) => sum + (r - baseline) ** 2, 0) / rewards.length;
+
+    const decay = this.options.baselineDecay;
+    const variance =
+      this.state.variance === null
+        ? batchVariance
+        : decay * this.state.variance + (1 - decay) * batchVariance;
+    const scale = 1 / (Math.sqrt(variance) + 1e-8);
+    const step = this.options.learningRate / episodes.length;
+
+    for (const { actions, reward } of episodes) {
+      const advantage = (reward - baseline) * scale;
+      for (const { key, choice } of actions) {
+        const logits = this.state.logits[key];
+        const probs = softmax(logits);
+        for (let i = 0; i < logits.length; i++) {
+          logits[i] += step * advantage * ((i === choice ? 1 : 0) - probs[i]);
+        }
+      }
+    }
+
+    this.state.baseline = decay * baseline + (1 - decay) * batchMean;
+    this.state.variance = variance;
+    this.state.updates++;
+  }
+
+  // Logit tables start uniform and grow if the search space is expanded
+  private logitsFor(key: string, size: number): number[] {
+    const logits = (this.state.logits[key] ??= []);
+    while (logits.length < size) logits.push(0);
+    if (logits.length > size) logits.length = size;
+    return logits;
+  }
+}
+
+export function planController(): ControllerOptions {
+  return { learningRate: 0.5, baselineDecay: 0.8 };
+}
+
+export const reinforcementStrategy: SearchStrategy = {
+  initialize(job, context) {
+    const controller = new ReinforceController(
+      job.searchSpace,
+      planController(),
+      context.rng,
+    );
+    return trainStep(
+      controller,
+      context,
+      Math.min(job.budget.parallel, job.budget.maxEvaluations),
+      0,
+      [],
+    );
+  },
+
+  step(job, context, remaining, generation) {
+    const controller = new ReinforceController(
+      job.searchSpace,
+      planController(),
+      context.rng,
+      job.checkpoint.controller,
+    );
+    const batchSize = Math.min(job.budget.parallel, remaining);
+    return trainStep(
+      controller,
+      context,
+      batchSize,
+      generation,
+      job.candidates,
+    );
+  },
+};
+
+// Samples a batch from the policy, scores it with the efficiency-penalized
+// fitness and applies one policy-gradient update. Episodes the constraints
+// rejected earn zero reward, steering the policy away from them.
+async function trainStep(
+  controller: ReinforceController,
+  context: SearchContext,
+  batchSize: number,
+  generation: number,
+  workingSet: Candidate[],
+) {
+  const episodes = Array.from({ length: Math.max(batchSize, 1) }, () =>
+    controller.sample(),
+  );
+  const results = await context.evaluate(
+    episodes.map((e) => e.candidate),
+    generation,
+  );
+  controller.update(
+    episodes.map((e, i) => ({
+      actions: e.actions,
+      reward: results[i]?.score ?? 0,
+    })),
+  );
+  const evaluated = results.filter((c): c is Candidate => c !== null);
+
+  return {
+    evaluated,
+    candidates: topCandidates([...workingSet, ...evaluated]),
+    checkpoint: { controller: controller.getState() },
+  };
+}
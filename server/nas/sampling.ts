@@ -0,0 +1,120 @@
+import { sampleLayerOfType, sampleSearchSpace } from "../../shared/searchSpace";
+import { SeededRandom } from "./random";
+import { Candidate, LayerSpec, SearchSpace } from "./types";
+
+// Random architecture sampling over the flat layer-list search space
+// Built by Shaurya Upadhyay
+
+export const DEFAULT_LAYER_TYPES = [
+  "conv2d",
+  "depthwise_conv",
+  "dense",
+  "batch_norm",
+  "dropout",
+  "pooling",
+];
+
+/**
+ * Samples an unevaluated candidate: a random layer list plus training
+ * hyperparameters. Score and cost fields are zero until it is evaluated.
+ * DSL spaces are sampled uniformly over their configurations.
+ */
+export function sampleCandidate(
+  searchSpace: SearchSpace,
+  rng: SeededRandom,
+): Candidate {
+  if (searchSpace.spec) {
+    const id = generateArchitectureId(rng);
+    const sampled = sampleSearchSpace(searchSpace.spec, rng);
+    return {
+      id,
+      layers: sampled.layers,
+      optimizer: String(sampled.optimizer),
+      learningRate: Number(sampled.learningRate),
+      batchSize: Number(sampled.batchSize),
+      score: 0,
+      estimatedParams: 0,
+      estimatedLatency: 0,
+      confidence: 0.5,
+    };
+  }
+  return {
+    id: generateArchitectureId(rng),
+    layers: generateRandomLayers(searchSpace, rng),
+    optimizer: rng.choice(searchSpace.optimizers || ["adam", "sgd", "rmsprop"]),
+    learningRate: rng.choice(searchSpace.learningRates || [0.001, 0.01, 0.1]),
+    batchSize: rng.choice(searchSpace.batchSizes || [16, 32, 64, 128]),
+    score: 0,
+    estimatedParams: 0,
+    estimatedLatency: 0,
+    confidence: 0.5,
+  };
+}
+
+/** Reproducible candidate ID drawn from the search's PRNG. */
+export function generateArchitectureId(rng: SeededRandom): string {
+  const high = rng
+    .int(36 ** 6)
+    .toString(36)
+    .padStart(6, "0");
+  const low = rng
+    .int(36 ** 6)
+    .toString(36)
+    .padStart(6, "0");
+  return `arch_${high}${low}`;
+}
+
+export function generateRandomLayers(
+  searchSpace: SearchSpace,
+  rng: SeededRandom,
+): LayerSpec[] {
+  const layers = [];
+  const numLayers = rng.int(15) + 5; // 5-20 layers
+  const availableLayers = searchSpace.layers || DEFAULT_LAYER_TYPES;
+
+  for (let i = 0; i < numLayers; i++) {
+    layers.push(generateRandomLayer(rng.choice(availableLayers), rng));
+  }
+
+  return layers;
+}
+
+/**
+ * A random layer of the given type, using the DSL space's hyperparameter
+ * ranges when it declares the type and the built-in ranges otherwise.
+ */
+export function generateRandomLayer(
+  layerType: string,
+  rng: SeededRandom,
+  searchSpace?: SearchSpace,
+): LayerSpec {
+  const fromSpec =
+    searchSpace?.spec && sampleLayerOfType(searchSpace.spec, layerType, rng);
+  if (fromSpec) return fromSpec;
+
+  const layer: LayerSpec = { type: layerType };
+
+  switch (layerType) {
+    case "conv2d":
+      layer.filters = rng.choice([16, 32, 64, 128, 256]);
+      layer.kernel_size = rng.choice([1, 3, 5, 7]);
+      layer.activation = rng.choice(["relu", "swish", "gelu"]);
+      break;
+    case "depthwise_conv":
+      layer.kernel_size = rng.choice([3, 5, 7]);
+      layer.activation = rng.choice(["relu", "swish"]);
+      break;
+    case "dense":
+      layer.units = rng.choice([64, 128, 256, 512, 1024]);
+      layer.activation = rng.choice(["relu", "swish", "gelu"]);
+      break;
+    case "dropout":
+      layer.rate = rng.next() * 0.5 + 0.1; // 0.1-0.6
+      break;
+    case "batch_norm":
+      layer.momentum = rng.next() * 0.1 + 0.9; // 0.9-1.0
+      break;
+  }
+
+  return layer;
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SearchProgressEvent } from "../../shared/api";
+import { watchSearch } from "./searchEvents";
+import { startSearch } from "./searchRunner";
+import {
+  createSearchJob,
+  getSearchJobStore,
+  MemorySearchJobStore,
+  setSearchJobStore,
+} from "./searchStore";
+import { getSearchStrategy } from "./strategies";
+
+function createJob(searchId: string) {
+  return createSearchJob({
+    searchId,
+    algorithm: "random",
+    searchSpace: { layers: ["conv2d", "depthwise_conv", "dense", "pooling"] },
+    constraints: {},
+    objectives: {
+      accuracy: { weight: 1 },
+      latency: { weight: 0 },
+      params: { weight: 0 },
+      energy: { weight: 0 },
+    },
+    budget: { maxEvaluations: 24, maxTime: 1, parallel: 4 },
+    seed: 42,
+  });
+}
+
+describe("watchSearch", () => {
+  beforeEach(() => {
+    setSearchJobStore(new MemorySearchJobStore());
+  });
+
+  it("should stream a running search until it completes", async () => {
+    const store = await getSearchJobStore();
+    const job = createJob("streamed");
+    await store.create(job);
+
+    const events: SearchProgressEvent[] = [];
+    const ended = new Promise<void>(async (resolve) => {
+      await watchSearch("streamed", (event) => events.push(event), resolve);
+    });
+    await startSearch(job, getSearchStrategy("random"));
+    await ended;
+
+    expect(events[0].event).toBe("snapshot");
+    const generations = events.filter((e) => e.event === "generation");
+    expect(generations.length).toBeGreaterThan(1);
+    const evaluations = generations.map((e) => e.data.evaluations);
+    expect(evaluations).toEqual([...evaluations].sort((a, b) => a - b));
+    expect(evaluations[evaluations.length - 1]).toBe(24);
+
+    const statuses = events
+      .filter((e) => e.event === "status")
+      .map((e) => e.data.status);
+    expect(statuses).toEqual(["running", "completed"]);
+
+    // Every candidate is announced once, and the final ones all were
+    const streamed = generations.flatMap((e) =>
+      (e.data as { candidates: { id: string }[] }).candidates.map((c) => c.id),
+    );
+    expect(new Set(streamed).size).toBe(streamed.length);
+    const final = await store.get("streamed");
+    for (const candidate of final!.candidates) {
+      expect(streamed).toContain(candidate.id);
+    }
+  });
+
+  it("should send only a snapshot for a finished search", async () => {
+    const store = await getSearchJobStore();
+    await store.create(createJob("finished"));
+    await store.transition("finished", "stopped");
+
+    const events: SearchProgressEvent[] = [];
+    let ended = false;
+    const stop = await watchSearch(
+      "finished",
+      (event) => events.push(event),
+      () => (ended = true),
+    );
+
+    expect(stop).not.toBeNull();
+    expect(ended).toBe(true);
+    expect(events.map((e) => e.event)).toEqual(["snapshot"]);
+    expect(
+      await watchSearch(
+        "missing",
+        () => {},
+        () => {},
+      ),
+    ).toBeNull();
+  });
+});
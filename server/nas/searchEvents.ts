@@ -0,0 +1,143 @@
+import { EventEmitter } from "node:events";
+import { SearchGenerationEvent, SearchProgressEvent } from "../../shared/api";
+import { getSearchJobStore, isTerminalStatus, SearchJob } from "./searchStore";
+
+// Progress events for running searches: in-process update notifications
+// from the search runner, turned into snapshot/generation/status events by
+// diffing the stored job
+// Built by Shaurya Upadhyay
+
+const updates = new EventEmitter();
+updates.setMaxListeners(0);
+
+// How often watchers re-read the store, for jobs run by another process
+const POLL_INTERVAL = 1000;
+
+/** Tells watchers in this process that the job was written. */
+export function notifySearchUpdated(searchId: string): void {
+  updates.emit(searchId);
+}
+
+export function onSearchUpdated(
+  searchId: string,
+  listener: () => void,
+): () => void {
+  updates.on(searchId, listener);
+  return () => updates.off(searchId, listener);
+}
+
+export function snapshotEvent(job: SearchJob): SearchProgressEvent {
+  const latest = job.generations[job.generations.length - 1];
+  return {
+    event: "snapshot",
+    data: {
+      searchId: job.searchId,
+      algorithm: job.algorithm,
+      status: job.status,
+      evaluations: job.evaluations,
+      maxEvaluations: job.budget.maxEvaluations,
+      bestScore: latest?.bestScore ?? 0,
+      convergence: latest?.convergence ?? 0,
+      candidates: job.candidates,
+    },
+  };
+}
+
+/**
+ * Events between two reads of a job: one per newly recorded generation,
+ * the last carrying the candidates whose ids are not in `seen` yet, then a
+ * status event if the status changed. Adds the new ids to `seen`.
+ */
+export function progressEvents(
+  previous: SearchJob,
+  job: SearchJob,
+  seen: Set<string>,
+): SearchProgressEvent[] {
+  const records = job.generations.slice(previous.generations.length);
+  const found = job.candidates.filter((c) => !seen.has(c.id));
+  for (const candidate of found) seen.add(candidate.id);
+
+  const events: SearchProgressEvent[] = records.map((record, i) => ({
+    event: "generation",
+    data: {
+      generation: record.generation,
+      evaluations: record.evaluations,
+      maxEvaluations: job.budget.maxEvaluations,
+      bestScore: record.bestScore,
+      meanScore: record.meanScore,
+      convergence: record.convergence,
+      candidates: i === records.length - 1 ? found : [],
+    } as SearchGenerationEvent,
+  }));
+
+  if (job.status !== previous.status) {
+    const transition = job.statusHistory[job.statusHistory.length - 1];
+    events.push({
+      event: "status",
+      data: {
+        status: job.status,
+        ...(transition?.reason ? { reason: transition.reason } : {}),
+        ...(job.error ? { error: job.error } : {}),
+      },
+    });
+  }
+  return events;
+}
+
+/**
+ * Sends a snapshot of the search, then its progress until it reaches a
+ * terminal status, when `onEnd` is called. Returns a function that stops
+ * watching, or null when there is no such search.
+ */
+export async function watchSearch(
+  searchId: string,
+  send: (event: SearchProgressEvent) => void,
+  onEnd: () => void,
+): Promise<(() => void) | null> {
+  const store = await getSearchJobStore();
+  let previous = await store.get(searchId);
+  if (!previous) return null;
+
+  send(snapshotEvent(previous));
+  if (isTerminalStatus(previous.status)) {
+    onEnd();
+    return () => {};
+  }
+
+  const seen = new Set(previous.candidates.map((c) => c.id));
+  let stopped = false;
+  let reading: Promise<void> = Promise.resolve();
+
+  const stop = () => {
+    stopped = true;
+    unsubscribe();
+    clearInterval(timer);
+  };
+
+  // Reads are chained so events go out in order however updates arrive
+  const refresh = () => {
+    reading = reading
+      .then(async () => {
+        if (stopped) return;
+        const job = await store.get(searchId);
+        if (!job || stopped) return;
+
+        for (const event of progressEvents(previous, job, seen)) send(event);
+        previous = job;
+        if (isTerminalStatus(job.status)) {
+          stop();
+          onEnd();
+        }
+      })
+      .catch((error) => {
+        // Keep watching; the next update or poll retries the read
+        console.error(`Watching search ${searchId} failed:`, error);
+      });
+  };
+
+  const unsubscribe = onSearchUpdated(searchId, refresh);
+  const timer = setInterval(refresh, POLL_INTERVAL);
+  // Catch up on anything written between the first read and subscribing
+  refresh();
+  return stop;
+}
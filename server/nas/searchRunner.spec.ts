@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { flattenSearchSpace, parseSearchSpace } from "../../shared/searchSpace";
+import { EvaluationPool, setEvaluationPool } from "./evaluationPool";
+import { cancelSearch, SearchStrategy, startSearch } from "./searchRunner";
+import {
+  createSearchJob,
+  getSearchJobStore,
+  MemorySearchJobStore,
+  SearchJob,
+  setSearchJobStore,
+} from "./searchStore";
+import { getSearchStrategy, resumeInterruptedSearches } from "./strategies";
+import { SearchAlgorithm, SearchBudget, SearchSpace } from "./types";
+
+function newJob(
+  searchId: string,
+  algorithm: SearchAlgorithm,
+  seed: number,
+  budget: SearchBudget = { maxEvaluations: 24, maxTime: 1, parallel: 2 },
+  searchSpace: SearchSpace = {
+    layers: ["conv2d", "depthwise_conv", "dense", "pooling"],
+  },
+): SearchJob {
+  return createSearchJob({
+    searchId,
+    algorithm,
+    searchSpace,
+    constraints: {},
+    objectives: {
+      accuracy: { weight: 1 },
+      latency: { weight: 0 },
+      params: { weight: 0 },
+      energy: { weight: 0 },
+    },
+    budget,
+    seed,
+  });
+}
+
+async function launchSearch(
+  searchId: string,
+  algorithm: SearchAlgorithm,
+  seed: number,
+  budget?: SearchBudget,
+  searchSpace?: SearchSpace,
+): Promise<void> {
+  const job = newJob(searchId, algorithm, seed, budget, searchSpace);
+  const store = await getSearchJobStore();
+  await store.create(job);
+  await startSearch(job, getSearchStrategy(algorithm));
+}
+
+async function finishedSearch(searchId: string): Promise<SearchJob> {
+  const store = await getSearchJobStore();
+  for (;;) {
+    const current = await store.get(searchId);
+    if (current!.status !== "running") return current!;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+async function runSearch(
+  searchId: string,
+  algorithm: SearchAlgorithm,
+  seed: number,
+): Promise<SearchJob> {
+  await launchSearch(searchId, algorithm, seed);
+  return finishedSearch(searchId);
+}
+
+// Everything a rerun must reproduce, i.e. the job minus timestamps
+function outcome(job: SearchJob) {
+  return {
+    status: job.status,
+    evaluations: job.evaluations,
+    candidates: job.candidates,
+    generations: job.generations.map(({ timeElapsed, ...record }) => record),
+  };
+}
+
+describe("startSearch", () => {
+  beforeEach(() => {
+    setSearchJobStore(new MemorySearchJobStore());
+  });
+
+  const algorithms: SearchAlgorithm[] = [
+    "evolutionary",
+    "bayesian",
+    "gradient",
+    "reinforcement",
+    "random",
+    "hyperband",
+  ];
+
+  it.each(algorithms)(
+    "should reproduce a seeded %s search exactly",
+    async (algorithm) => {
+      const first = await runSearch("first", algorithm, 1234);
+      const second = await runSearch("second", algorithm, 1234);
+
+      expect(first.status).toBe("completed");
+      expect(outcome(second)).toEqual(outcome(first));
+    },
+  );
+
+  it.each(algorithms)(
+    "should not let the first %s batch overrun a small budget",
+    async (algorithm) => {
+      await launchSearch("small", algorithm, 8, {
+        maxEvaluations: 3,
+        maxTime: 1,
+        parallel: 8,
+      });
+      const job = await finishedSearch("small");
+
+      expect(job.status).toBe("completed");
+      expect(job.evaluations).toBeLessThanOrEqual(3);
+    },
+  );
+
+  it("should explore differently under another seed", async () => {
+    const first = await runSearch("first", "random", 1);
+    const second = await runSearch("second", "random", 2);
+    expect(second.candidates).not.toEqual(first.candidates);
+  });
+
+  it("should run a bayesian search with the UCB acquisition", async () => {
+    const ei = await runSearch("ei", "bayesian", 5);
+    const job = newJob("ucb", "bayesian", 5);
+    job.checkpoint.acquisition = "ucb";
+    const store = await getSearchJobStore();
+    await store.create(job);
+    await startSearch(job, getSearchStrategy("bayesian"));
+    const ucb = await finishedSearch("ucb");
+
+    expect(ucb.status).toBe("completed");
+    expect(ucb.evaluations).toBe(24);
+    expect(ucb.checkpoint.acquisition).toBe("ucb");
+    expect(ei.checkpoint.acquisition).toBe("ei");
+    expect(outcome(ucb)).not.toEqual(outcome(ei));
+  });
+
+  it("should continue an interrupted search from its last generation", async () => {
+    const uninterrupted = await runSearch("uninterrupted", "evolutionary", 99);
+
+    // A process that dies after generation 0 leaves the job "running"
+    await launchSearch("interrupted", "evolutionary", 99);
+    expect(cancelSearch("interrupted")).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const store = await getSearchJobStore();
+    const left = await store.get("interrupted");
+    expect(left!.status).toBe("running");
+    expect(left!.generations).toHaveLength(1);
+
+    expect(await resumeInterruptedSearches()).toEqual(["interrupted"]);
+    const resumed = await finishedSearch("interrupted");
+    expect(outcome(resumed)).toEqual(outcome(uninterrupted));
+  });
+
+  it("should mark a search failed when its initial step throws", async () => {
+    const store = await getSearchJobStore();
+    const job = newJob("broken", "random", 3);
+    await store.create(job);
+    const strategy: SearchStrategy = {
+      initialize: () => {
+        throw new Error("No architecture fits the constraints");
+      },
+      step: getSearchStrategy("random").step,
+    };
+
+    await expect(startSearch(job, strategy)).rejects.toThrow(
+      "No architecture fits the constraints",
+    );
+    const failed = await store.get("broken");
+    expect(failed!.status).toBe("failed");
+    expect(failed!.error).toBe("No architecture fits the constraints");
+  });
+
+  it("should keep a stopped search stopped when its loop then crashes", async () => {
+    const store = await getSearchJobStore();
+    const job = newJob("crashed", "random", 3);
+    await store.create(job);
+    let crashed = false;
+    const strategy: SearchStrategy = {
+      initialize: getSearchStrategy("random").initialize,
+      step: async (current) => {
+        await store.transition(current.searchId, "stopped", "User stop");
+        crashed = true;
+        throw new Error("Evaluator went away");
+      },
+    };
+    await startSearch(job, strategy);
+    while (!crashed) await new Promise((resolve) => setTimeout(resolve, 5));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const stopped = await store.get("crashed");
+    expect(stopped!.status).toBe("stopped");
+    expect(stopped!.error).toBeUndefined();
+  });
+
+  it("should stop when the time budget runs out", async () => {
+    await launchSearch("timed", "random", 5, {
+      maxEvaluations: 1000,
+      maxTime: 0,
+      parallel: 2,
+    });
+    const job = await finishedSearch("timed");
+
+    expect(job.status).toBe("completed");
+    expect(job.generations).toHaveLength(1);
+    expect(job.statusHistory[job.statusHistory.length - 1].reason).toBe(
+      "Time budget exhausted",
+    );
+  });
+
+  it("should evaluate each distinct architecture only once", async () => {
+    // Two architectures: one dense layer of 64 or of 128 units
+    const parsed = parseSearchSpace({
+      version: 1,
+      stages: [
+        {
+          kind: "cell",
+          repeat: { min: 1, max: 1 },
+          slots: [
+            [{ type: "dense", params: { units: { choices: [64, 128] } } }],
+          ],
+        },
+      ],
+      training: { optimizer: "adam", learningRate: 0.01, batchSize: 32 },
+    });
+    if (parsed.success === false) throw new Error(parsed.issues.join("; "));
+
+    await launchSearch(
+      "tiny",
+      "random",
+      8,
+      { maxEvaluations: 20, maxTime: 1, parallel: 2 },
+      { ...flattenSearchSpace(parsed.spec), spec: parsed.spec },
+    );
+    const job = await finishedSearch("tiny");
+    const store = await getSearchJobStore();
+    const evaluated = await store.listEvaluated("tiny");
+
+    expect(job.evaluations).toBe(2);
+    expect(new Set(evaluated.map((c) => c.hash)).size).toBe(2);
+    expect(evaluated).toHaveLength(2);
+    expect(job.statusHistory[job.statusHistory.length - 1].reason).toBe(
+      "Search proposed only architectures it already evaluated",
+    );
+  });
+
+  it("should give the same results on the worker pool", async () => {
+    const inline = await runSearch("inline", "bayesian", 21);
+
+    const pool = new EvaluationPool(2);
+    setEvaluationPool(pool);
+    try {
+      const pooled = await runSearch("pooled", "bayesian", 21);
+      expect(outcome(pooled)).toEqual(outcome(inline));
+    } finally {
+      setEvaluationPool(null);
+      await pool.close();
+    }
+  }, 30000);
+});
@@ -0,0 +1,571 @@
+import { architectureHash } from "./architectureHash";
+import {
+  activeHours,
+  evaluationGpuHours,
+  exhaustedBudget,
+  searchUsage,
+  wallClockLeft,
+} from "./budget";
+import {
+  checkConstraints,
+  ConstraintOutcome,
+  ConstraintStats,
+  emptyConstraintStats,
+  enforceConstraints,
+  recordOutcome,
+  Rejection,
+} from "./constraints";
+import { EvaluationCancelledError, getEvaluationPool } from "./evaluationPool";
+import { SeededRandom } from "./random";
+import { notifySearchUpdated } from "./searchEvents";
+import {
+  loadNamedBenchmark,
+  lookupOutcome,
+  TabularBenchmark,
+} from "./tabularBenchmark";
+import {
+  getSearchJobStore,
+  InvalidTransitionError,
+  isTerminalStatus,
+  SearchJob,
+  SearchJobStore,
+} from "./searchStore";
+import {
+  Candidate,
+  FidelityRung,
+  GenerationRecord,
+  SearchBudget,
+} from "./types";
+
+// Generic search loop: strategies propose and evaluate a batch per step, the
+// runner persists every step as a generation and honours pause/stop/budget
+// Built by Shaurya Upadhyay
+
+export interface StrategyStep {
+  // Candidates evaluated during this step
+  evaluated: Candidate[];
+  // The strategy's working set (population, incumbents...), best first
+  candidates: Candidate[];
+  checkpoint: Record<string, any>;
+  mutationRate?: number;
+  rung?: FidelityRung;
+}
+
+/**
+ * What the runner hands a strategy for one step. All randomness must come
+ * from `rng`: the runner seeds it from the job and persists its state with
+ * every generation, which is what makes seeded searches reproducible.
+ */
+export interface SearchContext {
+  rng: SeededRandom;
+  /**
+   * Evaluates candidates under the job's hard constraints. The result is
+   * aligned with the input; rejected candidates come back as null and
+   * repaired ones with their repaired layers. Architectures the search
+   * already evaluated (same architectureHash) come back as that earlier
+   * candidate without using evaluation budget.
+   */
+  evaluate(
+    candidates: Candidate[],
+    generation: number,
+  ): Promise<(Candidate | null)[]>;
+}
+
+export interface SearchStrategy {
+  /** Builds and evaluates the initial batch (generation 0). */
+  initialize(
+    job: SearchJob,
+    context: SearchContext,
+    currentBest?: any[],
+  ): StrategyStep | Promise<StrategyStep>;
+  /** Proposes and evaluates at most `remaining` new candidates. */
+  step(
+    job: SearchJob,
+    context: SearchContext,
+    remaining: number,
+    generation: number,
+  ): StrategyStep | Promise<StrategyStep>;
+}
+
+const MAX_RECORDED_REJECTIONS = 50;
+
+// Longest setTimeout delay; longer waits would fire immediately
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Searches whose loop runs in this process, for cancellation
+const activeSearches = new Map<string, AbortController>();
+
+// Reschedules the wall-clock deadline of the step running in this process
+const budgetListeners = new Map<string, (budget: SearchBudget) => void>();
+
+/**
+ * Runs the strategy's initial step for a freshly created job, marks it
+ * running and schedules the remaining steps in the background.
+ */
+export async function startSearch(
+  job: SearchJob,
+  strategy: SearchStrategy,
+  currentBest?: any[],
+): Promise<SearchJob> {
+  const store = await getSearchJobStore();
+  let running: SearchJob;
+  try {
+    const context = createContext(job, new Map(), await jobBenchmark(job));
+    const step = await strategy.initialize(job, context, currentBest);
+    const initialMean = meanScore(step.candidates);
+
+    await store.recordGeneration(job.searchId, {
+      record: generationRecord(
+        job,
+        0,
+        context.attempted,
+        context.gpuHours,
+        step,
+        initialMean,
+      ),
+      evaluated: context.firstEvaluated(step.evaluated),
+      candidates: step.candidates,
+      checkpoint: { ...step.checkpoint, ...context.checkpoint(), initialMean },
+    });
+    running = await store.transition(job.searchId, "running");
+  } catch (error) {
+    await failSearch(job.searchId, error, "Search failed to start");
+    throw error;
+  }
+  notifySearchUpdated(job.searchId);
+
+  resumeSearch(job.searchId, strategy);
+  return running;
+}
+
+/**
+ * Continues a running job from its stored checkpoint in the background.
+ * Also used to pick a paused search back up after "resume", and by a
+ * restarted server for searches that were running when it went down.
+ */
+export function resumeSearch(searchId: string, strategy: SearchStrategy): void {
+  if (activeSearches.has(searchId)) return;
+  const controller = new AbortController();
+  activeSearches.set(searchId, controller);
+
+  runSteps(searchId, strategy, controller.signal)
+    .catch((error) => failSearch(searchId, error, "Search loop crashed"))
+    .finally(() => activeSearches.delete(searchId));
+}
+
+/**
+ * Moves the search to "failed" with the error that ended it. A search that
+ * was stopped or finished in the meantime keeps its status. Never throws.
+ */
+async function failSearch(
+  searchId: string,
+  error: unknown,
+  reason: string,
+): Promise<void> {
+  console.error(`Search ${searchId} failed:`, error);
+  try {
+    const store = await getSearchJobStore();
+    const job = await store.get(searchId);
+    if (!job || isTerminalStatus(job.status)) return;
+    await store.update(searchId, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await store.transition(searchId, "failed", reason);
+    notifySearchUpdated(searchId);
+  } catch (failure) {
+    // Stopped between the read and the transition
+    if (failure instanceof InvalidTransitionError) return;
+    console.error(`Could not mark search ${searchId} failed:`, failure);
+  }
+}
+
+/**
+ * Applies an adjusted budget to the step running in this process, if any:
+ * a shorter maxTime can end it early, a longer one lets it finish. Loops in
+ * other processes re-read the budget when their deadline comes.
+ */
+export function applyBudget(searchId: string, budget: SearchBudget): void {
+  budgetListeners.get(searchId)?.(budget);
+}
+
+/**
+ * Stops the search loop in this process, abandoning the generation being
+ * evaluated. The job keeps its status and last recorded generation; the
+ * caller records why it stopped.
+ */
+export function cancelSearch(searchId: string): boolean {
+  const controller = activeSearches.get(searchId);
+  controller?.abort();
+  return controller !== undefined;
+}
+
+async function runSteps(
+  searchId: string,
+  strategy: SearchStrategy,
+  signal: AbortSignal,
+): Promise<void> {
+  const store = await getSearchJobStore();
+  const cache = await evaluatedCache(store, searchId);
+  let reason = "Evaluation budget exhausted";
+
+  for (;;) {
+    // Let status requests in between generations
+    await new Promise((resolve) => setImmediate(resolve));
+    if (signal.aborted) return;
+
+    // Re-read every generation: pause/stop and budget or search-space
+    // changes made through the API take effect at generation boundaries
+    const job = await store.get(searchId);
+    if (!job || job.status !== "running") return;
+
+    const usage = searchUsage(job);
+    const exhausted = exhaustedBudget(job.budget, usage);
+    if (exhausted) {
+      reason = exhausted;
+      break;
+    }
+    const remaining = job.budget.maxEvaluations - job.evaluations;
+
+    // Cancelled with the search, or when the time budget runs out mid-batch
+    const stepController = new AbortController();
+    const cancel = () => stepController.abort();
+    signal.addEventListener("abort", cancel);
+    const deadline = watchDeadline(job, cancel);
+
+    const generation = job.generations.length;
+    const context = createContext(
+      job,
+      cache,
+      await jobBenchmark(job),
+      stepController.signal,
+    );
+    let step: StrategyStep;
+    try {
+      step = await strategy.step(job, context, remaining, generation);
+    } catch (error) {
+      if (!(error instanceof EvaluationCancelledError)) throw error;
+      if (signal.aborted) return;
+      reason = "Time budget exhausted";
+      break;
+    } finally {
+      signal.removeEventListener("abort", cancel);
+      deadline.clear();
+    }
+    if (context.attempted === 0) {
+      if (context.reused > 0) {
+        reason = "Search proposed only architectures it already evaluated";
+      }
+      break;
+    }
+
+    await store.recordGeneration(searchId, {
+      record: generationRecord(
+        job,
+        generation,
+        job.evaluations + context.attempted,
+        usage.gpuHours + context.gpuHours,
+        step,
+        job.checkpoint.initialMean,
+      ),
+      evaluated: context.firstEvaluated(step.evaluated),
+      candidates: step.candidates,
+      checkpoint: {
+        ...step.checkpoint,
+        ...context.checkpoint(),
+        initialMean: job.checkpoint.initialMean,
+      },
+    });
+    notifySearchUpdated(searchId);
+  }
+
+  try {
+    await store.transition(searchId, "completed", reason);
+    notifySearchUpdated(searchId);
+  } catch (error) {
+    // Paused or stopped while the last generation was being recorded
+    if (!(error instanceof InvalidTransitionError)) throw error;
+  }
+}
+
+// Calls `expire` once the job's wall-clock budget is used up. The budget is
+// re-read from the store when the timer fires, so an extension made in any
+// process is honoured, and applyBudget reschedules it straight away.
+function watchDeadline(job: SearchJob, expire: () => void) {
+  let timer: ReturnType<typeof setTimeout>;
+  let cleared = false;
+  const schedule = (budget: SearchBudget) => {
+    if (cleared) return;
+    clearTimeout(timer);
+    const left = wallClockLeft(budget, searchUsage(job));
+    if (left <= 0) {
+      expire();
+      return;
+    }
+    timer = setTimeout(
+      () => {
+        getSearchJobStore()
+          .then((store) => store.get(job.searchId))
+          .then((current) => schedule(current?.budget ?? budget))
+          .catch(() => schedule(budget));
+      },
+      Math.min(left, MAX_TIMER_MS),
+    );
+  };
+
+  budgetListeners.set(job.searchId, schedule);
+  schedule(job.budget);
+  return {
+    clear() {
+      cleared = true;
+      clearTimeout(timer);
+      budgetListeners.delete(job.searchId);
+    },
+  };
+}
+
+function jobBenchmark(job: SearchJob): Promise<TabularBenchmark | undefined> {
+  return job.benchmark
+    ? loadNamedBenchmark(job.benchmark)
+    : Promise.resolve(undefined);
+}
+
+// The search's evaluated candidates by architectureHash, for a search the
+// runner picks up. Fidelity-scored candidates are left out: their stored
+// scores are derived from the estimate, not the estimate itself.
+async function evaluatedCache(
+  store: SearchJobStore,
+  searchId: string,
+): Promise<Map<string, Candidate>> {
+  const cache = new Map<string, Candidate>();
+  for (const candidate of await store.listEvaluated(searchId)) {
+    if (candidate.hash && candidate.fidelity === undefined) {
+      cache.set(candidate.hash, candidate);
+    }
+  }
+  return cache;
+}
+
+// Restores the PRNG and constraint bookkeeping from the job's checkpoint;
+// `checkpoint()` returns them for the next generation record. With a
+// benchmark, evaluations are table lookups instead of estimates; otherwise
+// they run on the evaluation pool when there is one. `cache` maps the hashes
+// of proposed and of evaluated architectures to their evaluated candidate;
+// rejected ones are not cached since the constraints can be relaxed.
+function createContext(
+  job: SearchJob,
+  cache: Map<string, Candidate>,
+  benchmark?: TabularBenchmark,
+  signal?: AbortSignal,
+) {
+  const rng = new SeededRandom(job.checkpoint.rngState ?? job.seed);
+  const stats: ConstraintStats = structuredClone(
+    job.checkpoint.constraintStats ?? emptyConstraintStats(),
+  );
+  const rejections: Rejection[] = [...(job.checkpoint.rejections ?? [])];
+  const evaluatedHashes = new Set<string>();
+  let attempted = 0;
+  let reused = 0;
+  let gpuHours = 0;
+
+  // Cached and still within the (possibly changed) constraints
+  const cached = (hash: string) => {
+    const candidate = cache.get(hash);
+    return candidate &&
+      checkConstraints(candidate, job.constraints).length === 0
+      ? candidate
+      : undefined;
+  };
+
+  return {
+    rng,
+    get attempted() {
+      return attempted;
+    },
+    get reused() {
+      return reused;
+    },
+    // Training compute of the architectures evaluated for the first time
+    get gpuHours() {
+      return gpuHours;
+    },
+    async evaluate(candidates: Candidate[], generation: number) {
+      const hashes = candidates.map((candidate) => architectureHash(candidate));
+      // First proposal of every architecture not evaluated yet
+      const pending = candidates
+        .map((_, i) => i)
+        .filter((i) => !cached(hashes[i]) && hashes.indexOf(hashes[i]) === i);
+      const outcomes = await evaluateOutcomes(
+        job,
+        pending.map((i) => candidates[i]),
+        benchmark,
+        signal,
+      );
+      attempted += pending.length;
+
+      const results = new Map<string, Candidate | null>();
+      pending.forEach((i, k) => {
+        const outcome = outcomes[k];
+        recordOutcome(stats, outcome);
+        if (outcome.rejection) {
+          rejections.push({
+            candidateId: candidates[i].id,
+            generation,
+            reasons: outcome.missing
+              ? [`Not in benchmark "${benchmark.name}"`]
+              : outcome.rejection.map((v) => v.reason),
+          });
+        }
+        if (!outcome.candidate) {
+          results.set(hashes[i], null);
+          return;
+        }
+        const hash = architectureHash(outcome.candidate);
+        // Repair can turn a new proposal into an evaluated architecture
+        const known = cached(hash);
+        let candidate = known;
+        if (!known) {
+          evaluatedHashes.add(hash);
+          candidate = {
+            ...outcome.candidate,
+            generation,
+            hash,
+            gpuHours: evaluationGpuHours(outcome.candidate, job),
+          };
+          gpuHours += candidate.gpuHours;
+        }
+        cache.set(hash, candidate);
+        cache.set(hashes[i], candidate);
+        results.set(hashes[i], candidate);
+      });
+
+      return candidates.map((_, i) => {
+        if (pending.includes(i)) return results.get(hashes[i]);
+        reused++;
+        return results.has(hashes[i])
+          ? results.get(hashes[i])
+          : cached(hashes[i]);
+      });
+    },
+    /**
+     * The candidates of `evaluated` this step evaluated for the first time,
+     * once each; the ones it reused are stored already.
+     */
+    firstEvaluated(evaluated: Candidate[]): Candidate[] {
+      const seen = new Set<string>();
+      return evaluated.filter((candidate) => {
+        if (!evaluatedHashes.has(candidate.hash) || seen.has(candidate.hash)) {
+          return false;
+        }
+        seen.add(candidate.hash);
+        return true;
+      });
+    },
+    checkpoint() {
+      return {
+        rngState: rng.state,
+        constraintStats: stats,
+        rejections: rejections.slice(-MAX_RECORDED_REJECTIONS),
+        duplicates: (job.checkpoint.duplicates ?? 0) + reused,
+      };
+    },
+  };
+}
+
+function evaluateOutcomes(
+  job: SearchJob,
+  candidates: Candidate[],
+  benchmark?: TabularBenchmark,
+  signal?: AbortSignal,
+): Promise<(ConstraintOutcome & { missing?: boolean })[]> {
+  if (benchmark) {
+    return Promise.resolve(
+      candidates.map((c) => lookupOutcome(c, job.constraints, benchmark)),
+    );
+  }
+  const pool = getEvaluationPool();
+  if (!pool) {
+    return Promise.resolve(
+      candidates.map((c) =>
+        enforceConstraints(c, job.constraints, job.dataset),
+      ),
+    );
+  }
+  return pool.evaluate(
+    candidates.map((candidate) => ({
+      candidate,
+      constraints: job.constraints,
+      dataset: job.dataset,
+    })),
+    { parallel: job.budget.parallel, signal },
+  );
+}
+
+/** Evaluates a batch and drops the candidates the constraints rejected. */
+export async function evaluateBatch(
+  context: SearchContext,
+  candidates: Candidate[],
+  generation: number,
+): Promise<Candidate[]> {
+  const evaluated = await context.evaluate(candidates, generation);
+  return evaluated.filter(
+    (candidate): candidate is Candidate => candidate !== null,
+  );
+}
+
+/** Best `size` candidates, highest score first. */
+export function topCandidates(candidates: Candidate[], size = 20): Candidate[] {
+  return uniqueCandidates(candidates)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, size);
+}
+
+/**
+ * First occurrence of every candidate id. Working sets merged with a batch
+ * can repeat a candidate when the batch reused an earlier evaluation.
+ */
+export function uniqueCandidates(candidates: Candidate[]): Candidate[] {
+  const ids = new Set<string>();
+  return candidates.filter((c) => !ids.has(c.id) && ids.add(c.id));
+}
+
+export function meanScore(candidates: Candidate[]): number {
+  if (candidates.length === 0) return 0;
+  return candidates.reduce((sum, c) => sum + c.score, 0) / candidates.length;
+}
+
+function generationRecord(
+  job: SearchJob,
+  generation: number,
+  evaluations: number,
+  gpuHours: number,
+  step: StrategyStep,
+  initialMean: number,
+): GenerationRecord {
+  // Empty only when the constraints rejected every candidate so far
+  const best = step.candidates[0] ?? { id: "", score: 0 };
+  const mean = meanScore(step.candidates);
+  // Share of the initial mean-to-best gap the working set has closed:
+  // 0 for a fresh random population, 1 once everyone scores like the best
+  const convergence =
+    best.score > initialMean
+      ? Math.min(
+          1,
+          Math.max(0, (mean - initialMean) / (best.score - initialMean)),
+        )
+      : 0;
+
+  return {
+    generation,
+    evaluations,
+    bestScore: best.score,
+    meanScore: Math.round(mean * 10000) / 10000,
+    convergence: Math.round(convergence * 1000) / 1000,
+    ...(step.mutationRate !== undefined
+      ? { mutationRate: Math.round(step.mutationRate * 1000) / 1000 }
+      : {}),
+    ...(step.rung ? { rung: step.rung } : {}),
+    timeElapsed: activeHours(job),
+    gpuHours,
+    bestCandidateId: best.id,
+  };
+}
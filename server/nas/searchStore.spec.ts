@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  createSearchJob,
+  InvalidTransitionError,
+  MemorySearchJobStore,
+} from "./searchStore";
+
+function newJob(searchId = "nas_evolutionary_test") {
+  return createSearchJob({
+    searchId,
+    algorithm: "evolutionary",
+    searchSpace: { layers: ["conv2d", "dense"] },
+    constraints: {},
+    objectives: {
+      accuracy: { weight: 1 },
+      latency: { weight: 0 },
+      params: { weight: 0 },
+      energy: { weight: 0 },
+    },
+    budget: { maxEvaluations: 100, maxTime: 1, parallel: 2 },
+    seed: 1,
+  });
+}
+
+describe("MemorySearchJobStore", () => {
+  it("should return null for unknown search IDs", async () => {
+    const store = new MemorySearchJobStore();
+    expect(await store.get("missing")).toBeNull();
+    expect(await store.transition("missing", "paused")).toBeNull();
+  });
+
+  it("should record status transitions in order", async () => {
+    const store = new MemorySearchJobStore();
+    await store.create(newJob());
+
+    await store.transition("nas_evolutionary_test", "running");
+    await store.transition("nas_evolutionary_test", "paused", "User pause");
+    const job = await store.transition("nas_evolutionary_test", "stopped");
+
+    expect(job.status).toBe("stopped");
+    expect(job.statusHistory.map((t) => t.to)).toEqual([
+      "initialized",
+      "running",
+      "paused",
+      "stopped",
+    ]);
+    expect(job.statusHistory[2].reason).toBe("User pause");
+  });
+
+  it("should reject transitions out of terminal states", async () => {
+    const store = new MemorySearchJobStore();
+    await store.create(newJob());
+    await store.transition("nas_evolutionary_test", "stopped");
+
+    await expect(
+      store.transition("nas_evolutionary_test", "running"),
+    ).rejects.toBeInstanceOf(InvalidTransitionError);
+  });
+
+  it("should not leak mutations of returned jobs into the store", async () => {
+    const store = new MemorySearchJobStore();
+    await store.create(newJob());
+
+    const job = await store.get("nas_evolutionary_test");
+    job.budget.maxEvaluations = 1;
+
+    expect(
+      (await store.get("nas_evolutionary_test")).budget.maxEvaluations,
+    ).toBe(100);
+  });
+});
@@ -0,0 +1,316 @@
+import { isTerminalStatus, SearchStatus } from "../../shared/api";
+import { searchUsage } from "./budget";
+import {
+  Candidate,
+  GenerationRecord,
+  SearchAlgorithm,
+  SearchBudget,
+  SearchConstraints,
+  SearchMode,
+  SearchObjectives,
+  SearchSpace,
+  WarmStartSource,
+} from "./types";
+
+// Search-job repository: one record per searchId with its configuration,
+// status history, per-generation progress and current candidates
+// Built by Shaurya Upadhyay
+
+export type { SearchStatus };
+export { isTerminalStatus };
+
+export interface StatusTransition {
+  from: SearchStatus | null;
+  to: SearchStatus;
+  at: number;
+  reason?: string;
+}
+
+export interface SearchJob {
+  searchId: string;
+  algorithm: SearchAlgorithm;
+  mode: SearchMode;
+  status: SearchStatus;
+  dataset: string;
+  // Tabular benchmark whose lookups replace the estimator ("benchmark mode")
+  benchmark?: string;
+  searchSpace: SearchSpace;
+  constraints: SearchConstraints;
+  objectives: SearchObjectives;
+  budget: SearchBudget;
+  // PRNG seed; the generator's current state is kept in the checkpoint
+  seed: number;
+  // Earlier searches the initial batch was seeded from
+  warmStart?: WarmStartSource;
+  createdAt: number;
+  updatedAt: number;
+  evaluations: number;
+  generations: GenerationRecord[];
+  candidates: Candidate[];
+  // Strategy-specific state needed to continue the search after a pause
+  checkpoint: Record<string, any>;
+  statusHistory: StatusTransition[];
+  error?: string;
+}
+
+export interface GenerationUpdate {
+  record: GenerationRecord;
+  evaluated: Candidate[];
+  candidates: Candidate[];
+  checkpoint: Record<string, any>;
+}
+
+export interface SearchJobStore {
+  create(job: SearchJob): Promise<void>;
+  get(searchId: string): Promise<SearchJob | null>;
+  /** Updates configuration fields; status changes go through `transition`. */
+  update(
+    searchId: string,
+    patch: Partial<
+      Pick<
+        SearchJob,
+        "budget" | "searchSpace" | "constraints" | "candidates" | "error"
+      >
+    >,
+  ): Promise<SearchJob | null>;
+  transition(
+    searchId: string,
+    to: SearchStatus,
+    reason?: string,
+  ): Promise<SearchJob | null>;
+  recordGeneration(searchId: string, update: GenerationUpdate): Promise<void>;
+  /** Every candidate the search evaluated, oldest generation first. */
+  listEvaluated(searchId: string): Promise<Candidate[]>;
+  /** Ids of the jobs in `status`, e.g. to resume running ones on startup. */
+  findByStatus(status: SearchStatus): Promise<string[]>;
+}
+
+/** Raised when an action does not fit the search's current status. */
+export class SearchStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchStateError";
+  }
+}
+
+export class InvalidTransitionError extends SearchStateError {
+  constructor(
+    public readonly from: SearchStatus,
+    public readonly to: SearchStatus,
+  ) {
+    super(`Cannot move search from "${from}" to "${to}"`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+const ALLOWED_TRANSITIONS: Record<SearchStatus, SearchStatus[]> = {
+  initialized: ["running", "paused", "stopped", "failed"],
+  running: ["paused", "completed", "stopped", "failed"],
+  paused: ["running", "stopped", "failed"],
+  completed: [],
+  stopped: [],
+  failed: [],
+};
+
+/**
+ * Validates and applies a status change to a job object. Shared by every
+ * backend so they all enforce the same state machine.
+ */
+export function applyTransition(
+  job: SearchJob,
+  to: SearchStatus,
+  reason?: string,
+): SearchJob {
+  if (!ALLOWED_TRANSITIONS[job.status].includes(to)) {
+    throw new InvalidTransitionError(job.status, to);
+  }
+
+  const at = Date.now();
+  return {
+    ...job,
+    status: to,
+    updatedAt: at,
+    statusHistory: [
+      ...job.statusHistory,
+      { from: job.status, to, at, ...(reason ? { reason } : {}) },
+    ],
+  };
+}
+
+export function createSearchJob(
+  fields: Pick<
+    SearchJob,
+    | "searchId"
+    | "algorithm"
+    | "searchSpace"
+    | "constraints"
+    | "objectives"
+    | "budget"
+    | "seed"
+  > & {
+    dataset?: string;
+    mode?: SearchMode;
+    benchmark?: string;
+    warmStart?: WarmStartSource;
+  },
+): SearchJob {
+  const now = Date.now();
+  return {
+    ...fields,
+    mode: fields.mode || "single_objective",
+    dataset: fields.dataset || "imagenet",
+    constraints: fields.constraints || {},
+    status: "initialized",
+    createdAt: now,
+    updatedAt: now,
+    evaluations: 0,
+    generations: [],
+    candidates: [],
+    checkpoint: {},
+    statusHistory: [{ from: null, to: "initialized", at: now }],
+  };
+}
+
+export class MemorySearchJobStore implements SearchJobStore {
+  private jobs = new Map<string, SearchJob>();
+  private evaluated = new Map<string, Candidate[]>();
+
+  async create(job: SearchJob): Promise<void> {
+    this.jobs.set(job.searchId, structuredClone(job));
+  }
+
+  async get(searchId: string): Promise<SearchJob | null> {
+    const job = this.jobs.get(searchId);
+    return job ? structuredClone(job) : null;
+  }
+
+  async update(
+    searchId: string,
+    patch: Partial<SearchJob>,
+  ): Promise<SearchJob | null> {
+    const job = this.jobs.get(searchId);
+    if (!job) return null;
+
+    const updated = {
+      ...job,
+      ...structuredClone(patch),
+      updatedAt: Date.now(),
+    };
+    this.jobs.set(searchId, updated);
+    return structuredClone(updated);
+  }
+
+  async transition(
+    searchId: string,
+    to: SearchStatus,
+    reason?: string,
+  ): Promise<SearchJob | null> {
+    const job = this.jobs.get(searchId);
+    if (!job) return null;
+
+    const updated = applyTransition(job, to, reason);
+    this.jobs.set(searchId, updated);
+    return structuredClone(updated);
+  }
+
+  async recordGeneration(
+    searchId: string,
+    update: GenerationUpdate,
+  ): Promise<void> {
+    const job = this.jobs.get(searchId);
+    if (!job) return;
+
+    this.jobs.set(searchId, {
+      ...job,
+      evaluations: update.record.evaluations,
+      generations: [...job.generations, structuredClone(update.record)],
+      candidates: structuredClone(update.candidates),
+      checkpoint: structuredClone(update.checkpoint),
+      updatedAt: Date.now(),
+    });
+    this.evaluated.set(searchId, [
+      ...(this.evaluated.get(searchId) || []),
+      ...structuredClone(update.evaluated),
+    ]);
+  }
+
+  async listEvaluated(searchId: string): Promise<Candidate[]> {
+    return structuredClone(this.evaluated.get(searchId) || []);
+  }
+
+  async findByStatus(status: SearchStatus): Promise<string[]> {
+    return [...this.jobs.values()]
+      .filter((job) => job.status === status)
+      .map((job) => job.searchId);
+  }
+}
+
+let store: Promise<SearchJobStore> | null = null;
+
+/**
+ * Returns the process-wide store: Supabase when server credentials are set,
+ * SQLite when NAS_SQLITE_PATH is set, otherwise an in-memory store.
+ */
+export function getSearchJobStore(): Promise<SearchJobStore> {
+  if (!store) {
+    store = openSearchJobStore();
+  }
+  return store;
+}
+
+/** Replaces the process-wide store, e.g. with a fresh in-memory one in tests. */
+export function setSearchJobStore(next: SearchJobStore): void {
+  store = Promise.resolve(next);
+}
+
+async function openSearchJobStore(): Promise<SearchJobStore> {
+  if (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    const { SupabaseSearchJobStore } = await import("./searchStoreSupabase");
+    return new SupabaseSearchJobStore(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY,
+    );
+  }
+
+  if (process.env.NAS_SQLITE_PATH) {
+    const { SqliteSearchJobStore } = await import("./searchStoreSqlite");
+    return SqliteSearchJobStore.open(process.env.NAS_SQLITE_PATH);
+  }
+
+  return new MemorySearchJobStore();
+}
+
+export interface SearchProgressSummary {
+  evaluations: number;
+  bestScore: number;
+  convergence: number;
+  timeElapsed: number;
+  gpuHours: number;
+  estimatedRemaining: number;
+}
+
+export function summarizeProgress(job: SearchJob): SearchProgressSummary {
+  const latest = job.generations[job.generations.length - 1];
+  const end = isTerminalStatus(job.status) ? job.updatedAt : Date.now();
+  const { wallClockHours: timeElapsed, gpuHours } = searchUsage(job, end);
+  const remainingEvaluations = Math.max(
+    0,
+    job.budget.maxEvaluations - job.evaluations,
+  );
+  const perEvaluation = job.evaluations > 0 ? timeElapsed / job.evaluations : 0;
+  const timeLeft = Math.max(0, job.budget.maxTime - timeElapsed);
+  const estimatedRemaining = isTerminalStatus(job.status)
+    ? 0
+    : perEvaluation > 0
+      ? Math.min(remainingEvaluations * perEvaluation, timeLeft)
+      : timeLeft;
+
+  return {
+    evaluations: job.evaluations,
+    bestScore: latest?.bestScore ?? 0,
+    convergence: latest?.convergence ?? 0,
+    timeElapsed,
+    gpuHours,
+    estimatedRemaining,
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { isBuiltin } from "node:module";
+import { SeededRandom } from "./random";
+import { sampleCandidate } from "./sampling";
+import { createSearchJob, GenerationUpdate } from "./searchStore";
+import { SqliteSearchJobStore } from "./searchStoreSqlite";
+import { Candidate } from "./types";
+
+const searchSpace = { layers: ["conv2d", "dense"] };
+
+function newJob(searchId = "nas_evolutionary_test") {
+  return createSearchJob({
+    searchId,
+    algorithm: "evolutionary",
+    searchSpace,
+    constraints: {},
+    objectives: {
+      accuracy: { weight: 1 },
+      latency: { weight: 0 },
+      params: { weight: 0 },
+      energy: { weight: 0 },
+    },
+    budget: { maxEvaluations: 100, maxTime: 1, parallel: 2 },
+    seed: 1,
+  });
+}
+
+function candidate(hash: string, generation: number, seed: number): Candidate {
+  return {
+    ...sampleCandidate(searchSpace, new SeededRandom(seed)),
+    hash,
+    generation,
+    score: seed / 10,
+  };
+}
+
+function generation(
+  index: number,
+  evaluated: Candidate[],
+  checkpoint: Record<string, any> = {},
+): GenerationUpdate {
+  return {
+    record: {
+      generation: index,
+      evaluations: (index + 1) * evaluated.length,
+      bestScore: Math.max(...evaluated.map((c) => c.score)),
+      meanScore: 0,
+      convergence: 0,
+      timeElapsed: 0,
+      bestCandidateId: evaluated[0].id,
+    },
+    evaluated,
+    candidates: evaluated,
+    checkpoint,
+  };
+}
+
+// node:sqlite ships with Node 22.5+
+describe.skipIf(!isBuiltin("node:sqlite"))("SqliteSearchJobStore", () => {
+  it("should keep one row per architecture hash, the latest evaluation", async () => {
+    const store = await SqliteSearchJobStore.open(":memory:");
+    await store.create(newJob());
+    const first = candidate("a", 0, 1);
+    const other = candidate("b", 0, 2);
+    const again = candidate("a", 1, 3);
+
+    await store.recordGeneration(
+      "nas_evolutionary_test",
+      generation(0, [first, other]),
+    );
+    await store.recordGeneration(
+      "nas_evolutionary_test",
+      generation(1, [again]),
+    );
+
+    const evaluated = await store.listEvaluated("nas_evolutionary_test");
+    expect(evaluated.map((c) => c.id)).toEqual([other.id, again.id]);
+  });
+
+  it("should find jobs by status", async () => {
+    const store = await SqliteSearchJobStore.open(":memory:");
+    await store.create(newJob("first"));
+    await store.create(newJob("second"));
+    await store.transition("second", "running");
+
+    expect(await store.findByStatus("running")).toEqual(["second"]);
+    expect(await store.findByStatus("initialized")).toEqual(["first"]);
+    expect(await store.findByStatus("paused")).toEqual([]);
+  });
+
+  it("should read back the checkpoint and generations it stored", async () => {
+    const store = await SqliteSearchJobStore.open(":memory:");
+    await store.create(newJob());
+    const checkpoint = {
+      rng: 123456789,
+      acquisition: "ucb",
+      observations: [{ layers: [{ type: "dense", units: 10 }], score: 0.5 }],
+      initialMean: 0.25,
+    };
+    const update = generation(0, [candidate("a", 0, 1)], checkpoint);
+
+    await store.recordGeneration("nas_evolutionary_test", update);
+    const job = await store.get("nas_evolutionary_test");
+
+    expect(job.checkpoint).toEqual(checkpoint);
+    expect(job.generations).toEqual([update.record]);
+    expect(job.candidates).toEqual(update.candidates);
+    expect(job.evaluations).toBe(update.record.evaluations);
+  });
+});
@@ -0,0 +1,177 @@
+import type { DatabaseSync } from "node:sqlite";
+import {
+  applyTransition,
+  GenerationUpdate,
+  SearchJob,
+  SearchJobStore,
+  SearchStatus,
+} from "./searchStore";
+import { Candidate } from "./types";
+
+// SQLite backend for local development (requires Node 22.5+ for node:sqlite)
+// Built by Shaurya Upadhyay
+
+export class SqliteSearchJobStore implements SearchJobStore {
+  private constructor(private db: DatabaseSync) {}
+
+  static async open(path: string): Promise<SqliteSearchJobStore> {
+    const { DatabaseSync } = await import("node:sqlite");
+    const db = new DatabaseSync(path);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS search_jobs (
+        search_id TEXT PRIMARY KEY,
+        algorithm TEXT NOT NULL,
+        status TEXT NOT NULL,
+        job_json TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS search_job_generations (
+        search_id TEXT NOT NULL REFERENCES search_jobs(search_id) ON DELETE CASCADE,
+        generation INTEGER NOT NULL,
+        record_json TEXT NOT NULL,
+        PRIMARY KEY (search_id, generation)
+      );
+      CREATE TABLE IF NOT EXISTS search_job_candidates (
+        search_id TEXT NOT NULL REFERENCES search_jobs(search_id) ON DELETE CASCADE,
+        candidate_id TEXT NOT NULL,
+        generation INTEGER,
+        score REAL,
+        candidate_json TEXT NOT NULL,
+        PRIMARY KEY (search_id, candidate_id)
+      );
+      -- One row per architecture and search (see architectureHash)
+      CREATE UNIQUE INDEX IF NOT EXISTS search_job_candidates_hash
+        ON search_job_candidates (search_id, json_extract(candidate_json, '$.hash'));
+    `);
+
+    return new SqliteSearchJobStore(db);
+  }
+
+  async create(job: SearchJob): Promise<void> {
+    this.write(job);
+  }
+
+  async get(searchId: string): Promise<SearchJob | null> {
+    const row = this.db
+      .prepare("SELECT job_json FROM search_jobs WHERE search_id = ?")
+      .get(searchId) as { job_json: string } | undefined;
+    if (!row) return null;
+
+    const generations = this.db
+      .prepare(
+        "SELECT record_json FROM search_job_generations WHERE search_id = ? ORDER BY generation",
+      )
+      .all(searchId) as { record_json: string }[];
+
+    return {
+      ...JSON.parse(row.job_json),
+      generations: generations.map((g) => JSON.parse(g.record_json)),
+    };
+  }
+
+  async update(
+    searchId: string,
+    patch: Partial<SearchJob>,
+  ): Promise<SearchJob | null> {
+    const job = await this.get(searchId);
+    if (!job) return null;
+
+    const updated = { ...job, ...patch, updatedAt: Date.now() };
+    this.write(updated);
+    return updated;
+  }
+
+  async transition(
+    searchId: string,
+    to: SearchStatus,
+    reason?: string,
+  ): Promise<SearchJob | null> {
+    const job = await this.get(searchId);
+    if (!job) return null;
+
+    const updated = applyTransition(job, to, reason);
+    this.write(updated);
+    return updated;
+  }
+
+  async recordGeneration(
+    searchId: string,
+    update: GenerationUpdate,
+  ): Promise<void> {
+    const job = await this.get(searchId);
+    if (!job) return;
+
+    const insertCandidate = this.db.prepare(
+      `INSERT OR REPLACE INTO search_job_candidates
+         (search_id, candidate_id, generation, score, candidate_json)
+       VALUES (?, ?, ?, ?, ?)`,
+    );
+
+    this.db.exec("BEGIN");
+    try {
+      this.db
+        .prepare(
+          "INSERT OR REPLACE INTO search_job_generations (search_id, generation, record_json) VALUES (?, ?, ?)",
+        )
+        .run(searchId, update.record.generation, JSON.stringify(update.record));
+      for (const candidate of update.evaluated) {
+        insertCandidate.run(
+          searchId,
+          candidate.id,
+          candidate.generation ?? null,
+          candidate.score,
+          JSON.stringify(candidate),
+        );
+      }
+      this.write({
+        ...job,
+        evaluations: update.record.evaluations,
+        candidates: update.candidates,
+        checkpoint: update.checkpoint,
+        updatedAt: Date.now(),
+      });
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  async listEvaluated(searchId: string): Promise<Candidate[]> {
+    const rows = this.db
+      .prepare(
+        "SELECT candidate_json FROM search_job_candidates WHERE search_id = ? ORDER BY generation",
+      )
+      .all(searchId) as { candidate_json: string }[];
+    return rows.map((row) => JSON.parse(row.candidate_json));
+  }
+
+  async findByStatus(status: SearchStatus): Promise<string[]> {
+    const rows = this.db
+      .prepare("SELECT search_id FROM search_jobs WHERE status = ?")
+      .all(status) as { search_id: string }[];
+    return rows.map((row) => row.search_id);
+  }
+
+  private write(job: SearchJob): void {
+    // Generations live in their own table; keep the job row small
+    const { generations, ...rest } = job;
+    this.db
+      .prepare(
+        `INSERT INTO search_jobs (search_id, algorithm, status, job_json, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(search_id) DO UPDATE SET
+           status = excluded.status,
+           job_json = excluded.job_json,
+           updated_at = excluded.updated_at`,
+      )
+      .run(
+        job.searchId,
+        job.algorithm,
+        job.status,
+        JSON.stringify(rest),
+        job.updatedAt,
+      );
+  }
+}
@@ -0,0 +1,415 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { searchUsage } from "./budget";
+import {
+  applyTransition,
+  GenerationUpdate,
+  isTerminalStatus,
+  SearchJob,
+  SearchJobStore,
+  SearchStatus,
+} from "./searchStore";
+import { inferShapes } from "./shapes";
+import { Candidate, GenerationRecord } from "./types";
+
+// Supabase backend: jobs in search_experiments, generations in
+// search_progress and every evaluated candidate in neural_architectures
+// Built by Shaurya Upadhyay
+
+const EXPERIMENT_STATUS: Record<SearchStatus, string> = {
+  initialized: "pending",
+  running: "training",
+  paused: "training",
+  completed: "completed",
+  stopped: "cancelled",
+  failed: "failed",
+};
+
+const DATASETS = ["imagenet", "cifar10", "cifar100"];
+
+export class SupabaseSearchJobStore implements SearchJobStore {
+  private client: SupabaseClient;
+  // searchId -> search_experiments.id
+  private experimentIds = new Map<string, string>();
+  // searchId -> dataset, for shape inference of stored layers
+  private datasets = new Map<string, string>();
+
+  constructor(url: string, serviceRoleKey: string) {
+    this.client = createClient(url, serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+
+  async create(job: SearchJob): Promise<void> {
+    const { data, error } = await this.client
+      .from("search_experiments")
+      .insert([
+        {
+          ...toExperimentRow(job),
+          name: job.searchId,
+          description: `${job.algorithm} search ${job.searchId}`,
+          strategy: job.algorithm,
+          dataset: DATASETS.includes(job.dataset) ? job.dataset : "custom",
+          search_budget: job.budget.maxEvaluations,
+          ...(job.budget.maxEpochs ? { max_epochs: job.budget.maxEpochs } : {}),
+          ...(job.warmStart
+            ? { warm_start_from: job.warmStart.experiments }
+            : {}),
+          target_accuracy:
+            job.constraints.minAccuracy !== undefined
+              ? job.constraints.minAccuracy * 100
+              : null,
+          target_latency: job.constraints.maxLatency ?? null,
+          started_at: new Date(job.createdAt).toISOString(),
+        },
+      ])
+      .select("id")
+      .single();
+
+    if (error) throw error;
+    this.experimentIds.set(job.searchId, data.id);
+    this.datasets.set(job.searchId, job.dataset);
+  }
+
+  async get(searchId: string): Promise<SearchJob | null> {
+    const { data: row, error } = await this.client
+      .from("search_experiments")
+      .select("*")
+      .eq("search_id", searchId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!row) return null;
+    this.experimentIds.set(searchId, row.id);
+    this.datasets.set(searchId, row.search_config.dataset ?? row.dataset);
+
+    const { data: progress, error: progressError } = await this.client
+      .from("search_progress")
+      .select("*")
+      .eq("experiment_id", row.id)
+      .order("iteration", { ascending: true });
+
+    if (progressError) throw progressError;
+
+    return {
+      searchId,
+      algorithm: row.strategy,
+      mode: row.search_config.mode ?? "single_objective",
+      status: row.job_status,
+      dataset: row.search_config.dataset ?? row.dataset,
+      ...(row.search_config.benchmark
+        ? { benchmark: row.search_config.benchmark }
+        : {}),
+      searchSpace: row.search_config.searchSpace,
+      constraints: row.search_config.constraints,
+      objectives: row.search_config.objectives,
+      budget: row.search_config.budget,
+      seed: row.search_config.seed ?? 0,
+      ...(row.search_config.warmStart
+        ? { warmStart: row.search_config.warmStart }
+        : {}),
+      createdAt: Date.parse(row.created_at),
+      updatedAt: Date.parse(row.updated_at),
+      evaluations: row.total_architectures_tested ?? 0,
+      generations: (progress || []).map(toGenerationRecord),
+      candidates: row.candidates || [],
+      checkpoint: row.checkpoint || {},
+      statusHistory: row.status_history || [],
+      error: row.error ?? undefined,
+    };
+  }
+
+  async update(
+    searchId: string,
+    patch: Partial<SearchJob>,
+  ): Promise<SearchJob | null> {
+    const job = await this.get(searchId);
+    if (!job) return null;
+
+    const updated = { ...job, ...patch, updatedAt: Date.now() };
+    const row = toExperimentRow(updated);
+    // Only the patched columns, so a generation recorded meanwhile survives
+    await this.write(searchId, {
+      ...(patch.budget || patch.searchSpace || patch.constraints
+        ? { search_config: row.search_config }
+        : {}),
+      ...(patch.budget ? { search_budget: updated.budget.maxEvaluations } : {}),
+      ...("candidates" in patch ? { candidates: row.candidates } : {}),
+      ...("error" in patch ? { error: row.error } : {}),
+      updated_at: row.updated_at,
+    });
+    return updated;
+  }
+
+  async transition(
+    searchId: string,
+    to: SearchStatus,
+    reason?: string,
+  ): Promise<SearchJob | null> {
+    const job = await this.get(searchId);
+    if (!job) return null;
+
+    const updated = applyTransition(job, to, reason);
+    const row = toExperimentRow(updated);
+    await this.write(searchId, {
+      status: row.status,
+      job_status: row.job_status,
+      status_history: row.status_history,
+      error: row.error,
+      updated_at: row.updated_at,
+      ...(isTerminalStatus(to) ? finalUsage(updated) : {}),
+    });
+    return updated;
+  }
+
+  async recordGeneration(
+    searchId: string,
+    update: GenerationUpdate,
+  ): Promise<void> {
+    const experimentId = await this.experimentId(searchId);
+    if (!experimentId) return;
+
+    const { record } = update;
+    const { error: progressError } = await this.client
+      .from("search_progress")
+      .insert([
+        {
+          experiment_id: experimentId,
+          iteration: record.generation,
+          generation: record.generation,
+          best_accuracy_so_far: record.bestScore * 100,
+          average_accuracy: record.meanScore * 100,
+          architectures_evaluated: record.evaluations,
+          time_elapsed_hours: record.timeElapsed,
+          convergence_metric: record.convergence,
+          notes: JSON.stringify(record),
+        },
+      ]);
+    if (progressError) throw progressError;
+
+    if (update.evaluated.length > 0) {
+      const parents = await this.architectureIds(
+        experimentId,
+        update.evaluated.flatMap((candidate) => candidate.parentIds || []),
+      );
+      // Rows already stored for an architecture are kept as they are
+      const { data: rows, error: candidatesError } = await this.client
+        .from("neural_architectures")
+        .upsert(
+          update.evaluated.map((candidate) => ({
+            experiment_id: experimentId,
+            name: candidate.id,
+            architecture_hash: candidate.hash ?? null,
+            architecture_json: candidate,
+            layer_count: candidate.layers.length,
+            total_parameters: candidate.estimatedParams,
+            flops: candidate.metrics?.flops ?? null,
+            model_size_mb: candidate.metrics?.modelSize ?? null,
+            generation: candidate.generation ?? record.generation,
+            parent_ids: candidate.parentIds
+              ? candidate.parentIds
+                  .map((id) => parents.get(id))
+                  .filter((id) => id !== undefined)
+              : null,
+            inference_latency_ms: candidate.estimatedLatency,
+            overall_score: candidate.score * 100,
+            pareto_rank: candidate.paretoRank ?? null,
+            // Estimates only: rows become "completed" once actually trained
+            status: "pending",
+          })),
+          {
+            onConflict: "experiment_id,architecture_hash",
+            ignoreDuplicates: true,
+          },
+        )
+        .select("id, name");
+      if (candidatesError) throw candidatesError;
+      await this.insertLayers(
+        rows,
+        update.evaluated,
+        this.datasets.get(searchId),
+      );
+    }
+    await this.updateParetoRanks(experimentId, update.candidates);
+
+    const { error } = await this.client
+      .from("search_experiments")
+      .update({
+        total_architectures_tested: record.evaluations,
+        best_accuracy: bestAccuracy(update),
+        search_time_hours: record.timeElapsed,
+        gpu_hours: record.gpuHours ?? 0,
+        candidates: update.candidates,
+        checkpoint: update.checkpoint,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", experimentId);
+    if (error) throw error;
+  }
+
+  async listEvaluated(searchId: string): Promise<Candidate[]> {
+    const experimentId = await this.experimentId(searchId);
+    if (!experimentId) return [];
+
+    const { data, error } = await this.client
+      .from("neural_architectures")
+      .select("architecture_json")
+      .eq("experiment_id", experimentId)
+      .order("generation", { ascending: true });
+    if (error) throw error;
+    return (data || []).map((row) => row.architecture_json);
+  }
+
+  async findByStatus(status: SearchStatus): Promise<string[]> {
+    const { data, error } = await this.client
+      .from("search_experiments")
+      .select("search_id")
+      .eq("job_status", status);
+    if (error) throw error;
+    return (data || []).map((row) => row.search_id);
+  }
+
+  // Ranks shift as the population evolves, so the surviving candidates'
+  // rows are re-ranked every generation
+  private async updateParetoRanks(
+    experimentId: string,
+    candidates: Candidate[],
+  ): Promise<void> {
+    const byRank = new Map<number, string[]>();
+    for (const candidate of candidates) {
+      if (candidate.paretoRank === undefined) continue;
+      byRank.set(candidate.paretoRank, [
+        ...(byRank.get(candidate.paretoRank) || []),
+        candidate.id,
+      ]);
+    }
+
+    for (const [rank, names] of byRank) {
+      const { error } = await this.client
+        .from("neural_architectures")
+        .update({ pareto_rank: rank })
+        .eq("experiment_id", experimentId)
+        .in("name", names);
+      if (error) throw error;
+    }
+  }
+
+  // neural_architectures row ids of the experiment's candidates `names`
+  private async architectureIds(
+    experimentId: string,
+    names: string[],
+  ): Promise<Map<string, string>> {
+    if (names.length === 0) return new Map();
+    const { data, error } = await this.client
+      .from("neural_architectures")
+      .select("id, name")
+      .eq("experiment_id", experimentId)
+      .in("name", [...new Set(names)]);
+    if (error) throw error;
+    return new Map((data || []).map((row) => [row.name, row.id]));
+  }
+
+  // One architecture_layers row per layer, with inferred shapes and costs
+  private async insertLayers(
+    rows: { id: string; name: string }[],
+    candidates: Candidate[],
+    dataset?: string,
+  ): Promise<void> {
+    const architectureIds = new Map(rows.map((row) => [row.name, row.id]));
+    const inserted = candidates.filter((c) => architectureIds.has(c.id));
+    const layerRows = inserted.flatMap((candidate) => {
+      const analysis = inferShapes(candidate.layers, dataset);
+      return analysis.layers.map((layer) => ({
+        architecture_id: architectureIds.get(candidate.id),
+        layer_index: layer.index,
+        layer_type: layer.type,
+        layer_config: candidate.layers[layer.index],
+        input_shape: layer.inputShape,
+        output_shape: layer.outputShape,
+        parameters_count: layer.params,
+        flops_count: layer.flops,
+      }));
+    });
+    if (layerRows.length === 0) return;
+
+    const { error } = await this.client
+      .from("architecture_layers")
+      .insert(layerRows);
+    if (error) throw error;
+  }
+
+  private async experimentId(searchId: string): Promise<string | null> {
+    if (!this.experimentIds.has(searchId)) {
+      await this.get(searchId);
+    }
+    return this.experimentIds.get(searchId) ?? null;
+  }
+
+  private async write(
+    searchId: string,
+    columns: Record<string, any>,
+  ): Promise<void> {
+    const { error } = await this.client
+      .from("search_experiments")
+      .update(columns)
+      .eq("search_id", searchId);
+
+    if (error) throw error;
+  }
+}
+
+function toExperimentRow(job: SearchJob) {
+  return {
+    search_id: job.searchId,
+    search_config: {
+      mode: job.mode,
+      dataset: job.dataset,
+      benchmark: job.benchmark ?? null,
+      searchSpace: job.searchSpace,
+      constraints: job.constraints,
+      objectives: job.objectives,
+      budget: job.budget,
+      seed: job.seed,
+      warmStart: job.warmStart ?? null,
+    },
+    status: EXPERIMENT_STATUS[job.status],
+    job_status: job.status,
+    status_history: job.statusHistory,
+    candidates: job.candidates,
+    checkpoint: job.checkpoint,
+    error: job.error ?? null,
+    updated_at: new Date(job.updatedAt).toISOString(),
+  };
+}
+
+// Completion time and the budget the search used in the end
+function finalUsage(job: SearchJob) {
+  const usage = searchUsage(job, job.updatedAt);
+  return {
+    completed_at: new Date(job.updatedAt).toISOString(),
+    search_time_hours: usage.wallClockHours,
+    gpu_hours: usage.gpuHours,
+  };
+}
+
+function toGenerationRecord(row: any): GenerationRecord {
+  try {
+    return JSON.parse(row.notes);
+  } catch {
+    return {
+      generation: row.generation ?? row.iteration,
+      evaluations: row.architectures_evaluated ?? 0,
+      bestScore: (row.best_accuracy_so_far ?? 0) / 100,
+      meanScore: (row.average_accuracy ?? 0) / 100,
+      convergence: row.convergence_metric ?? 0,
+      timeElapsed: row.time_elapsed_hours ?? 0,
+      bestCandidateId: "",
+    };
+  }
+}
+
+function bestAccuracy(update: GenerationUpdate): number | null {
+  const accuracies = update.candidates
+    .map((candidate) => candidate.metrics?.estimatedAccuracy)
+    .filter((accuracy) => accuracy !== undefined);
+  return accuracies.length > 0 ? Math.max(...accuracies) * 100 : null;
+}
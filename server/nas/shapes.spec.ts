@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import { ArchitectureGraph } from "../../shared/architectureGraph";
+import { inferGraphShapes, inferShapes } from "./shapes";
+
+describe("inferShapes", () => {
+  it("should account a small CIFAR network exactly", () => {
+    const analysis = inferShapes(
+      [
+        { type: "conv2d", filters: 64, kernel_size: 3 },
+        { type: "pooling" },
+        { type: "dense", units: 10 },
+      ],
+      "cifar10",
+    );
+
+    expect(analysis.layers.map((l) => l.outputShape)).toEqual([
+      [32, 32, 64],
+      [16, 16, 64],
+      [10],
+    ]);
+    // 3x3x3x64 + 64 and 16*16*64*10 + 10
+    expect(analysis.layers.map((l) => l.params)).toEqual([1792, 0, 163850]);
+    expect(analysis.layers[0].macs).toBe(32 * 32 * 27 * 64);
+    expect(analysis.layers[0].activationMemory).toBe(32 * 32 * 64 * 4);
+  });
+
+  it("should match ResNet-50 built from bottleneck residual blocks", () => {
+    const analysis = inferShapes([
+      {
+        type: "conv2d",
+        filters: 64,
+        kernel_size: 7,
+        stride: 2,
+        use_bias: false,
+      },
+      { type: "batch_norm" },
+      { type: "max_pool", pool_size: 3, stride: 2, padding: "same" },
+      { type: "residual_block", filters: 64, blocks: 3, bottleneck: true },
+      {
+        type: "residual_block",
+        filters: 128,
+        blocks: 4,
+        stride: 2,
+        bottleneck: true,
+      },
+      {
+        type: "residual_block",
+        filters: 256,
+        blocks: 6,
+        stride: 2,
+        bottleneck: true,
+      },
+      {
+        type: "residual_block",
+        filters: 512,
+        blocks: 3,
+        stride: 2,
+        bottleneck: true,
+      },
+      { type: "global_avg_pool" },
+      { type: "dense", units: 1000 },
+    ]);
+
+    expect(analysis.layers[6].outputShape).toEqual([7, 7, 2048]);
+    // 25,557,032 trainable plus the batch-norm running statistics
+    expect(analysis.totalParams).toBe(25610152);
+    expect(analysis.totalMacs / 1e9).toBeCloseTo(4.09, 2);
+  });
+
+  it("should match ViT-S/16 built from transformer blocks", () => {
+    const analysis = inferShapes(
+      [
+        { type: "patch_embed", patch_size: 16, dim: 384 },
+        ...Array.from({ length: 12 }, () => ({
+          type: "transformer_block",
+          heads: 6,
+          mlp_ratio: 4,
+        })),
+        { type: "layer_norm" },
+        { type: "global_avg_pool" },
+        { type: "dense", units: 1000 },
+      ],
+      "imagenet",
+    );
+    // timm's 22,050,664 less the class token and its position embedding
+    expect(analysis.totalParams).toBe(22050664 - 2 * 384);
+    expect(analysis.layers[0].outputShape).toEqual([14, 14, 384]);
+    expect(analysis.totalMacs / 1e9).toBeCloseTo(4.57, 2);
+  });
+
+  it("should keep residual inverted bottlenecks shape-preserving", () => {
+    const analysis = inferShapes(
+      [
+        { type: "mb_conv", filters: 24, expansion: 6, kernel_size: 3 },
+        { type: "se_block", reduction: 4 },
+      ],
+      "imagenet",
+      [56, 56, 24],
+    );
+
+    expect(analysis.outputShape).toEqual([56, 56, 24]);
+    // expand 24*144 + bn, depthwise 9*144 + bn, project 144*24 + bn
+    expect(analysis.layers[0].params).toBe(
+      24 * 144 + 4 * 144 + 9 * 144 + 4 * 144 + 144 * 24 + 4 * 24,
+    );
+    expect(analysis.layers[1].params).toBe(24 * 6 + 6 + 6 * 24 + 24);
+  });
+
+  it("should cost an explicit residual graph like the residual block", () => {
+    const convBn = (id: string): ArchitectureGraph["nodes"] => [
+      {
+        id: `${id}_conv`,
+        kind: "layer",
+        layer: { type: "conv2d", filters: 64, kernel_size: 3, use_bias: false },
+      },
+      { id: `${id}_bn`, kind: "layer", layer: { type: "batch_norm" } },
+    ];
+    const graph: ArchitectureGraph = {
+      version: 1,
+      nodes: [
+        { id: "in", kind: "input", shape: [56, 56, 64] },
+        ...convBn("a"),
+        ...convBn("b"),
+        { id: "sum", kind: "merge", op: "add" },
+        { id: "out", kind: "output" },
+      ],
+      edges: [
+        { from: "in", to: "a_conv" },
+        { from: "a_conv", to: "a_bn" },
+        { from: "a_bn", to: "b_conv" },
+        { from: "b_conv", to: "b_bn" },
+        { from: "b_bn", to: "sum" },
+        { from: "in", to: "sum" },
+        { from: "sum", to: "out" },
+      ],
+    };
+
+    const graphAnalysis = inferGraphShapes(graph);
+    const block = inferShapes(
+      [{ type: "residual_block", filters: 64 }],
+      "imagenet",
+      [56, 56, 64],
+    );
+    expect(graphAnalysis.outputShape).toEqual([56, 56, 64]);
+    expect(graphAnalysis.totalParams).toBe(block.totalParams);
+    expect(graphAnalysis.totalFlops).toBe(block.totalFlops);
+  });
+
+  it("should reject merges of incompatible shapes", () => {
+    const graph: ArchitectureGraph = {
+      version: 1,
+      nodes: [
+        { id: "in", kind: "input" },
+        { id: "wide", kind: "layer", layer: { type: "conv2d", filters: 64 } },
+        { id: "sum", kind: "merge", op: "add" },
+        { id: "out", kind: "output" },
+      ],
+      edges: [
+        { from: "in", to: "wide" },
+        { from: "in", to: "sum" },
+        { from: "wide", to: "sum" },
+        { from: "sum", to: "out" },
+      ],
+    };
+    expect(() => inferGraphShapes(graph, "cifar10")).toThrow(/cannot merge/);
+  });
+});
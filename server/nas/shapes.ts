@@ -0,0 +1,540 @@
+import {
+  ArchitectureGraph,
+  GraphValidationError,
+  layersToGraph,
+  MergeOp,
+  predecessors,
+  topologicalOrder,
+  validateGraph,
+} from "../../shared/architectureGraph";
+import { LayerSpec } from "./types";
+
+// Shape propagation over architecture graphs (flat layer lists are chains)
+// with exact per-layer parameter, MAC/FLOP and activation-memory accounting
+// Built by Shaurya Upadhyay
+
+/** [height, width, channels] for feature maps, [features] once flattened. */
+export type TensorShape = number[];
+
+export interface LayerAnalysis {
+  // Position in topological order; the layer index for flat layer lists
+  index: number;
+  nodeId: string;
+  // Layer type, or the merge op for merge nodes
+  type: string;
+  inputShape: TensorShape;
+  // Every input of a merge node (inputShape is the first)
+  inputShapes?: TensorShape[];
+  outputShape: TensorShape;
+  params: number;
+  macs: number;
+  // 2 per MAC plus elementwise work (pooling, normalization, gating, adds)
+  flops: number;
+  // Output activation size in bytes (float32)
+  activationMemory: number;
+}
+
+export interface ArchitectureAnalysis {
+  inputShape: TensorShape;
+  outputShape: TensorShape;
+  layers: LayerAnalysis[];
+  totalParams: number;
+  totalMacs: number;
+  totalFlops: number;
+  // Largest input + output footprint of any single layer, in bytes
+  peakActivationMemory: number;
+  // Layers whose configuration had to be adjusted to fit their input
+  warnings: string[];
+}
+
+export const DATASET_INPUT_SHAPES: Record<string, TensorShape> = {
+  imagenet: [224, 224, 3],
+  cifar10: [32, 32, 3],
+  cifar100: [32, 32, 3],
+};
+
+const BYTES_PER_ACTIVATION = 4;
+
+// Cost of one layer (or block) applied to a given input
+interface LayerCost {
+  output: TensorShape;
+  params: number;
+  macs: number;
+  // Elementwise operations not covered by MACs
+  ops: number;
+}
+
+// Convolution hyperparameters, read straight off the layer spec
+interface ConvOptions {
+  stride?: number;
+  padding?: string;
+  use_bias?: boolean;
+  depth_multiplier?: number;
+  [key: string]: any;
+}
+
+/**
+ * Propagates shapes through `layers`, starting from `inputShape` or the
+ * dataset's image size. Spatial layers applied to a flat vector see it as
+ * a 1x1 feature map; dense layers flatten spatial inputs implicitly.
+ */
+export function inferShapes(
+  layers: LayerSpec[],
+  dataset: string = "imagenet",
+  inputShape?: TensorShape,
+): ArchitectureAnalysis {
+  return inferGraphShapes(layersToGraph(layers), dataset, inputShape);
+}
+
+/**
+ * Graph form of inferShapes: layer and merge nodes are analyzed in
+ * topological order. The input shape comes from the argument, then the
+ * input node, then the dataset. Throws GraphValidationError for invalid
+ * graphs and for merges whose input shapes are incompatible.
+ */
+export function inferGraphShapes(
+  graph: ArchitectureGraph,
+  dataset: string = "imagenet",
+  inputShape?: TensorShape,
+): ArchitectureAnalysis {
+  const issues = validateGraph(graph);
+  if (issues.length > 0) throw new GraphValidationError(issues);
+
+  const nodes = new Map(graph.nodes.map((n) => [n.id, n]));
+  const shapes = new Map<string, TensorShape>();
+  const warnings: string[] = [];
+  const analyses: LayerAnalysis[] = [];
+  let input: TensorShape = [];
+  let output: TensorShape = [];
+  let peak = 0;
+
+  for (const id of topologicalOrder(graph)) {
+    const node = nodes.get(id)!;
+    const inputs = predecessors(graph, id).map((from) => shapes.get(from)!);
+
+    if (node.kind === "input") {
+      input = inputShape ||
+        node.shape ||
+        DATASET_INPUT_SHAPES[dataset] || [224, 224, 3];
+      shapes.set(id, input);
+      peak = Math.max(peak, size(input) * BYTES_PER_ACTIVATION);
+      continue;
+    }
+    if (node.kind === "output") {
+      output = inputs[0];
+      continue;
+    }
+
+    const index = analyses.length;
+    const type = node.kind === "layer" ? node.layer.type : node.op;
+    const cost =
+      node.kind === "layer"
+        ? layerCost(node.layer, inputs[0], (message) =>
+            warnings.push(`Layer ${index} (${type}): ${message}`),
+          )
+        : mergeCost(id, node.op, inputs);
+    const activationMemory = size(cost.output) * BYTES_PER_ACTIVATION;
+
+    analyses.push({
+      index,
+      nodeId: id,
+      type,
+      inputShape: inputs[0],
+      ...(node.kind === "merge" ? { inputShapes: inputs } : {}),
+      outputShape: cost.output,
+      params: cost.params,
+      macs: cost.macs,
+      flops: 2 * cost.macs + cost.ops,
+      activationMemory,
+    });
+    shapes.set(id, cost.output);
+    peak = Math.max(
+      peak,
+      sum(inputs.map(size)) * BYTES_PER_ACTIVATION + activationMemory,
+    );
+  }
+
+  return {
+    inputShape: input,
+    outputShape: output,
+    layers: analyses,
+    totalParams: sum(analyses.map((l) => l.params)),
+    totalMacs: sum(analyses.map((l) => l.macs)),
+    totalFlops: sum(analyses.map((l) => l.flops)),
+    peakActivationMemory: peak,
+    warnings,
+  };
+}
+
+// Add and multiply combine elementwise (multiply broadcasts a per-channel
+// gate, as in squeeze-excitation); concat stacks along channels
+function mergeCost(id: string, op: MergeOp, inputs: TensorShape[]): LayerCost {
+  const mismatch = () =>
+    new GraphValidationError([
+      `${op} node "${id}" cannot merge shapes ${inputs
+        .map((shape) => `[${shape.join("x")}]`)
+        .join(", ")}`,
+    ]);
+
+  if (op === "concat") {
+    const spatialDims = inputs.map((shape) => shape.slice(0, -1).join("x"));
+    if (new Set(spatialDims).size !== 1) throw mismatch();
+    const channels = sum(inputs.map((shape) => shape[shape.length - 1]));
+    return {
+      output: [...inputs[0].slice(0, -1), channels],
+      params: 0,
+      macs: 0,
+      ops: 0,
+    };
+  }
+
+  const output = inputs.reduce((a, b) => (size(b) > size(a) ? b : a));
+  const channels = output[output.length - 1];
+  for (const shape of inputs) {
+    const same = shape.join("x") === output.join("x");
+    const gate =
+      op === "multiply" &&
+      shape[shape.length - 1] === channels &&
+      size(shape) === channels;
+    if (!same && !gate) throw mismatch();
+  }
+  return {
+    output,
+    params: 0,
+    macs: 0,
+    ops: size(output) * (inputs.length - 1),
+  };
+}
+
+function layerCost(
+  layer: LayerSpec,
+  input: TensorShape,
+  warn: (message: string) => void,
+): LayerCost {
+  switch (layer.type) {
+    case "conv2d": {
+      const filters = layer.filters || 32;
+      const kernel = layer.kernel_size || 3;
+      if (layer.separable) {
+        const depthwise = depthwiseConv(spatial(input), kernel, layer, warn);
+        return chain(depthwise, conv(depthwise.output, filters, 1, {}, warn));
+      }
+      return conv(spatial(input), filters, kernel, layer, warn);
+    }
+    case "depthwise_conv":
+      return depthwiseConv(spatial(input), layer.kernel_size || 3, layer, warn);
+    case "pointwise_conv":
+      return conv(spatial(input), layer.filters || 32, 1, layer, warn);
+    case "pooling":
+    case "max_pool":
+    case "avg_pool":
+      return pool(spatial(input), layer, warn);
+    case "global_avg_pool": {
+      const [h, w, c] = spatial(input);
+      return { output: [c], params: 0, macs: 0, ops: h * w * c };
+    }
+    case "flatten":
+      return { output: [size(input)], params: 0, macs: 0, ops: 0 };
+    case "dense": {
+      const units = layer.units || 128;
+      const features = size(input);
+      const bias = layer.use_bias === false ? 0 : units;
+      return {
+        output: [units],
+        params: features * units + bias,
+        macs: features * units,
+        ops: 0,
+      };
+    }
+    case "batch_norm":
+      return batchNorm(input);
+    case "se_block":
+      return squeezeExcite(spatial(input), 1 / (layer.reduction || 4));
+    case "mb_conv":
+      return mbConv(spatial(input), layer, warn);
+    case "residual_block": {
+      let cost: LayerCost = {
+        output: spatial(input),
+        params: 0,
+        macs: 0,
+        ops: 0,
+      };
+      for (let b = 0; b < (layer.blocks || 1); b++) {
+        const stride = b === 0 ? layer.stride || 1 : 1;
+        cost = chain(cost, residualBlock(cost.output, layer, stride, warn));
+      }
+      return cost;
+    }
+    case "layer_norm": {
+      const channels = input[input.length - 1];
+      return {
+        output: input,
+        params: 2 * channels,
+        macs: 0,
+        ops: 2 * size(input),
+      };
+    }
+    case "patch_embed":
+      return patchEmbed(spatial(input), layer, warn);
+    case "transformer_block":
+      return transformerBlock(spatial(input), layer);
+    case "dropout":
+    case "activation":
+    case "identity":
+      return { output: input, params: 0, macs: 0, ops: 0 };
+    default:
+      warn("unknown layer type, treated as identity");
+      return { output: input, params: 0, macs: 0, ops: 0 };
+  }
+}
+
+// Standard convolution; bias unless `use_bias: false`
+function conv(
+  input: TensorShape,
+  filters: number,
+  kernel: number,
+  options: ConvOptions,
+  warn: (message: string) => void,
+): LayerCost {
+  const c = input[2];
+  const [oh, ow] = convOutput(input, kernel, options, warn);
+  const bias = options.use_bias === false ? 0 : filters;
+  return {
+    output: [oh, ow, filters],
+    params: kernel * kernel * c * filters + bias,
+    macs: oh * ow * kernel * kernel * c * filters,
+    ops: 0,
+  };
+}
+
+function depthwiseConv(
+  input: TensorShape,
+  kernel: number,
+  options: ConvOptions,
+  warn: (message: string) => void,
+): LayerCost {
+  const channels = input[2] * (options.depth_multiplier || 1);
+  const [oh, ow] = convOutput(input, kernel, options, warn);
+  const bias = options.use_bias === false ? 0 : channels;
+  return {
+    output: [oh, ow, channels],
+    params: kernel * kernel * channels + bias,
+    macs: oh * ow * kernel * kernel * channels,
+    ops: 0,
+  };
+}
+
+// Output height/width for "same" (default) or "valid" padding. A "valid"
+// window larger than the input is shrunk to the input.
+function convOutput(
+  [h, w]: TensorShape,
+  kernel: number,
+  { stride = 1, padding = "same" }: ConvOptions,
+  warn: (message: string) => void,
+): [number, number] {
+  if (padding === "same") {
+    return [Math.ceil(h / stride), Math.ceil(w / stride)];
+  }
+  if (kernel > Math.min(h, w)) {
+    warn(`kernel ${kernel} exceeds the ${h}x${w} input, clamped`);
+  }
+  return [
+    Math.floor((h - Math.min(kernel, h)) / stride) + 1,
+    Math.floor((w - Math.min(kernel, w)) / stride) + 1,
+  ];
+}
+
+// Pooling defaults to a 2x2 window with stride equal to the window. Inputs
+// already smaller than the window pass through unchanged.
+function pool(
+  input: TensorShape,
+  layer: LayerSpec,
+  warn: (message: string) => void,
+): LayerCost {
+  const [h, w, c] = input;
+  const window = layer.pool_size || 2;
+  if (window > Math.min(h, w)) {
+    warn(`pool ${window} exceeds the ${h}x${w} input, skipped`);
+    return { output: input, params: 0, macs: 0, ops: 0 };
+  }
+  const [oh, ow] = convOutput(
+    input,
+    window,
+    { stride: layer.stride || window, padding: layer.padding || "valid" },
+    warn,
+  );
+  return {
+    output: [oh, ow, c],
+    params: 0,
+    macs: 0,
+    ops: oh * ow * c * window * window,
+  };
+}
+
+// Gamma, beta and the two running statistics per channel
+function batchNorm(input: TensorShape): LayerCost {
+  const channels = input[input.length - 1];
+  return { output: input, params: 4 * channels, macs: 0, ops: 2 * size(input) };
+}
+
+// Global pool, bottleneck MLP and channel-wise gating
+function squeezeExcite(input: TensorShape, ratio: number): LayerCost {
+  const [h, w, c] = input;
+  const reduced = Math.max(1, Math.floor(c * ratio));
+  return {
+    output: input,
+    params: c * reduced + reduced + reduced * c + c,
+    macs: 2 * c * reduced,
+    ops: 2 * h * w * c,
+  };
+}
+
+// MobileNetV2 inverted residual: 1x1 expand, depthwise, optional SE, 1x1
+// linear projection, each followed by batch norm
+function mbConv(
+  input: TensorShape,
+  layer: LayerSpec,
+  warn: (message: string) => void,
+): LayerCost {
+  const filters = layer.filters || 32;
+  const expansion = layer.expansion ?? 6;
+  const stride = layer.stride || 1;
+  const expanded = input[2] * expansion;
+
+  let cost: LayerCost = { output: input, params: 0, macs: 0, ops: 0 };
+  if (expansion !== 1) {
+    cost = chain(cost, conv(input, expanded, 1, { use_bias: false }, warn));
+    cost = chain(cost, batchNorm(cost.output));
+  }
+  cost = chain(
+    cost,
+    depthwiseConv(
+      cost.output,
+      layer.kernel_size || 3,
+      { stride, use_bias: false },
+      warn,
+    ),
+  );
+  cost = chain(cost, batchNorm(cost.output));
+  if (layer.se_ratio) {
+    // SE width is relative to the block input, as in EfficientNet
+    cost = chain(
+      cost,
+      squeezeExcite(cost.output, (input[2] * layer.se_ratio) / expanded),
+    );
+  }
+  cost = chain(cost, conv(cost.output, filters, 1, { use_bias: false }, warn));
+  cost = chain(cost, batchNorm(cost.output));
+
+  if (stride === 1 && input[2] === filters) {
+    cost = { ...cost, ops: cost.ops + size(cost.output) };
+  }
+  return cost;
+}
+
+// One ResNet block: two 3x3 convolutions (basic) or 1x1-3x3-1x1 with 4x
+// expansion (bottleneck), plus a projection shortcut when shapes change
+function residualBlock(
+  input: TensorShape,
+  layer: LayerSpec,
+  stride: number,
+  warn: (message: string) => void,
+): LayerCost {
+  const filters = layer.filters || 64;
+  const noBias = { use_bias: false };
+  const outChannels = layer.bottleneck ? filters * 4 : filters;
+
+  let cost: LayerCost = { output: input, params: 0, macs: 0, ops: 0 };
+  const convBn = (channels: number, kernel: number, s = 1) => {
+    cost = chain(
+      cost,
+      conv(cost.output, channels, kernel, { ...noBias, stride: s }, warn),
+    );
+    cost = chain(cost, batchNorm(cost.output));
+  };
+
+  if (layer.bottleneck) {
+    convBn(filters, 1);
+    convBn(filters, 3, stride);
+    convBn(outChannels, 1);
+  } else {
+    convBn(filters, 3, stride);
+    convBn(filters, 3);
+  }
+
+  if (stride !== 1 || input[2] !== outChannels) {
+    const projection = conv(input, outChannels, 1, { ...noBias, stride }, warn);
+    const norm = batchNorm(projection.output);
+    cost = {
+      ...cost,
+      params: cost.params + projection.params + norm.params,
+      macs: cost.macs + projection.macs,
+      ops: cost.ops + norm.ops,
+    };
+  }
+  return { ...cost, ops: cost.ops + size(cost.output) };
+}
+
+// Applies `next` after `first`, accumulating their costs
+function chain(first: LayerCost, next: LayerCost): LayerCost {
+  return {
+    output: next.output,
+    params: first.params + next.params,
+    macs: first.macs + next.macs,
+    ops: first.ops + next.ops,
+  };
+}
+
+function spatial(shape: TensorShape): TensorShape {
+  return shape.length === 3 ? shape : [1, 1, size(shape)];
+}
+
+function size(shape: TensorShape): number {
+  return shape.reduce((product, d) => product * d, 1);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
+
+// ViT patchify: a conv with kernel and stride equal to the patch size, plus
+// a learned position embedding per token
+function patchEmbed(
+  input: TensorShape,
+  layer: LayerSpec,
+  warn: (message: string) => void,
+): LayerCost {
+  const patch = layer.patch_size || 16;
+  const projection = conv(
+    input,
+    layer.dim || 192,
+    patch,
+    { stride: patch, padding: "valid" },
+    warn,
+  );
+  const [h, w, dim] = projection.output;
+  return { ...projection, params: projection.params + h * w * dim };
+}
+
+// Pre-norm encoder block over the h*w tokens: multi-head self-attention and
+// an MLP, each with a residual connection
+function transformerBlock(input: TensorShape, layer: LayerSpec): LayerCost {
+  const [h, w, dim] = input;
+  const tokens = h * w;
+  const heads = layer.heads || 3;
+  const hidden = Math.round(dim * (layer.mlp_ratio || 4));
+  const norms = 2 * (2 * dim);
+  const attention = 3 * dim * dim + 3 * dim + dim * dim + dim;
+  const mlp = dim * hidden + hidden + hidden * dim + dim;
+  return {
+    output: input,
+    params: norms + attention + mlp,
+    // Projections, the QK^T and attention-weighted V products, and the MLP
+    macs:
+      tokens * 4 * dim * dim +
+      2 * tokens * tokens * dim +
+      2 * tokens * dim * hidden,
+    // Norms and residual adds, plus the attention softmax
+    ops: 6 * tokens * dim + 3 * heads * tokens * tokens,
+  };
+}
@@ -0,0 +1,43 @@
+import { bayesianStrategy } from "./bayesian";
+import { gradientStrategy } from "./darts";
+import { evolutionaryStrategy } from "./evolutionary";
+import { hyperbandStrategy } from "./hyperband";
+import { nsga2Strategy } from "./nsga2";
+import { randomStrategy } from "./randomSearch";
+import { reinforcementStrategy } from "./reinforce";
+import { resumeSearch, SearchStrategy } from "./searchRunner";
+import { getSearchJobStore } from "./searchStore";
+import { SearchAlgorithm, SearchMode } from "./types";
+
+// Registry of search strategies driven by the generic search runner
+// Built by Shaurya Upadhyay
+
+const STRATEGIES: Record<SearchAlgorithm, SearchStrategy> = {
+  evolutionary: evolutionaryStrategy,
+  bayesian: bayesianStrategy,
+  gradient: gradientStrategy,
+  reinforcement: reinforcementStrategy,
+  random: randomStrategy,
+  hyperband: hyperbandStrategy,
+};
+
+export function getSearchStrategy(
+  algorithm: SearchAlgorithm,
+  mode: SearchMode = "single_objective",
+): SearchStrategy {
+  return mode === "nsga2" ? nsga2Strategy : STRATEGIES[algorithm];
+}
+
+/**
+ * Picks up the searches a previous process left running, each from its
+ * last recorded generation. Returns their ids.
+ */
+export async function resumeInterruptedSearches(): Promise<string[]> {
+  const store = await getSearchJobStore();
+  const searchIds = await store.findByStatus("running");
+  for (const searchId of searchIds) {
+    const job = await store.get(searchId);
+    if (job) resumeSearch(searchId, getSearchStrategy(job.algorithm, job.mode));
+  }
+  return searchIds;
+}
@@ -0,0 +1,137 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import { startSearch } from "./searchRunner";
+import {
+  createSearchJob,
+  getSearchJobStore,
+  MemorySearchJobStore,
+  setSearchJobStore,
+} from "./searchStore";
+import { getSearchStrategy } from "./strategies";
+import {
+  encodeLayers,
+  formatCellEncoding,
+  loadTabularBenchmark,
+  parseCellEncoding,
+  registerBenchmark,
+  TabularBenchmark,
+} from "./tabularBenchmark";
+import { SearchAlgorithm } from "./types";
+
+// Per-edge contribution of each operation to the synthetic accuracy
+const QUALITY: Record<string, number> = {
+  none: 0,
+  skip_connect: 0.3,
+  avg_pool_3x3: 0.4,
+  nor_conv_1x1: 0.7,
+  nor_conv_3x3: 1,
+};
+const OPS = Object.keys(QUALITY);
+
+// Every 6-edge cell with a deterministic accuracy, in percent as in
+// NAS-Bench-201 exports
+function syntheticCsv(): string {
+  const lines = ["arch_str,accuracy,params,latency"];
+  for (let i = 0; i < OPS.length ** 6; i++) {
+    const ops = Array.from(
+      { length: 6 },
+      (_, edge) => OPS[Math.floor(i / OPS.length ** edge) % OPS.length],
+    );
+    const quality = ops.reduce((sum, op) => sum + QUALITY[op], 0);
+    const convs = ops.filter((op) => op.startsWith("nor_conv")).length;
+    lines.push(
+      `${formatCellEncoding(ops)},${60 + 5 * quality},${100000 + convs * 50000},${1 + convs * 0.5}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+describe("tabularBenchmark", () => {
+  let benchmark: TabularBenchmark;
+
+  beforeAll(async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "nas-benchmark-"));
+    const file = path.join(dir, "synthetic.csv");
+    await writeFile(file, syntheticCsv());
+    benchmark = await loadTabularBenchmark(file);
+    registerBenchmark(benchmark);
+  });
+
+  beforeEach(() => {
+    setSearchJobStore(new MemorySearchJobStore());
+  });
+
+  it("should load every cell and convert percentages", () => {
+    expect(benchmark.name).toBe("synthetic");
+    expect(benchmark.size).toBe(15625);
+    expect(benchmark.edges).toBe(6);
+    expect(benchmark.best().accuracy).toBeCloseTo(0.9);
+  });
+
+  it("should round-trip cell strings through layers", () => {
+    const encoding =
+      "|nor_conv_3x3~0|+|none~0|skip_connect~1|+|nor_conv_1x1~0|avg_pool_3x3~1|nor_conv_3x3~2|";
+    const ops = parseCellEncoding(encoding);
+    expect(formatCellEncoding(ops)).toBe(encoding);
+
+    const layers = [
+      { type: "conv2d", kernel_size: 3 },
+      { type: "zero" },
+      { type: "identity" },
+      { type: "conv2d", kernel_size: 1 },
+      { type: "avg_pool", pool_size: 3 },
+      { type: "conv2d", kernel_size: 3 },
+    ];
+    expect(encodeLayers(layers, 6)).toBe(encoding);
+    expect(encodeLayers(layers.slice(1), 6)).toBeNull();
+    expect(benchmark.lookup(layers)!.accuracy).toBeCloseTo(0.6 + 0.05 * 3.4);
+  });
+
+  const algorithms: SearchAlgorithm[] = ["random", "evolutionary", "bayesian"];
+
+  it.each(algorithms)(
+    "should run a %s search on table lookups",
+    async (algorithm) => {
+      const spec = benchmark.searchSpace();
+      const job = createSearchJob({
+        searchId: algorithm,
+        algorithm,
+        searchSpace: { layers: [], spec },
+        constraints: {},
+        objectives: {
+          accuracy: { weight: 1 },
+          latency: { weight: 0 },
+          params: { weight: 0 },
+          energy: { weight: 0 },
+        },
+        budget: { maxEvaluations: 60, maxTime: 1, parallel: 4 },
+        seed: 7,
+        benchmark: benchmark.name,
+      });
+      const store = await getSearchJobStore();
+      await store.create(job);
+      await startSearch(job, getSearchStrategy(algorithm));
+
+      let current = await store.get(algorithm);
+      while (current!.status === "running") {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        current = await store.get(algorithm);
+      }
+
+      expect(current!.status).toBe("completed");
+      expect(current!.candidates.length).toBeGreaterThan(0);
+      for (const candidate of current!.candidates) {
+        expect(candidate.confidence).toBe(1);
+        expect(candidate.metrics.estimatedAccuracy).toBe(
+          benchmark.lookup(candidate.layers)!.accuracy,
+        );
+      }
+      const found = Math.max(
+        ...current!.candidates.map((c) => c.metrics.estimatedAccuracy),
+      );
+      expect(found).toBeGreaterThan(0.8);
+    },
+  );
+});
@@ -0,0 +1,297 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { SearchSpaceSpec } from "../../shared/searchSpace";
+import { ConstraintOutcome, checkMetrics } from "./constraints";
+import { fitnessFromMetrics } from "./evaluator";
+import {
+  ArchitectureMetrics,
+  Candidate,
+  LayerSpec,
+  SearchConstraints,
+} from "./types";
+
+// Tabular NAS benchmarks (NAS-Bench-201 style): every architecture of a cell
+// space mapped to measured accuracy, parameters and latency, so searches can
+// run offline with evaluations as table lookups
+// Built by Shaurya Upadhyay
+
+export interface BenchmarkEntry {
+  // Cell string, e.g. "|nor_conv_3x3~0|+|skip_connect~0|none~1|+|..."
+  encoding: string;
+  // Fraction; tables in percent are converted on load
+  accuracy: number;
+  params: number;
+  // Milliseconds per image
+  latency: number;
+  flops?: number;
+}
+
+// Layer each NAS-Bench-201 operation stands for; other op names map to a
+// layer of that type
+const OP_LAYERS: Record<string, LayerSpec> = {
+  none: { type: "zero" },
+  skip_connect: { type: "identity" },
+  nor_conv_1x1: { type: "conv2d", kernel_size: 1 },
+  nor_conv_3x3: { type: "conv2d", kernel_size: 3 },
+  avg_pool_3x3: { type: "avg_pool", pool_size: 3 },
+};
+
+export class TabularBenchmark {
+  private entries = new Map<string, BenchmarkEntry>();
+  // Operation names in first-seen order, and edges per cell
+  readonly ops: string[] = [];
+  readonly edges: number;
+
+  constructor(
+    readonly name: string,
+    readonly dataset: string,
+    entries: BenchmarkEntry[],
+  ) {
+    if (entries.length === 0) {
+      throw new Error(`Benchmark "${name}" has no entries`);
+    }
+    this.edges = parseCellEncoding(entries[0].encoding).length;
+    for (const entry of entries) {
+      const ops = parseCellEncoding(entry.encoding);
+      if (ops.length !== this.edges) {
+        throw new Error(
+          `Benchmark "${name}": "${entry.encoding}" has ${ops.length} edges, expected ${this.edges}`,
+        );
+      }
+      for (const op of ops) if (!this.ops.includes(op)) this.ops.push(op);
+      this.entries.set(formatCellEncoding(ops), entry);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  lookup(layers: LayerSpec[]): BenchmarkEntry | undefined {
+    const encoding = encodeLayers(layers, this.edges);
+    return encoding ? this.entries.get(encoding) : undefined;
+  }
+
+  /** Highest accuracy in the table, for measuring a search's regret. */
+  best(): BenchmarkEntry {
+    return [...this.entries.values()].reduce((a, b) =>
+      b.accuracy > a.accuracy ? b : a,
+    );
+  }
+
+  /** The cell space the table covers: one operation per edge. */
+  searchSpace(): SearchSpaceSpec {
+    const choices = this.ops.map((op) => {
+      const { type, ...params } = opLayer(op);
+      return { type, params };
+    });
+    return {
+      version: 1,
+      stages: [
+        {
+          kind: "cell",
+          slots: Array.from({ length: this.edges }, () => choices),
+          repeat: { min: 1, max: 1 },
+        },
+      ],
+      training: {
+        optimizer: "sgd",
+        learningRate: 0.1,
+        batchSize: 256,
+      },
+    };
+  }
+
+  /**
+   * Candidate with its measured metrics, or null when the table has no row
+   * for its layers (e.g. after a mutation changed the depth).
+   */
+  evaluate(candidate: Candidate): Candidate | null {
+    const entry = this.lookup(candidate.layers);
+    if (!entry) return null;
+    const metrics = entryMetrics(entry);
+    return {
+      ...candidate,
+      score: fitnessFromMetrics(metrics),
+      estimatedParams: metrics.parameterCount,
+      estimatedLatency: metrics.estimatedLatency,
+      confidence: 1,
+      metrics,
+    };
+  }
+}
+
+/**
+ * Benchmark-mode counterpart of enforceConstraints: measured architectures
+ * cannot be repaired, so violations and missing rows both reject.
+ */
+export function lookupOutcome(
+  candidate: Candidate,
+  constraints: SearchConstraints,
+  benchmark: TabularBenchmark,
+): ConstraintOutcome & { missing: boolean } {
+  const evaluated = benchmark.evaluate(candidate);
+  if (!evaluated) {
+    return {
+      candidate: null,
+      violations: [],
+      repaired: false,
+      rejection: [],
+      missing: true,
+    };
+  }
+  const violations = checkMetrics(evaluated.metrics, constraints);
+  return {
+    candidate: violations.length === 0 ? evaluated : null,
+    violations,
+    repaired: false,
+    ...(violations.length > 0 ? { rejection: violations } : {}),
+    missing: false,
+  };
+}
+
+/** Edge operations of a "|op~0|+|op~0|op~1|+|..." cell string, in order. */
+export function parseCellEncoding(encoding: string): string[] {
+  return encoding
+    .split("+")
+    .flatMap((node) => node.split("|").filter(Boolean))
+    .map((edge) => edge.split("~")[0]);
+}
+
+/** Inverse of parseCellEncoding; node i receives edges from nodes 0..i-1. */
+export function formatCellEncoding(ops: string[]): string {
+  const nodes: string[] = [];
+  for (let node = 1, i = 0; i < ops.length; node++) {
+    const edges = ops.slice(i, i + node).map((op, from) => `${op}~${from}`);
+    nodes.push(`|${edges.join("|")}|`);
+    i += node;
+  }
+  return nodes.join("+");
+}
+
+export function encodeLayers(
+  layers: LayerSpec[],
+  edges: number,
+): string | null {
+  if (layers.length !== edges) return null;
+  const ops = layers.map(layerOp);
+  return ops.every((op) => op !== null) ? formatCellEncoding(ops) : null;
+}
+
+/** Parses a JSON (array or `{ entries }`) or CSV benchmark file. */
+export async function loadTabularBenchmark(
+  file: string,
+  options: { name?: string; dataset?: string } = {},
+): Promise<TabularBenchmark> {
+  const text = await readFile(file, "utf8");
+  const name = options.name ?? path.basename(file).replace(/\.\w+$/, "");
+  let dataset = options.dataset;
+  let rows: Record<string, any>[];
+
+  if (file.endsWith(".csv")) {
+    rows = parseCsv(text);
+  } else {
+    const parsed = JSON.parse(text);
+    rows = Array.isArray(parsed) ? parsed : parsed.entries;
+    dataset = dataset ?? parsed.dataset;
+  }
+
+  const entries = rows.map((row) => ({
+    encoding: String(row.encoding ?? row.arch_str),
+    accuracy: Number(row.accuracy),
+    params: Number(row.params),
+    latency: Number(row.latency),
+    ...(row.flops !== undefined && row.flops !== ""
+      ? { flops: Number(row.flops) }
+      : {}),
+  }));
+  if (entries.some((e) => e.accuracy > 1)) {
+    for (const entry of entries) entry.accuracy /= 100;
+  }
+  return new TabularBenchmark(name, dataset ?? "cifar10", entries);
+}
+
+// Benchmarks loaded from NAS_BENCHMARK_DIR, by name
+const loaded = new Map<string, Promise<TabularBenchmark>>();
+
+/**
+ * Loads `<name>.json` or `<name>.csv` from NAS_BENCHMARK_DIR (default
+ * data/benchmarks) once per process.
+ */
+export function loadNamedBenchmark(name: string): Promise<TabularBenchmark> {
+  if (!/^[\w.-]+$/.test(name)) {
+    return Promise.reject(new Error(`Invalid benchmark name "${name}"`));
+  }
+  if (!loaded.has(name)) {
+    const dir =
+      process.env.NAS_BENCHMARK_DIR ||
+      path.join(process.cwd(), "data", "benchmarks");
+    const load = loadTabularBenchmark(path.join(dir, `${name}.json`), {
+      name,
+    })
+      .catch((error) => {
+        if (error.code !== "ENOENT") throw error;
+        return loadTabularBenchmark(path.join(dir, `${name}.csv`), { name });
+      })
+      .catch((error) => {
+        loaded.delete(name);
+        throw error.code === "ENOENT"
+          ? new Error(`Benchmark "${name}" not found in ${dir}`)
+          : error;
+      });
+    loaded.set(name, load);
+  }
+  return loaded.get(name)!;
+}
+
+/** Makes an in-memory benchmark available under its name (tests, scripts). */
+export function registerBenchmark(benchmark: TabularBenchmark): void {
+  loaded.set(benchmark.name, Promise.resolve(benchmark));
+}
+
+function entryMetrics(entry: BenchmarkEntry): ArchitectureMetrics {
+  const millions = entry.params / 1000000;
+  return {
+    estimatedAccuracy: entry.accuracy,
+    estimatedLatency: entry.latency,
+    latencyByDevice: {},
+    parameterCount: entry.params,
+    flops: entry.flops ?? 0,
+    macs: (entry.flops ?? 0) / 2,
+    activationMemory: 0,
+    modelSize: Math.round(((entry.params * 4) / (1024 * 1024)) * 100) / 100,
+    efficiencyScore:
+      Math.round(((entry.accuracy * 100) / (millions + entry.latency)) * 100) /
+      100,
+  };
+}
+
+function opLayer(op: string): LayerSpec {
+  return OP_LAYERS[op] ?? { type: op };
+}
+
+function layerOp(layer: LayerSpec): string | null {
+  for (const [op, spec] of Object.entries(OP_LAYERS)) {
+    if (Object.entries(spec).every(([key, value]) => layer[key] === value)) {
+      return op;
+    }
+  }
+  return layer.type ?? null;
+}
+
+// Header row plus comma-separated values; cell strings contain no commas
+function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...lines] = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const columns = header.split(",").map(unquote);
+  return lines.map((line) => {
+    const values = line.split(",").map(unquote);
+    return Object.fromEntries(columns.map((c, i) => [c, values[i] ?? ""]));
+  });
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^"(.*)"$/, "$1");
+}
@@ -0,0 +1,64 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { BenchmarkRow } from "./benchmarks";
+import { TrainingSample } from "./predictor";
+
+// Read-only queries over stored experiments that the latency and accuracy
+// models are fitted on
+// Built by Shaurya Upadhyay
+
+/** Loads every benchmark row with its architecture from Supabase. */
+export async function loadBenchmarkRows(): Promise<BenchmarkRow[]> {
+  const { data, error } = await serverClient()
+    .from("performance_benchmarks")
+    .select(
+      "hardware_type, batch_size, inference_time_ms, neural_architectures(architecture_json, search_experiments(dataset, search_config))",
+    );
+  if (error) throw error;
+
+  return (data || []).map((row: any) => {
+    const architecture = row.neural_architectures;
+    return {
+      hardware_type: row.hardware_type,
+      batch_size: row.batch_size,
+      inference_time_ms: row.inference_time_ms,
+      architecture_json: architecture?.architecture_json ?? null,
+      dataset: experimentDataset(architecture?.search_experiments),
+    };
+  });
+}
+
+/** Trained architectures with a measured top-1 accuracy. */
+export async function loadTrainingSamples(): Promise<TrainingSample[]> {
+  const { data, error } = await serverClient()
+    .from("neural_architectures")
+    .select(
+      "architecture_json, top1_accuracy, search_experiments(dataset, search_config)",
+    )
+    .eq("status", "completed")
+    .not("top1_accuracy", "is", null);
+  if (error) throw error;
+
+  return (data || [])
+    .filter((row: any) => Array.isArray(row.architecture_json?.layers))
+    .map((row: any) => ({
+      layers: row.architecture_json.layers,
+      dataset: experimentDataset(row.search_experiments) ?? "imagenet",
+      // Stored as a percentage
+      accuracy: Number(row.top1_accuracy) / 100,
+    }));
+}
+
+function experimentDataset(experiment: any): string | undefined {
+  return experiment?.search_config?.dataset ?? experiment?.dataset;
+}
+
+function serverClient(): SupabaseClient {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error("Model fitting requires Supabase server credentials");
+  }
+  return createClient(
+    process.env.SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY,
+    { auth: { persistSession: false } },
+  );
+}
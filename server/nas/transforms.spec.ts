@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { estimateArchitectureMetrics } from "./evaluator";
+import {
+  planTransforms,
+  rewriteOptions,
+  transformArchitecture,
+} from "./transforms";
+import { LayerSpec } from "./types";
+
+const layers: LayerSpec[] = [
+  { type: "conv2d", filters: 128, kernel_size: 5 },
+  { type: "batch_norm" },
+  { type: "conv2d", filters: 256, kernel_size: 3 },
+  { type: "pooling" },
+  { type: "conv2d", filters: 256, kernel_size: 3 },
+  { type: "global_avg_pool" },
+  { type: "dense", units: 10 },
+];
+
+describe("transformArchitecture", () => {
+  it("should rewrite greedily until the parameter budget holds", () => {
+    const before = estimateArchitectureMetrics({ layers }, "cifar10");
+    const maxParams = Math.round(before.parameterCount / 4);
+    const result = transformArchitecture(
+      layers,
+      { maxParams },
+      planTransforms("cifar10"),
+    );
+
+    expect(result.satisfied).toBe(true);
+    expect(result.after.parameterCount).toBeLessThanOrEqual(maxParams);
+    expect(result.before.parameterCount).toBe(before.parameterCount);
+    expect(result.applied.length).toBeGreaterThan(0);
+    expect(result.applied[result.applied.length - 1].parameterCount).toBe(
+      result.after.parameterCount,
+    );
+    // The classifier keeps its class count
+    expect(result.layers[result.layers.length - 1]).toEqual({
+      type: "dense",
+      units: 10,
+    });
+  });
+
+  it("should find a deterministic beam-search result", () => {
+    const before = estimateArchitectureMetrics({ layers }, "cifar10");
+    const constraints = {
+      maxParams: Math.round(before.parameterCount / 3),
+      maxLatency: before.estimatedLatency / 2,
+    };
+    const run = () =>
+      transformArchitecture(
+        layers,
+        constraints,
+        planTransforms("cifar10", "beam"),
+      );
+    const first = run();
+
+    expect(first.satisfied).toBe(true);
+    expect(first.violations).toEqual([]);
+    expect(run()).toEqual(first);
+  });
+
+  it("should leave a satisfying architecture unchanged", () => {
+    const result = transformArchitecture(
+      layers,
+      { maxParams: 1e9 },
+      planTransforms("cifar10"),
+    );
+    expect(result.layers).toBe(layers);
+    expect(result.applied).toEqual([]);
+  });
+});
+
+describe("rewriteOptions", () => {
+  it("should offer every rewrite kind that applies", () => {
+    const kinds = new Set(rewriteOptions(layers).map((o) => o.rewrite));
+    expect([...kinds].sort()).toEqual([
+      "depth_reduction",
+      "kernel_shrinking",
+      "se_insertion",
+      "separable_conv",
+      "width_scaling",
+    ]);
+  });
+});
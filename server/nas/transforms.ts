@@ -0,0 +1,306 @@
+import { checkMetrics, ConstraintViolation } from "./constraints";
+import { estimateArchitectureMetrics } from "./evaluator";
+import { ArchitectureMetrics, LayerSpec, SearchConstraints } from "./types";
+
+// Constraint-driven architecture transformations: a library of rewrites
+// searched greedily or by beam search until the constraints hold
+// Built by Shaurya Upadhyay
+
+export type RewriteName =
+  | "width_scaling"
+  | "depth_reduction"
+  | "separable_conv"
+  | "kernel_shrinking"
+  | "se_insertion"
+  | "se_removal";
+
+/** One way a rewrite can change an architecture. */
+export interface RewriteOption {
+  rewrite: RewriteName;
+  detail: string;
+  layers: LayerSpec[];
+}
+
+export interface AppliedRewrite {
+  rewrite: RewriteName;
+  detail: string;
+  parameterCount: number;
+  estimatedLatency: number;
+  estimatedAccuracy: number;
+}
+
+export interface TransformOptions {
+  strategy: "greedy" | "beam";
+  beamWidth: number;
+  maxSteps: number;
+  dataset: string;
+  device?: string;
+}
+
+export interface TransformResult {
+  layers: LayerSpec[];
+  before: ArchitectureMetrics;
+  after: ArchitectureMetrics;
+  applied: AppliedRewrite[];
+  satisfied: boolean;
+  // Constraints still violated after the last rewrite
+  violations: ConstraintViolation[];
+}
+
+interface State {
+  layers: LayerSpec[];
+  metrics: ArchitectureMetrics;
+  violation: number;
+  applied: AppliedRewrite[];
+}
+
+const MIN_WIDTH = 8;
+const MIN_LAYERS = 2;
+const CONV_TYPES = ["conv2d", "depthwise_conv", "pointwise_conv", "mb_conv"];
+
+export function planTransforms(
+  dataset: string,
+  strategy: "greedy" | "beam" = "greedy",
+): TransformOptions {
+  return { strategy, beamWidth: 4, maxSteps: 20, dataset };
+}
+
+/** Every single-rewrite neighbour of an architecture. */
+export function rewriteOptions(layers: LayerSpec[]): RewriteOption[] {
+  // A trailing dense layer is the classifier; its width is the class count
+  const head =
+    layers[layers.length - 1]?.type === "dense" ? layers.length - 1 : -1;
+  const options: RewriteOption[] = [];
+  const replace = (i: number, layer: LayerSpec | null) =>
+    layer
+      ? layers.map((l, j) => (j === i ? layer : l))
+      : layers.filter((_, j) => j !== i);
+
+  for (const factor of [0.75, 0.5]) {
+    const scaled = layers.map((layer, i) =>
+      scaleWidth(layer, i === head ? 1 : factor),
+    );
+    if (JSON.stringify(scaled) !== JSON.stringify(layers)) {
+      options.push({
+        rewrite: "width_scaling",
+        detail: `Scaled filters and units by ${factor}`,
+        layers: scaled,
+      });
+    }
+  }
+
+  layers.forEach((layer, i) => {
+    const at = `layer ${i} (${layer.type})`;
+    if (i !== head && layers.length > MIN_LAYERS) {
+      if (layer.type === "residual_block" && (layer.blocks || 1) > 1) {
+        options.push({
+          rewrite: "depth_reduction",
+          detail: `Reduced ${at} to ${layer.blocks - 1} blocks`,
+          layers: replace(i, { ...layer, blocks: layer.blocks - 1 }),
+        });
+      } else if (
+        [...CONV_TYPES, "residual_block", "dense"].includes(layer.type)
+      ) {
+        options.push({
+          rewrite: "depth_reduction",
+          detail: `Removed ${at}`,
+          layers: replace(i, null),
+        });
+      }
+    }
+    if (
+      layer.type === "conv2d" &&
+      (layer.kernel_size || 3) > 1 &&
+      !layer.separable
+    ) {
+      options.push({
+        rewrite: "separable_conv",
+        detail: `Made ${at} depthwise-separable`,
+        layers: replace(i, { ...layer, separable: true }),
+      });
+    }
+    if (CONV_TYPES.includes(layer.type) && (layer.kernel_size || 3) > 3) {
+      options.push({
+        rewrite: "kernel_shrinking",
+        detail: `Shrank ${at} kernel to ${layer.kernel_size - 2}`,
+        layers: replace(i, { ...layer, kernel_size: layer.kernel_size - 2 }),
+      });
+    }
+    if (layer.type === "se_block") {
+      options.push({
+        rewrite: "se_removal",
+        detail: `Removed squeeze-excitation at ${at}`,
+        layers: replace(i, null),
+      });
+    } else if (layer.type === "mb_conv" && layer.se_ratio) {
+      const { se_ratio, ...withoutSe } = layer;
+      options.push({
+        rewrite: "se_removal",
+        detail: `Removed squeeze-excitation from ${at}`,
+        layers: replace(i, withoutSe as LayerSpec),
+      });
+    } else if (
+      CONV_TYPES.includes(layer.type) &&
+      layers[i + 1]?.type !== "se_block"
+    ) {
+      options.push({
+        rewrite: "se_insertion",
+        detail: `Inserted squeeze-excitation after ${at}`,
+        layers: [
+          ...layers.slice(0, i + 1),
+          { type: "se_block", reduction: 4 },
+          ...layers.slice(i + 1),
+        ],
+      });
+    }
+  });
+
+  return options;
+}
+
+/**
+ * Rewrites `layers` until the constraints hold. Greedy search takes the
+ * best neighbour while it reduces the total violation; beam search keeps
+ * the `beamWidth` best states per step and stops at the first depth where
+ * any state satisfies every constraint. States are ranked by violation,
+ * then estimated accuracy, then parameter count, so results are
+ * deterministic.
+ */
+export function transformArchitecture(
+  layers: LayerSpec[],
+  constraints: SearchConstraints,
+  options: TransformOptions,
+): TransformResult {
+  const start = toState(layers, [], constraints, options);
+  const best =
+    options.strategy === "beam"
+      ? beamSearch(start, constraints, options)
+      : greedySearch(start, constraints, options);
+
+  const violations = checkMetrics(best.metrics, constraints);
+  return {
+    layers: best.layers,
+    before: start.metrics,
+    after: best.metrics,
+    applied: best.applied,
+    satisfied: violations.length === 0,
+    violations,
+  };
+}
+
+function greedySearch(
+  start: State,
+  constraints: SearchConstraints,
+  options: TransformOptions,
+): State {
+  let current = start;
+  for (let step = 0; step < options.maxSteps && current.violation > 0; step++) {
+    const next = neighbours(current, constraints, options).sort(
+      compareStates,
+    )[0];
+    if (!next || next.violation >= current.violation) break;
+    current = next;
+  }
+  return current;
+}
+
+function beamSearch(
+  start: State,
+  constraints: SearchConstraints,
+  options: TransformOptions,
+): State {
+  let beam = [start];
+  let best = start;
+  const seen = new Set([key(start.layers)]);
+
+  for (let step = 0; step < options.maxSteps && best.violation > 0; step++) {
+    const expanded = beam
+      .flatMap((state) => neighbours(state, constraints, options))
+      .filter((state) => {
+        const k = key(state.layers);
+        if (seen.has(k)) return false;
+        seen.add(k);
+        return true;
+      })
+      .sort(compareStates);
+    if (expanded.length === 0) break;
+
+    beam = expanded.slice(0, options.beamWidth);
+    if (compareStates(beam[0], best) < 0) best = beam[0];
+  }
+  return best;
+}
+
+function neighbours(
+  state: State,
+  constraints: SearchConstraints,
+  options: TransformOptions,
+): State[] {
+  return rewriteOptions(state.layers).map((option) =>
+    toState(option.layers, state.applied, constraints, options, option),
+  );
+}
+
+function toState(
+  layers: LayerSpec[],
+  applied: AppliedRewrite[],
+  constraints: SearchConstraints,
+  options: TransformOptions,
+  rewrite?: RewriteOption,
+): State {
+  const metrics = estimateArchitectureMetrics(
+    { layers },
+    options.dataset,
+    options.device,
+  );
+  return {
+    layers,
+    metrics,
+    violation: totalViolation(checkMetrics(metrics, constraints)),
+    applied: rewrite
+      ? [
+          ...applied,
+          {
+            rewrite: rewrite.rewrite,
+            detail: rewrite.detail,
+            parameterCount: metrics.parameterCount,
+            estimatedLatency: metrics.estimatedLatency,
+            estimatedAccuracy: metrics.estimatedAccuracy,
+          },
+        ]
+      : applied,
+  };
+}
+
+// Sum of relative distances past each violated limit
+function totalViolation(violations: ConstraintViolation[]): number {
+  return violations.reduce(
+    (total, v) =>
+      total + Math.abs(v.actual - v.limit) / Math.max(Math.abs(v.limit), 1e-9),
+    0,
+  );
+}
+
+function compareStates(a: State, b: State): number {
+  return (
+    a.violation - b.violation ||
+    b.metrics.estimatedAccuracy - a.metrics.estimatedAccuracy ||
+    a.metrics.parameterCount - b.metrics.parameterCount ||
+    a.applied.length - b.applied.length
+  );
+}
+
+function scaleWidth(layer: LayerSpec, factor: number): LayerSpec {
+  if (factor === 1) return layer;
+  const scaled = { ...layer };
+  for (const field of ["filters", "units"]) {
+    if (typeof layer[field] === "number" && layer[field] > MIN_WIDTH) {
+      scaled[field] = Math.max(MIN_WIDTH, Math.round(layer[field] * factor));
+    }
+  }
+  return scaled;
+}
+
+function key(layers: LayerSpec[]): string {
+  return JSON.stringify(layers);
+}
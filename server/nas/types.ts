@@ -0,0 +1,145 @@
+import { SearchSpaceSpec } from "../../shared/searchSpace";
+
+/**
+ * Types shared by the architecture search engine.
+ * Layers stay loosely typed on purpose: the API accepts whatever layer
+ * dictionaries callers send and only the fields a given layer type uses are read.
+ */
+
+export type SearchAlgorithm =
+  | "evolutionary"
+  | "bayesian"
+  | "gradient"
+  | "reinforcement"
+  | "random"
+  | "hyperband";
+
+// How candidates are ranked: by scalar fitness, or by Pareto dominance over
+// the request objectives (evolutionary search only)
+export type SearchMode = "single_objective" | "nsga2";
+
+export interface LayerSpec {
+  type: string;
+  [key: string]: any;
+}
+
+export interface SearchSpace {
+  layers?: string[];
+  activations?: string[];
+  optimizers?: string[];
+  learningRates?: number[];
+  batchSizes?: number[];
+  // Validated DSL space; when present, sampling draws from it and the flat
+  // lists above are derived from it
+  spec?: SearchSpaceSpec;
+}
+
+export interface SearchConstraints {
+  maxParams?: number;
+  maxLatency?: number;
+  minAccuracy?: number;
+  maxMemory?: number;
+  energyBudget?: number;
+}
+
+export interface SearchObjectives {
+  accuracy: { weight: number; target?: number };
+  latency: { weight: number; target?: number };
+  params: { weight: number; target?: number };
+  energy: { weight: number; target?: number };
+}
+
+export interface SearchBudget {
+  maxEvaluations: number;
+  maxTime: number; // hours
+  parallel: number;
+  // Full training fidelity for multi-fidelity (hyperband) search, in epochs;
+  // search_experiments.max_epochs
+  maxEpochs?: number;
+  // Training compute limit, simulated from FLOPs unless evaluators measure it
+  maxGpuHours?: number;
+}
+
+// Which architectures of earlier searches seeded a search
+export type WarmStartSelection = "top_k" | "pareto";
+
+export interface WarmStartSource {
+  // searchIds of the earlier searches
+  experiments: string[];
+  select: WarmStartSelection;
+  k: number;
+  // Ids of the architectures that seeded the initial batch
+  seeds: string[];
+  // Earlier evaluations the surrogate was pre-fitted with (bayesian only)
+  observations: number;
+}
+
+export interface ArchitectureMetrics {
+  estimatedAccuracy: number;
+  // 90% interval, present when the learned accuracy predictor is trained
+  accuracyInterval?: { lower: number; upper: number };
+  estimatedLatency: number;
+  // Roofline latency on every registered device profile, in ms
+  latencyByDevice: Record<string, number>;
+  parameterCount: number;
+  flops: number;
+  macs: number;
+  // Peak activation memory of a single-image forward pass, in MB
+  activationMemory: number;
+  modelSize: number;
+  efficiencyScore: number;
+}
+
+// How an evolved candidate was bred from its parents; crossover children
+// are mutated afterwards too
+export type LineageOperator = "crossover" | "mutation";
+
+export interface Candidate {
+  id: string;
+  // architectureHash of the evaluated architecture; set by the search runner
+  hash?: string;
+  layers: LayerSpec[];
+  optimizer: string;
+  learningRate: number;
+  batchSize: number;
+  score: number;
+  estimatedParams: number;
+  estimatedLatency: number;
+  confidence: number;
+  generation?: number;
+  metrics?: ArchitectureMetrics;
+  // 1 = non-dominated; set by multi-objective (NSGA-II) search
+  paretoRank?: number;
+  // Set by evolutionary search on bred candidates; absent on sampled ones
+  parentIds?: string[];
+  operator?: LineageOperator;
+  // Training epochs the score was measured at; absent for full-fidelity
+  // estimates. Set by hyperband search.
+  fidelity?: number;
+  // GPU-hours the evaluation used; set by evaluators that train, otherwise
+  // simulated by the search runner
+  gpuHours?: number;
+}
+
+// Successive-halving rung a generation evaluated (hyperband search only)
+export interface FidelityRung {
+  bracket: number;
+  rung: number;
+  epochs: number;
+  evaluated: number;
+  // Candidates promoted to the bracket's next rung
+  promoted: string[];
+}
+
+export interface GenerationRecord {
+  generation: number;
+  evaluations: number;
+  bestScore: number;
+  meanScore: number;
+  convergence: number;
+  mutationRate?: number; // evolutionary search only
+  rung?: FidelityRung; // hyperband search only
+  timeElapsed: number; // hours spent running, pauses excluded
+  gpuHours?: number; // cumulative
+  bestCandidateId: string;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { startSearch } from "./searchRunner";
+import {
+  createSearchJob,
+  getSearchJobStore,
+  MemorySearchJobStore,
+  SearchJob,
+  setSearchJobStore,
+} from "./searchStore";
+import { getSearchStrategy } from "./strategies";
+import { SearchAlgorithm } from "./types";
+import {
+  loadWarmStart,
+  parseWarmStartRequest,
+  WarmStartError,
+} from "./warmStart";
+
+function job(searchId: string, algorithm: SearchAlgorithm, dataset?: string) {
+  return createSearchJob({
+    searchId,
+    algorithm,
+    searchSpace: { layers: ["conv2d", "depthwise_conv", "dense", "pooling"] },
+    constraints: {},
+    objectives: {
+      accuracy: { weight: 1 },
+      latency: { weight: 0 },
+      params: { weight: 0 },
+      energy: { weight: 0 },
+    },
+    budget: { maxEvaluations: 16, maxTime: 1, parallel: 2 },
+    seed: 11,
+    dataset,
+  });
+}
+
+async function run(search: SearchJob, currentBest?: any[]) {
+  const store = await getSearchJobStore();
+  await store.create(search);
+  await startSearch(search, getSearchStrategy(search.algorithm), currentBest);
+  while ((await store.get(search.searchId)).status === "running") {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  return store.get(search.searchId);
+}
+
+describe("loadWarmStart", () => {
+  beforeEach(async () => {
+    setSearchJobStore(new MemorySearchJobStore());
+    await run(job("nas_warm_source", "random"));
+  });
+
+  it("should seed an evolutionary search with the source's best architectures", async () => {
+    const store = await getSearchJobStore();
+    const best = (await store.listEvaluated("nas_warm_source"))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 3);
+    const next = job("nas_warm_evolutionary", "evolutionary");
+    const warmStart = await loadWarmStart(
+      store,
+      parseWarmStartRequest({ experiments: ["nas_warm_source"], k: 3 }),
+      next,
+    );
+    expect(warmStart.source).toMatchObject({
+      experiments: ["nas_warm_source"],
+      select: "top_k",
+      seeds: best.map((c) => c.id),
+    });
+
+    next.warmStart = warmStart.source;
+    await run(next, warmStart.seeds);
+    const initial = (await store.listEvaluated(next.searchId))
+      .filter((c) => c.generation === 0)
+      .map((c) => c.hash);
+    expect(initial).toEqual(expect.arrayContaining(best.map((c) => c.hash)));
+    expect((await store.get(next.searchId)).warmStart).toEqual(
+      warmStart.source,
+    );
+  });
+
+  it("should pre-fit the bayesian surrogate with every source evaluation", async () => {
+    const store = await getSearchJobStore();
+    const next = job("nas_warm_bayesian", "bayesian");
+    const warmStart = await loadWarmStart(
+      store,
+      parseWarmStartRequest(["nas_warm_source"]),
+      next,
+    );
+    const sourceEvaluations = (await store.get("nas_warm_source")).evaluations;
+    expect(warmStart.source.observations).toBe(sourceEvaluations);
+
+    const finished = await run(next, warmStart.observations);
+    expect(finished.checkpoint.observations).toHaveLength(
+      sourceEvaluations + finished.evaluations,
+    );
+  });
+
+  it("should reject unknown searches and searches on another dataset", async () => {
+    const store = await getSearchJobStore();
+    const request = parseWarmStartRequest(["nas_warm_source"]);
+
+    await expect(
+      loadWarmStart(
+        store,
+        request,
+        job("nas_warm_cifar", "evolutionary", "cifar10"),
+      ),
+    ).rejects.toThrow("ran on imagenet, not cifar10");
+    await expect(
+      loadWarmStart(
+        store,
+        parseWarmStartRequest(["nas_missing"]),
+        job("nas_warm_missing", "evolutionary"),
+      ),
+    ).rejects.toThrow(WarmStartError);
+    expect(() => parseWarmStartRequest([])).toThrow(WarmStartError);
+  });
+});
@@ -0,0 +1,133 @@
+import { paretoFront } from "./pareto";
+import { topCandidates } from "./searchRunner";
+import { SearchJob, SearchJobStore } from "./searchStore";
+import { Candidate, WarmStartSelection, WarmStartSource } from "./types";
+
+// Warm starts: seeds a new search with the best architectures of earlier
+// searches, and the bayesian surrogate with everything they evaluated
+// Built by Shaurya Upadhyay
+
+export const DEFAULT_WARM_START_K = 10;
+
+const SELECTIONS: WarmStartSelection[] = ["top_k", "pareto"];
+
+export interface WarmStartRequest {
+  experiments: string[];
+  // Defaults to "pareto" for NSGA-II searches, "top_k" otherwise
+  select?: WarmStartSelection;
+  k?: number;
+}
+
+export interface WarmStart {
+  // Architectures for the initial batch; they are evaluated again
+  seeds: Pick<
+    Candidate,
+    "id" | "layers" | "optimizer" | "learningRate" | "batchSize"
+  >[];
+  // Full-fidelity evaluations of the earlier searches, one per architecture
+  observations: Candidate[];
+  source: WarmStartSource;
+}
+
+/** Raised when `warmStartFrom` is malformed or names an unusable search. */
+export class WarmStartError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WarmStartError";
+  }
+}
+
+/**
+ * Accepts a list of searchIds or `{ experiments, select?, k? }`.
+ * Throws WarmStartError when the value is neither.
+ */
+export function parseWarmStartRequest(input: unknown): WarmStartRequest {
+  const request = (Array.isArray(input) ? { experiments: input } : input) as
+    | WarmStartRequest
+    | undefined;
+  const { experiments, select, k } = request ?? ({} as WarmStartRequest);
+
+  if (
+    !Array.isArray(experiments) ||
+    experiments.length === 0 ||
+    !experiments.every((id) => typeof id === "string")
+  ) {
+    throw new WarmStartError(
+      "warmStartFrom must list at least one experiment searchId",
+    );
+  }
+  if (select !== undefined && !SELECTIONS.includes(select)) {
+    throw new WarmStartError(
+      `warmStartFrom.select must be one of ${SELECTIONS.join(", ")}`,
+    );
+  }
+  if (k !== undefined && !(Number.isInteger(k) && k > 0)) {
+    throw new WarmStartError("warmStartFrom.k must be a positive integer");
+  }
+  return { experiments: [...new Set(experiments)], select, k };
+}
+
+/**
+ * Reads the evaluations of the requested searches and picks the seeds:
+ * their `k` best architectures, or the first `k` of their joint Pareto
+ * front under the new job's objectives. Scores only carry over between
+ * searches on the same dataset and benchmark, so others are rejected.
+ */
+export async function loadWarmStart(
+  store: SearchJobStore,
+  request: WarmStartRequest,
+  job: SearchJob,
+): Promise<WarmStart> {
+  const select = request.select ?? (job.mode === "nsga2" ? "pareto" : "top_k");
+  const k = request.k ?? DEFAULT_WARM_START_K;
+
+  const evaluated: Candidate[] = [];
+  for (const searchId of request.experiments) {
+    const source = await store.get(searchId);
+    if (!source) {
+      throw new WarmStartError(`Search not found: ${searchId}`);
+    }
+    if (source.dataset !== job.dataset || source.benchmark !== job.benchmark) {
+      throw new WarmStartError(
+        `Search ${searchId} ran on ${problem(source)}, not ${problem(job)}`,
+      );
+    }
+    evaluated.push(...(await store.listEvaluated(searchId)));
+  }
+
+  // Low-fidelity hyperband scores are not comparable to full evaluations
+  const seen = new Set<string>();
+  const observations = evaluated.filter((c) => {
+    const key = c.hash ?? c.id;
+    if (c.fidelity !== undefined || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const chosen =
+    select === "pareto"
+      ? paretoFront(observations, job.objectives).slice(0, k)
+      : topCandidates(observations, k);
+
+  return {
+    seeds: chosen.map(({ id, layers, optimizer, learningRate, batchSize }) => ({
+      id,
+      layers,
+      optimizer,
+      learningRate,
+      batchSize,
+    })),
+    observations,
+    source: {
+      experiments: request.experiments,
+      select,
+      k,
+      seeds: chosen.map((c) => c.id),
+      observations: job.algorithm === "bayesian" ? observations.length : 0,
+    },
+  };
+}
+
+function problem(job: SearchJob): string {
+  return job.benchmark ? `benchmark ${job.benchmark}` : job.dataset;
+}
@@ -1,8 +1,11 @@
 import path from "path";
-import { createServer } from "./index";
+import { createServer, startSearchRunner } from "./index";
 import * as express from "express";
 
 const app = createServer();
+startSearchRunner().catch((error) =>
+  console.error("Could not start the search runner:", error),
+);
 const port = process.env.PORT || 3000;
 
 // In production, serve the built SPA files
@@ -0,0 +1,396 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "vitest";
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { SearchProgressEvent } from "../../shared/api";
+import { createServer, startSearchRunner } from "../index";
+import { enforceConstraints } from "../nas/constraints";
+import {
+  EvaluationCancelledError,
+  EvaluationPool,
+  EvaluationTask,
+  getEvaluationPool,
+  setEvaluationPool,
+} from "../nas/evaluationPool";
+import { cancelSearch } from "../nas/searchRunner";
+import {
+  getSearchJobStore,
+  MemorySearchJobStore,
+  setSearchJobStore,
+} from "../nas/searchStore";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer().listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+function startRequest(maxEvaluations: number, overrides: object = {}) {
+  return {
+    algorithm: "random",
+    searchSpace: { layers: ["conv2d", "depthwise_conv", "dense", "pooling"] },
+    constraints: {},
+    objectives: {
+      accuracy: { weight: 1 },
+      latency: { weight: 0 },
+      params: { weight: 0 },
+      energy: { weight: 0 },
+    },
+    budget: { maxEvaluations, maxTime: 1, parallel: 4 },
+    seed: 7,
+    ...overrides,
+  };
+}
+
+async function startSearch(
+  maxEvaluations: number,
+  overrides?: object,
+): Promise<string> {
+  const response = await fetch(`${baseUrl}/api/optimization`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(startRequest(maxEvaluations, overrides)),
+  });
+  expect(response.status).toBe(200);
+  return (await response.json()).searchId;
+}
+
+function updateSearch(searchId: string, action: string, parameters: object) {
+  return fetch(`${baseUrl}/api/optimization?searchId=${searchId}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, parameters }),
+  });
+}
+
+function stopSearch(searchId: string) {
+  return fetch(`${baseUrl}/api/optimization?searchId=${searchId}`, {
+    method: "DELETE",
+  });
+}
+
+/** Reads the search's event stream, calling `onEvent` as events arrive. */
+async function readEvents(
+  searchId: string,
+  onEvent: (event: SearchProgressEvent) => void = () => {},
+): Promise<SearchProgressEvent[]> {
+  const response = await fetch(
+    `${baseUrl}/api/optimization/${searchId}/events`,
+  );
+  expect(response.headers.get("content-type")).toContain("text/event-stream");
+
+  const events: SearchProgressEvent[] = [];
+  const decoder = new TextDecoder();
+  let buffered = "";
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const blocks = buffered.split("\n\n");
+    buffered = blocks.pop();
+    for (const block of blocks) {
+      const lines = block.split("\n");
+      const event = lines.find((l) => l.startsWith("event: "))?.slice(7);
+      const data = lines.find((l) => l.startsWith("data: "))?.slice(6);
+      if (!event) continue;
+      const parsed = { event, data: JSON.parse(data) } as SearchProgressEvent;
+      events.push(parsed);
+      onEvent(parsed);
+    }
+  }
+  return events;
+}
+
+// Evaluates the initial batch inline and holds later batches until
+// `release` is called or the runner aborts them, like long training runs
+function heldPool() {
+  let release: () => void;
+  const gate = new Promise<void>((resolve) => (release = resolve));
+  const held = { blocked: 0, aborted: 0 };
+  const pool = {
+    async evaluate(
+      tasks: EvaluationTask[],
+      options: { parallel: number; signal?: AbortSignal },
+    ) {
+      if (options.signal) {
+        held.blocked++;
+        await new Promise<void>((resolve, reject) => {
+          const abort = () => {
+            held.aborted++;
+            reject(new EvaluationCancelledError());
+          };
+          if (options.signal.aborted) return abort();
+          options.signal.addEventListener("abort", abort);
+          gate.then(resolve);
+        });
+      }
+      return tasks.map((t) =>
+        enforceConstraints(t.candidate, t.constraints, t.dataset),
+      );
+    },
+  } as unknown as EvaluationPool;
+  return { pool, held, release: () => release() };
+}
+
+async function waitFor(condition: () => boolean) {
+  while (!condition()) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe("/api/optimization", () => {
+  beforeEach(() => {
+    setSearchJobStore(new MemorySearchJobStore());
+  });
+
+  afterEach(() => {
+    setEvaluationPool(null);
+  });
+
+  it("should stream the progress of a search started over HTTP", async () => {
+    const { pool, release } = heldPool();
+    setEvaluationPool(pool);
+    const searchId = await startSearch(24);
+
+    const events = await readEvents(searchId, (event) => {
+      if (event.event === "snapshot") release();
+    });
+
+    expect(events[0]).toMatchObject({
+      event: "snapshot",
+      data: { searchId, status: "running" },
+    });
+    const generations = events.filter((e) => e.event === "generation");
+    expect(generations.length).toBeGreaterThan(0);
+    expect(events[events.length - 1]).toMatchObject({
+      event: "status",
+      data: { status: "completed" },
+    });
+
+    const status = await fetch(
+      `${baseUrl}/api/optimization?searchId=${searchId}`,
+    );
+    expect((await status.json()).progress.evaluations).toBe(24);
+  });
+
+  it("should evaluate searches on the worker pool", async () => {
+    const pool = new EvaluationPool(2);
+    setEvaluationPool(pool);
+    try {
+      const searchId = await startSearch(16);
+      const events = await readEvents(searchId);
+
+      expect(events[events.length - 1]).toMatchObject({
+        event: "status",
+        data: { status: "completed" },
+      });
+    } finally {
+      await pool.close();
+    }
+  }, 30000);
+
+  it("should abandon the generation in flight on DELETE", async () => {
+    const { pool, held } = heldPool();
+    setEvaluationPool(pool);
+    const searchId = await startSearch(24);
+    const events = readEvents(searchId);
+    await waitFor(() => held.blocked > 0);
+
+    const response = await stopSearch(searchId);
+    expect(response.status).toBe(200);
+    expect((await response.json()).status).toBe("stopped");
+    expect(held.aborted).toBe(1);
+    expect((await events).pop()).toMatchObject({
+      event: "status",
+      data: { status: "stopped" },
+    });
+
+    expect((await stopSearch(searchId)).status).toBe(409);
+  });
+
+  it("should resume searches a previous server left running", async () => {
+    const { pool, held } = heldPool();
+    setEvaluationPool(pool);
+    const searchId = await startSearch(16);
+    await waitFor(() => held.blocked > 0);
+    // The process running the search goes away without recording anything
+    cancelSearch(searchId);
+    await waitFor(() => held.aborted > 0);
+    await new Promise((resolve) => setTimeout(resolve));
+
+    await startSearchRunner();
+    try {
+      expect((await readEvents(searchId)).pop()).toMatchObject({
+        event: "status",
+        data: { status: "completed" },
+      });
+    } finally {
+      await getEvaluationPool().close();
+    }
+  }, 30000);
+
+  it("should expand flat search spaces and reject DSL ones", async () => {
+    setEvaluationPool(heldPool().pool);
+    const flat = await startSearch(24);
+    const expanded = await updateSearch(flat, "expand_search_space", {
+      layers: ["conv2d", "attention"],
+      batchSizes: [256],
+    });
+    expect(expanded.status).toBe(200);
+    const store = await getSearchJobStore();
+    expect((await store.get(flat)).searchSpace).toMatchObject({
+      layers: ["conv2d", "depthwise_conv", "dense", "pooling", "attention"],
+      batchSizes: [256],
+    });
+    const malformed = await updateSearch(flat, "expand_search_space", {
+      learningRates: ["fast"],
+    });
+    expect(malformed.status).toBe(400);
+
+    const dsl = await startSearch(24, { searchSpace: "mobilenetv3" });
+    const rejected = await updateSearch(dsl, "expand_search_space", {
+      layers: ["attention"],
+    });
+    expect(rejected.status).toBe(400);
+    expect((await rejected.json()).error).toContain("flat search spaces");
+
+    await stopSearch(flat);
+    await stopSearch(dsl);
+  });
+
+  it("should reject DSL spaces for strategies that only learn flat lists", async () => {
+    for (const algorithm of ["gradient", "reinforcement"]) {
+      const response = await fetch(`${baseUrl}/api/optimization`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          startRequest(24, { algorithm, searchSpace: "mobilenetv3" }),
+        ),
+      });
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it("should only accept a positive integer parallelism", async () => {
+    setEvaluationPool(heldPool().pool);
+    const searchId = await startSearch(24);
+
+    for (const parallel of [2.5, 0, "many"]) {
+      const response = await updateSearch(searchId, "adjust_budget", {
+        parallel,
+      });
+      expect(response.status).toBe(400);
+    }
+    const adjusted = await updateSearch(searchId, "adjust_budget", {
+      parallel: 2,
+    });
+    expect(adjusted.status).toBe(200);
+    const store = await getSearchJobStore();
+    expect((await store.get(searchId)).budget.parallel).toBe(2);
+
+    await stopSearch(searchId);
+  });
+
+  it("should start a bayesian search with the requested acquisition", async () => {
+    setEvaluationPool(heldPool().pool);
+    const searchId = await startSearch(24, {
+      algorithm: "bayesian",
+      acquisition: "ucb",
+    });
+    const store = await getSearchJobStore();
+    expect((await store.get(searchId)).checkpoint.acquisition).toBe("ucb");
+    await stopSearch(searchId);
+
+    for (const overrides of [
+      { algorithm: "bayesian", acquisition: "pi" },
+      { algorithm: "random", acquisition: "ucb" },
+    ]) {
+      const response = await fetch(`${baseUrl}/api/optimization`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(startRequest(24, overrides)),
+      });
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it("should reject malformed flat search spaces", async () => {
+    for (const searchSpace of [
+      { layers: [] },
+      { layers: "conv2d" },
+      { optimizers: ["adam", 1] },
+      { batchSizes: [] },
+      { learningRates: [0.01, -1] },
+      42,
+    ]) {
+      const response = await fetch(`${baseUrl}/api/optimization`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(startRequest(24, { searchSpace })),
+      });
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it("should reject NSGA-II searches without an enabled objective", async () => {
+    for (const objectives of [
+      {},
+      {
+        accuracy: { weight: 0 },
+        latency: { weight: 0 },
+        params: { weight: 0 },
+        energy: { weight: 0 },
+      },
+    ]) {
+      const response = await fetch(`${baseUrl}/api/optimization`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          startRequest(24, {
+            algorithm: "evolutionary",
+            mode: "nsga2",
+            objectives,
+          }),
+        ),
+      });
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it("should reject malformed budgets when starting a search", async () => {
+    for (const overrides of [
+      {
+        algorithm: "bayesian",
+        budget: { maxEvaluations: 24, maxTime: 1, parallel: 0 },
+      },
+      { budget: { maxEvaluations: 24, maxTime: 1 } },
+      { budget: { maxEvaluations: "abc", maxTime: 1, parallel: 4 } },
+      { budget: { maxEvaluations: 24.5, maxTime: 1, parallel: 4 } },
+      { budget: { maxEvaluations: 24, maxTime: -1, parallel: 4 } },
+      { budget: "x" },
+    ]) {
+      const response = await fetch(`${baseUrl}/api/optimization`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(startRequest(24, overrides)),
+      });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("budget");
+    }
+  });
+});
@@ -0,0 +1,1055 @@
+import { randomUUID } from "node:crypto";
+import { AcquisitionFunction, bayesianStrategy } from "../nas/bayesian";
+import {
+  ConstraintStats,
+  emptyConstraintStats,
+  Rejection,
+} from "../nas/constraints";
+import { gradientStrategy, planSupernet } from "../nas/darts";
+import { evolutionaryStrategy } from "../nas/evolutionary";
+import {
+  bracketRungs,
+  hyperbandStrategy,
+  planHyperband,
+} from "../nas/hyperband";
+import { lineageGraph } from "../nas/lineage";
+import { reinforcementStrategy } from "../nas/reinforce";
+import {
+  activeObjectives,
+  enabledObjectives,
+  paretoFront,
+} from "../nas/pareto";
+import { randomSeed } from "../nas/random";
+import { randomStrategy } from "../nas/randomSearch";
+import { notifySearchUpdated } from "../nas/searchEvents";
+import {
+  applyBudget,
+  cancelSearch,
+  resumeSearch,
+  startSearch,
+} from "../nas/searchRunner";
+import {
+  createSearchJob,
+  getSearchJobStore,
+  isTerminalStatus,
+  SearchJob,
+  SearchProgressSummary,
+  SearchStateError,
+  SearchStatus,
+  summarizeProgress,
+} from "../nas/searchStore";
+import { getSearchStrategy } from "../nas/strategies";
+import { loadNamedBenchmark, TabularBenchmark } from "../nas/tabularBenchmark";
+import {
+  SearchAlgorithm,
+  SearchBudget,
+  SearchMode,
+  SearchSpace,
+  WarmStartSelection,
+  WarmStartSource,
+} from "../nas/types";
+import {
+  loadWarmStart,
+  parseWarmStartRequest,
+  WarmStart,
+  WarmStartError,
+  WarmStartRequest,
+} from "../nas/warmStart";
+import {
+  flattenSearchSpace,
+  isSearchSpaceSpec,
+  parseSearchSpace,
+} from "../../shared/searchSpace";
+import {
+  getSearchSpaceTemplate,
+  SEARCH_SPACE_TEMPLATES,
+} from "../../shared/searchSpaceTemplates";
+
+// What Express and Vercel requests and responses have in common
+export interface ApiRequest {
+  method?: string;
+  query: Record<string, unknown>;
+  body?: any;
+}
+
+export interface ApiResponse {
+  setHeader(name: string, value: string): unknown;
+  status(code: number): ApiResponse;
+  json(body: unknown): unknown;
+  end(): unknown;
+}
+
+interface OptimizationRequest {
+  algorithm:
+    | "evolutionary"
+    | "bayesian"
+    | "gradient"
+    | "reinforcement"
+    | "random"
+    | "hyperband";
+  // Flat lists of options, a search-space DSL document (version, stages), or
+  // the name of a template ("mobilenetv3" or "mobilenetv3@1"). Gradient and
+  // reinforcement searches take flat lists only.
+  searchSpace:
+    | string
+    | {
+        layers: string[];
+        activations: string[];
+        optimizers: string[];
+        learningRates: number[];
+        batchSizes: number[];
+      }
+    | { version: 1; stages: unknown[]; training?: unknown };
+  constraints: {
+    maxParams?: number;
+    maxLatency?: number;
+    minAccuracy?: number;
+    maxMemory?: number;
+    energyBudget?: number;
+  };
+  objectives: {
+    accuracy: { weight: number; target?: number };
+    latency: { weight: number; target?: number };
+    params: { weight: number; target?: number };
+    energy: { weight: number; target?: number };
+  };
+  budget: {
+    maxEvaluations: number;
+    maxTime: number; // hours
+    parallel: number;
+    // Full-training epochs; hyperband's top rung
+    maxEpochs?: number;
+    // Training compute limit, simulated from FLOPs
+    maxGpuHours?: number;
+  };
+  currentBest?: any[];
+  // Earlier searchIds to seed from: their top-k or Pareto-front
+  // architectures, and for bayesian search all their evaluations
+  warmStartFrom?:
+    | string[]
+    | { experiments: string[]; select?: WarmStartSelection; k?: number };
+  // Same seed, search space and budget reproduce the same search
+  seed?: number;
+  // "nsga2" ranks evolutionary candidates by Pareto dominance over objectives
+  mode?: SearchMode;
+  // How bayesian search scores proposals; defaults to expected improvement
+  acquisition?: AcquisitionFunction;
+  // Defaults to the template's dataset, then ImageNet
+  dataset?: string;
+  // Name of a tabular benchmark in NAS_BENCHMARK_DIR. Evaluations become
+  // lookups and the search space is the benchmark's cell space.
+  benchmark?: string;
+}
+
+const SUPPORTED_ALGORITHMS: SearchAlgorithm[] = [
+  "evolutionary",
+  "bayesian",
+  "gradient",
+  "reinforcement",
+  "random",
+  "hyperband",
+];
+
+// Strategies whose initial batch can be seeded
+const WARM_START_ALGORITHMS: SearchAlgorithm[] = ["evolutionary", "bayesian"];
+
+const SUPPORTED_MODES: SearchMode[] = ["single_objective", "nsga2"];
+
+const ACQUISITION_FUNCTIONS: AcquisitionFunction[] = ["ei", "ucb"];
+
+// Strategies that sample through the search space, and so can draw from a
+// search-space document; the others learn policies over the flat lists
+const SPEC_ALGORITHMS: SearchAlgorithm[] = [
+  "evolutionary",
+  "bayesian",
+  "random",
+  "hyperband",
+];
+
+// Strategies that sample from the search space, and so stay on the table
+const BENCHMARK_ALGORITHMS: SearchAlgorithm[] = [
+  "evolutionary",
+  "bayesian",
+  "random",
+];
+
+// Budget limits a search can set; maxGpuHours is the only optional one
+const BUDGET_LIMITS = [
+  "maxEvaluations",
+  "maxTime",
+  "parallel",
+  "maxGpuHours",
+] as const;
+
+// Lists a flat search space can give: three of names, two of numbers
+const SEARCH_LISTS = [
+  "layers",
+  "activations",
+  "optimizers",
+  "learningRates",
+  "batchSizes",
+] as const;
+
+interface OptimizationResponse {
+  success: boolean;
+  algorithm: string;
+  searchId: string;
+  status: SearchStatus;
+  seed?: number;
+  warmStart?: WarmStartSource;
+  progress?: {
+    evaluations: number;
+    bestScore: number;
+    convergence: number;
+    timeElapsed: number;
+    gpuHours: number;
+    estimatedRemaining: number;
+  };
+  candidates?: any[];
+  constraints?: ConstraintStats & { recentRejections: Rejection[] };
+  insights?: string[];
+  error?: string;
+}
+
+/**
+ * Serves /api/optimization for both the Express server and the Vercel
+ * function, so it only relies on what their requests and responses share.
+ */
+export async function handleOptimization(req: ApiRequest, res: ApiResponse) {
+  // Handle CORS
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader(
+    "Access-Control-Allow-Methods",
+    "GET, POST, PUT, DELETE, OPTIONS",
+  );
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+
+  if (req.method === "OPTIONS") {
+    res.status(200).end();
+    return;
+  }
+
+  const { method, query } = req;
+
+  try {
+    switch (method) {
+      case "POST":
+        return await handleStartOptimization(req, res);
+      case "GET":
+        return await handleGetOptimizationStatus(
+          req,
+          res,
+          query.searchId as string,
+          query.view as string,
+        );
+      case "PUT":
+        return await handleUpdateOptimization(
+          req,
+          res,
+          query.searchId as string,
+        );
+      case "DELETE":
+        return await handleStopOptimization(req, res, query.searchId as string);
+      default:
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+  } catch (error) {
+    console.error("Optimization API error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message:
+        "Neural Architecture Optimization service temporarily unavailable",
+    });
+  }
+}
+
+async function handleStartOptimization(req: ApiRequest, res: ApiResponse) {
+  const {
+    algorithm,
+    searchSpace,
+    constraints,
+    objectives,
+    budget,
+    currentBest,
+    warmStartFrom,
+    seed,
+    mode = "single_objective",
+    acquisition,
+    dataset,
+    benchmark: benchmarkName,
+  } = req.body as OptimizationRequest;
+
+  if (!algorithm || !(searchSpace || benchmarkName) || !objectives || !budget) {
+    return res.status(400).json({
+      success: false,
+      error:
+        "Missing required parameters: algorithm, searchSpace, objectives, budget",
+    });
+  }
+
+  if (!SUPPORTED_ALGORITHMS.includes(algorithm)) {
+    return res.status(400).json({
+      success: false,
+      error: `Unsupported algorithm. Supported: ${SUPPORTED_ALGORITHMS.join(", ")}`,
+    });
+  }
+
+  if (!SUPPORTED_MODES.includes(mode)) {
+    return res.status(400).json({
+      success: false,
+      error: `Unsupported mode. Supported: ${SUPPORTED_MODES.join(", ")}`,
+    });
+  }
+
+  if (mode === "nsga2" && algorithm !== "evolutionary") {
+    return res.status(400).json({
+      success: false,
+      error: "NSGA-II mode requires the evolutionary algorithm",
+    });
+  }
+
+  if (mode === "nsga2" && enabledObjectives(objectives).length === 0) {
+    return res.status(400).json({
+      success: false,
+      error:
+        "NSGA-II mode requires at least one objective with a positive weight",
+    });
+  }
+
+  if (acquisition !== undefined) {
+    if (algorithm !== "bayesian") {
+      return res.status(400).json({
+        success: false,
+        error: "acquisition requires the bayesian algorithm",
+      });
+    }
+    if (!ACQUISITION_FUNCTIONS.includes(acquisition)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unsupported acquisition. Supported: ${ACQUISITION_FUNCTIONS.join(", ")}`,
+      });
+    }
+  }
+
+  if (
+    seed !== undefined &&
+    !(Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32)
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: "seed must be an integer between 0 and 4294967295",
+    });
+  }
+
+  if (typeof budget !== "object") {
+    return res.status(400).json({
+      success: false,
+      error: "budget must be an object",
+    });
+  }
+
+  for (const key of BUDGET_LIMITS) {
+    if (key === "maxGpuHours" && budget[key] === undefined) continue;
+    const error = budgetError(key, budget[key]);
+    if (error) return res.status(400).json({ success: false, error });
+  }
+
+  if (
+    budget.maxEpochs !== undefined &&
+    !(Number.isInteger(budget.maxEpochs) && budget.maxEpochs > 0)
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: "budget.maxEpochs must be a positive integer",
+    });
+  }
+
+  let warmStartRequest: WarmStartRequest | undefined;
+  if (warmStartFrom !== undefined) {
+    if (!WARM_START_ALGORITHMS.includes(algorithm)) {
+      return res.status(400).json({
+        success: false,
+        error: `warmStartFrom supports: ${WARM_START_ALGORITHMS.join(", ")}`,
+      });
+    }
+    try {
+      warmStartRequest = parseWarmStartRequest(warmStartFrom);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  let benchmark: TabularBenchmark | undefined;
+  if (benchmarkName !== undefined) {
+    if (!BENCHMARK_ALGORITHMS.includes(algorithm)) {
+      return res.status(400).json({
+        success: false,
+        error: `Benchmark mode supports: ${BENCHMARK_ALGORITHMS.join(", ")}`,
+      });
+    }
+    try {
+      benchmark = await loadNamedBenchmark(String(benchmarkName));
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  const template =
+    typeof searchSpace === "string"
+      ? getSearchSpaceTemplate(searchSpace)
+      : undefined;
+  if (typeof searchSpace === "string" && !template) {
+    return res.status(400).json({
+      success: false,
+      error: `Unknown search-space template "${searchSpace}". Available: ${SEARCH_SPACE_TEMPLATES.map(
+        (t) => `${t.name}@${t.version}`,
+      ).join(", ")}`,
+    });
+  }
+
+  let space = searchSpace as SearchSpace;
+  const spaceInput = benchmark
+    ? benchmark.searchSpace()
+    : template
+      ? template.space
+      : searchSpace;
+  if (isSearchSpaceSpec(spaceInput)) {
+    const parsed = parseSearchSpace(spaceInput);
+    if (parsed.success === false) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid search space",
+        issues: parsed.issues,
+      });
+    }
+    if (!SPEC_ALGORITHMS.includes(algorithm)) {
+      return res.status(400).json({
+        success: false,
+        error: `Search-space documents and templates support: ${SPEC_ALGORITHMS.join(", ")}`,
+      });
+    }
+    space = { ...flattenSearchSpace(parsed.spec), spec: parsed.spec };
+  } else {
+    if (typeof spaceInput !== "object" || Array.isArray(spaceInput)) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "searchSpace must be a template name, a search-space document or flat lists",
+      });
+    }
+    for (const key of SEARCH_LISTS) {
+      const list = spaceInput[key];
+      if (list === undefined) continue;
+      const error =
+        searchListError(key, list) ??
+        (list.length === 0 ? `${key} must not be empty` : undefined);
+      if (error) return res.status(400).json({ success: false, error });
+    }
+  }
+
+  // Generate unique search ID
+  const searchId = `nas_${algorithm}_${Date.now()}_${randomUUID().slice(0, 8)}`;
+
+  const store = await getSearchJobStore();
+  const job = createSearchJob({
+    searchId,
+    algorithm,
+    searchSpace: space,
+    constraints: { ...template?.constraints, ...constraints },
+    objectives,
+    budget,
+    seed: seed ?? randomSeed(),
+    mode,
+    dataset: benchmark?.dataset ?? dataset ?? template?.dataset,
+    benchmark: benchmark?.name,
+  });
+  if (acquisition) job.checkpoint.acquisition = acquisition;
+
+  let warmStart: WarmStart | undefined;
+  if (warmStartRequest) {
+    try {
+      warmStart = await loadWarmStart(store, warmStartRequest, job);
+    } catch (error) {
+      if (!(error instanceof WarmStartError)) throw error;
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    job.warmStart = warmStart.source;
+  }
+  await store.create(job);
+
+  const seeds = [...(currentBest || []), ...(warmStart?.seeds || [])];
+
+  // Initialize optimization based on algorithm
+  let optimizationResult: OptimizationResponse;
+
+  switch (algorithm) {
+    case "evolutionary":
+      optimizationResult =
+        mode === "nsga2"
+          ? await initializeNsga2Search(job, seeds)
+          : await initializeEvolutionarySearch(job, seeds);
+      break;
+    case "bayesian":
+      optimizationResult = await initializeBayesianOptimization(job, [
+        ...(currentBest || []),
+        ...(warmStart?.observations || []),
+      ]);
+      break;
+    case "gradient":
+      optimizationResult = await initializeGradientBasedSearch(job);
+      break;
+    case "reinforcement":
+      optimizationResult = await initializeReinforcementLearning(job);
+      break;
+    case "random":
+      optimizationResult = await initializeRandomSearch(job);
+      break;
+    case "hyperband":
+      optimizationResult = await initializeHyperbandSearch(job);
+      break;
+  }
+
+  if (job.warmStart) {
+    optimizationResult.insights.push(warmStartInsight(job.warmStart));
+  }
+  res.json(optimizationResult);
+}
+
+function warmStartInsight(warmStart: WarmStartSource): string {
+  const from = `${warmStart.experiments.length} earlier search${
+    warmStart.experiments.length === 1 ? "" : "es"
+  }`;
+  return warmStart.observations > 0
+    ? `Pre-fitted the surrogate with ${warmStart.observations} evaluations from ${from}`
+    : `Warm-started from ${warmStart.seeds.length} ${
+        warmStart.select === "pareto" ? "Pareto-front" : "top-scoring"
+      } architectures of ${from}`;
+}
+
+async function handleGetOptimizationStatus(
+  req: ApiRequest,
+  res: ApiResponse,
+  searchId: string,
+  view?: string,
+) {
+  if (!searchId) {
+    return res.status(400).json({
+      success: false,
+      error: "Search ID is required",
+    });
+  }
+
+  if (view === "lineage") {
+    return handleGetLineage(req, res, searchId);
+  }
+
+  const status =
+    view === "frontier"
+      ? await getOptimizationFrontier(searchId)
+      : await getOptimizationStatus(searchId);
+  if (!status) {
+    return res.status(404).json(searchNotFound(searchId));
+  }
+  res.json(status);
+}
+
+// Ancestors and descendants of query.architectureId, optionally limited to
+// query.depth breeding steps
+async function handleGetLineage(
+  req: ApiRequest,
+  res: ApiResponse,
+  searchId: string,
+) {
+  const architectureId = req.query.architectureId as string;
+  if (!architectureId) {
+    return res.status(400).json({
+      success: false,
+      error: "architectureId is required for the lineage view",
+    });
+  }
+
+  const depth =
+    req.query.depth === undefined ? Infinity : Number(req.query.depth);
+  if (depth !== Infinity && !(Number.isInteger(depth) && depth > 0)) {
+    return res.status(400).json({
+      success: false,
+      error: "depth must be a positive integer",
+    });
+  }
+
+  const store = await getSearchJobStore();
+  if (!(await store.get(searchId))) {
+    return res.status(404).json(searchNotFound(searchId));
+  }
+  const lineage = lineageGraph(
+    await store.listEvaluated(searchId),
+    architectureId,
+    depth,
+  );
+  if (!lineage) {
+    return res.status(404).json({
+      success: false,
+      searchId,
+      error: `Architecture ${architectureId} was not evaluated by search ${searchId}`,
+    });
+  }
+  res.json({ success: true, searchId, lineage });
+}
+
+async function handleUpdateOptimization(
+  req: ApiRequest,
+  res: ApiResponse,
+  searchId: string,
+) {
+  const { action, parameters } = req.body;
+
+  if (!searchId || !action) {
+    return res.status(400).json({
+      success: false,
+      error: "Search ID and action are required",
+    });
+  }
+
+  try {
+    const result = await updateOptimization(searchId, action, parameters);
+    if (!result) {
+      return res.status(404).json(searchNotFound(searchId));
+    }
+    res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    if (error instanceof SearchStateError) {
+      return res.status(409).json({ success: false, error: error.message });
+    }
+    throw error;
+  }
+}
+
+async function handleStopOptimization(
+  req: ApiRequest,
+  res: ApiResponse,
+  searchId: string,
+) {
+  if (!searchId) {
+    return res.status(400).json({
+      success: false,
+      error: "Search ID is required",
+    });
+  }
+
+  try {
+    const result = await stopOptimization(searchId);
+    if (!result) {
+      return res.status(404).json(searchNotFound(searchId));
+    }
+    res.json(result);
+  } catch (error) {
+    if (error instanceof SearchStateError) {
+      return res.status(409).json({ success: false, error: error.message });
+    }
+    throw error;
+  }
+}
+
+function searchNotFound(searchId: string) {
+  return {
+    success: false,
+    searchId,
+    error: `Search not found: ${searchId}`,
+  };
+}
+
+function toResponse(
+  job: SearchJob,
+  insights: string[],
+  candidates = job.candidates.slice(0, 5), // Top 5 current candidates
+): OptimizationResponse {
+  return {
+    success: job.status !== "failed",
+    algorithm: job.algorithm,
+    searchId: job.searchId,
+    status: job.status,
+    seed: job.seed,
+    ...(job.warmStart ? { warmStart: job.warmStart } : {}),
+    progress: summarizeProgress(job),
+    candidates,
+    constraints: {
+      ...(job.checkpoint.constraintStats ?? emptyConstraintStats()),
+      recentRejections: job.checkpoint.rejections ?? [],
+    },
+    insights,
+    ...(job.error ? { error: job.error } : {}),
+  };
+}
+
+// Evolutionary Algorithm Implementation
+async function initializeEvolutionarySearch(
+  job: SearchJob,
+  currentBest?: any[],
+): Promise<OptimizationResponse> {
+  const search = await startSearch(job, evolutionaryStrategy, currentBest);
+  const populationSize = search.candidates.length;
+  const generations = Math.floor(job.budget.maxEvaluations / populationSize);
+
+  return toResponse(search, [
+    `Initialized evolutionary search with population size ${populationSize}`,
+    `Planning ${generations} generations with ${job.budget.maxEvaluations} total evaluations`,
+    "Using tournament selection and uniform crossover",
+    "Applying adaptive mutation rates based on convergence",
+  ]);
+}
+
+// NSGA-II Multi-Objective Implementation
+async function initializeNsga2Search(
+  job: SearchJob,
+  currentBest?: any[],
+): Promise<OptimizationResponse> {
+  const search = await startSearch(
+    job,
+    getSearchStrategy("evolutionary", "nsga2"),
+    currentBest,
+  );
+  const objectives = activeObjectives(job.objectives);
+
+  return toResponse(search, [
+    `Initialized NSGA-II with population size ${search.candidates.length}`,
+    `Optimizing ${objectives.join(", ")} jointly`,
+    "Using non-dominated sorting and crowding distance for selection",
+    `${search.candidates.filter((c) => c.paretoRank === 1).length} architectures on the initial Pareto front`,
+  ]);
+}
+
+// Bayesian Optimization Implementation
+async function initializeBayesianOptimization(
+  job: SearchJob,
+  observations?: any[],
+): Promise<OptimizationResponse> {
+  const search = await startSearch(job, bayesianStrategy, observations);
+
+  return toResponse(search, [
+    `Initialized Bayesian optimization with ${search.evaluations} initial samples`,
+    "Using Gaussian Process surrogate model",
+    `Applying ${
+      search.checkpoint.acquisition === "ucb"
+        ? "Upper Confidence Bound"
+        : "Expected Improvement"
+    } acquisition function`,
+    `Proposing batches of ${job.budget.parallel} candidates per iteration`,
+  ]);
+}
+
+// Gradient-based Search Implementation
+async function initializeGradientBasedSearch(
+  job: SearchJob,
+): Promise<OptimizationResponse> {
+  const search = await startSearch(job, gradientStrategy);
+  const { nodes, cellChannels } = planSupernet();
+
+  return toResponse(search, [
+    "Initialized DARTS-style differentiable architecture search",
+    "Using continuous relaxation of discrete architecture choices",
+    `Searching a ${nodes}-node cell stacked ${cellChannels.length} times with mixed-op edges`,
+    "Discretizing to the argmax op per edge after every round of alpha updates",
+  ]);
+}
+
+// Reinforcement Learning Implementation
+async function initializeReinforcementLearning(
+  job: SearchJob,
+): Promise<OptimizationResponse> {
+  const search = await startSearch(job, reinforcementStrategy);
+
+  return toResponse(search, [
+    "Initialized reinforcement learning controller",
+    `Sampling ${search.evaluations} architectures per policy update`,
+    "Using accuracy as reward signal with efficiency penalties",
+    "Updating the policy with REINFORCE against a moving-average baseline",
+  ]);
+}
+
+// Random Search Implementation
+async function initializeRandomSearch(
+  job: SearchJob,
+): Promise<OptimizationResponse> {
+  const search = await startSearch(job, randomStrategy);
+
+  return toResponse(search, [
+    `Generated ${search.evaluations} random architectures for evaluation`,
+    "Random search provides strong baseline for comparison",
+    `Sampling ${job.budget.parallel} architectures per round`,
+    "No convergence assumptions - explores full search space",
+  ]);
+}
+
+// Hyperband Implementation
+async function initializeHyperbandSearch(
+  job: SearchJob,
+): Promise<OptimizationResponse> {
+  const search = await startSearch(job, hyperbandStrategy);
+  const options = planHyperband(job.budget);
+  const rungs = bracketRungs(options, options.maxBracket);
+
+  return toResponse(search, [
+    `Running Hyperband brackets ${options.maxBracket} down to 0 with eta ${options.eta}`,
+    `First bracket: ${rungs
+      .map((r) => `${r.candidates} at ${r.epochs} epochs`)
+      .join(", ")}`,
+    `Promoting the top 1/${options.eta} of each rung up to ${options.maxEpochs} epochs`,
+    "Low-fidelity rungs stop weak architectures early",
+  ]);
+}
+
+async function getOptimizationStatus(
+  searchId: string,
+): Promise<OptimizationResponse | null> {
+  const store = await getSearchJobStore();
+  const job = await store.get(searchId);
+  if (!job) return null;
+
+  const progress = summarizeProgress(job);
+  const latest = job.generations[job.generations.length - 1];
+  if (!latest) {
+    return toResponse(job, [
+      `Search is ${job.status} with ${job.candidates.length} initial candidates`,
+      "No architectures have been evaluated yet",
+    ]);
+  }
+
+  return toResponse(job, [
+    `Evaluated ${progress.evaluations} architectures over ${latest.generation} generations`,
+    `Best architecture achieves ${(progress.bestScore * 100).toFixed(1)}% fitness score`,
+    `Population convergence at ${(progress.convergence * 100).toFixed(1)}%`,
+    budgetInsight(job.budget, progress),
+    ...(latest.mutationRate !== undefined
+      ? [`Current mutation rate ${latest.mutationRate}`]
+      : []),
+    ...(latest.rung
+      ? [
+          `Bracket ${latest.rung.bracket} rung ${latest.rung.rung}: ${latest.rung.evaluated} at ${latest.rung.epochs} epochs, promoted ${latest.rung.promoted.length}`,
+        ]
+      : []),
+    ...constraintInsights(job.checkpoint.constraintStats),
+    ...(job.checkpoint.duplicates
+      ? [
+          `Reused ${job.checkpoint.duplicates} evaluations of duplicate architectures`,
+        ]
+      : []),
+  ]);
+}
+
+function budgetInsight(
+  budget: SearchBudget,
+  progress: SearchProgressSummary,
+): string {
+  const gpu = `${progress.gpuHours.toFixed(1)}${
+    budget.maxGpuHours !== undefined ? ` of ${budget.maxGpuHours}` : ""
+  } GPU-hours`;
+  return `Used ${progress.timeElapsed.toFixed(2)} of ${budget.maxTime}h and ${gpu}`;
+}
+
+function constraintInsights(stats?: ConstraintStats): string[] {
+  if (!stats || (stats.repaired === 0 && stats.rejected === 0)) return [];
+  const filtered = Object.entries(stats.filtered)
+    .map(([constraint, count]) => `${constraint}: ${count}`)
+    .join(", ");
+  return [
+    `Constraints repaired ${stats.repaired} and rejected ${stats.rejected} of ${stats.checked} candidates`,
+    ...(filtered ? [`Rejections by constraint: ${filtered}`] : []),
+  ];
+}
+
+// Rank-1 set over the job's objectives; for NSGA-II jobs this is the
+// population's first front, for others it is computed from the candidates
+async function getOptimizationFrontier(
+  searchId: string,
+): Promise<OptimizationResponse | null> {
+  const store = await getSearchJobStore();
+  const job = await store.get(searchId);
+  if (!job) return null;
+
+  const frontier = paretoFront(job.candidates, job.objectives).map(
+    (candidate) => ({ ...candidate, paretoRank: 1 }),
+  );
+  return toResponse(
+    job,
+    [
+      `${frontier.length} non-dominated architectures over ${activeObjectives(job.objectives).join(", ")}`,
+    ],
+    frontier,
+  );
+}
+
+async function updateOptimization(
+  searchId: string,
+  action: string,
+  parameters: any,
+): Promise<OptimizationResponse | null> {
+  const actions = ["pause", "resume", "adjust_budget", "expand_search_space"];
+
+  if (!actions.includes(action)) {
+    return {
+      success: false,
+      algorithm: "",
+      searchId,
+      status: "failed",
+      error: `Invalid action: ${action}. Supported actions: ${actions.join(", ")}`,
+    };
+  }
+
+  const store = await getSearchJobStore();
+  const job = await store.get(searchId);
+  if (!job) return null;
+
+  switch (action) {
+    case "pause": {
+      const paused = await store.transition(searchId, "paused", "User pause");
+      notifySearchUpdated(searchId);
+      return toResponse(paused, [
+        "Search paused at the next generation boundary",
+        `${paused.evaluations} evaluations completed so far`,
+      ]);
+    }
+    case "resume": {
+      const resumed = await store.transition(
+        searchId,
+        "running",
+        "User resume",
+      );
+      notifySearchUpdated(searchId);
+      resumeSearch(
+        searchId,
+        getSearchStrategy(resumed.algorithm, resumed.mode),
+      );
+      return toResponse(resumed, [
+        `Resumed search from generation ${resumed.generations.length}`,
+      ]);
+    }
+    case "adjust_budget": {
+      if (isTerminalStatus(job.status)) {
+        throw new SearchStateError(`Cannot ${action} a ${job.status} search`);
+      }
+      const budget = { ...job.budget };
+      for (const key of BUDGET_LIMITS) {
+        if (parameters?.[key] === undefined) continue;
+        const value = Number(parameters[key]);
+        const error = budgetError(key, value);
+        if (error) return invalidUpdate(job, error);
+        budget[key] = value;
+      }
+      const updated = await store.update(searchId, { budget });
+      applyBudget(searchId, budget);
+      notifySearchUpdated(searchId);
+      return toResponse(updated, [
+        `Budget set to ${budget.maxEvaluations} evaluations, ${budget.maxTime}h, ${
+          budget.maxGpuHours !== undefined
+            ? `${budget.maxGpuHours} GPU-hours, `
+            : ""
+        }${budget.parallel} parallel`,
+        budgetInsight(budget, summarizeProgress(updated)),
+        "The time limit applies to the running generation; the others from the next one",
+      ]);
+    }
+    case "expand_search_space": {
+      if (isTerminalStatus(job.status)) {
+        throw new SearchStateError(`Cannot ${action} a ${job.status} search`);
+      }
+      // Merging flat lists into a DSL space would change nothing it samples
+      if (job.searchSpace.spec) {
+        return invalidUpdate(
+          job,
+          "expand_search_space only supports flat search spaces; start a new search with the expanded search-space document",
+        );
+      }
+      const searchSpace: SearchSpace = { ...job.searchSpace };
+      for (const key of ["layers", "activations", "optimizers"] as const) {
+        const added = parameters?.[key];
+        if (added === undefined) continue;
+        const error = searchListError(key, added);
+        if (error) return invalidUpdate(job, error);
+        searchSpace[key] = [
+          ...new Set([...(searchSpace[key] ?? []), ...added]),
+        ];
+      }
+      for (const key of ["learningRates", "batchSizes"] as const) {
+        const added = parameters?.[key];
+        if (added === undefined) continue;
+        const error = searchListError(key, added);
+        if (error) return invalidUpdate(job, error);
+        searchSpace[key] = [
+          ...new Set([...(searchSpace[key] ?? []), ...added]),
+        ];
+      }
+      const updated = await store.update(searchId, { searchSpace });
+      return toResponse(updated, [
+        "Search space expanded",
+        "New choices are sampled from the next generation",
+      ]);
+    }
+  }
+}
+
+function invalidUpdate(job: SearchJob, error: string): OptimizationResponse {
+  return {
+    success: false,
+    algorithm: job.algorithm,
+    searchId: job.searchId,
+    status: job.status,
+    error,
+  };
+}
+
+function budgetError(
+  key: (typeof BUDGET_LIMITS)[number],
+  value: unknown,
+): string | undefined {
+  if (!isPositive(value)) return `budget.${key} must be a positive number`;
+  // Evaluation counts, and batch sizes with the worker lanes evaluating them
+  if (
+    (key === "maxEvaluations" || key === "parallel") &&
+    !Number.isInteger(value)
+  ) {
+    return `budget.${key} must be a positive integer`;
+  }
+}
+
+function searchListError(
+  key: (typeof SEARCH_LISTS)[number],
+  value: unknown,
+): string | undefined {
+  const names =
+    key === "layers" || key === "activations" || key === "optimizers";
+  if (!Array.isArray(value) || !value.every(names ? isString : isPositive)) {
+    return `${key} must be a list of ${names ? "strings" : "positive numbers"}`;
+  }
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+async function stopOptimization(
+  searchId: string,
+): Promise<OptimizationResponse | null> {
+  const store = await getSearchJobStore();
+  const stopped = await store.transition(searchId, "stopped", "User stop");
+  if (!stopped) return null;
+  // Abandon the generation in flight rather than finishing it
+  cancelSearch(searchId);
+  notifySearchUpdated(searchId);
+
+  return toResponse(stopped, [
+    "Optimization stopped successfully",
+    `Final results saved after ${stopped.evaluations} evaluations`,
+    "Best architectures ready for deployment",
+  ]);
+}
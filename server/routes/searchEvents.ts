@@ -0,0 +1,57 @@
+import { RequestHandler } from "express";
+import { SearchProgressEvent } from "@shared/api";
+import { watchSearch } from "../nas/searchEvents";
+
+// Clients and proxies drop idle connections; a comment line keeps it open
+const HEARTBEAT_INTERVAL = 15000;
+
+export const handleSearchEvents: RequestHandler = async (req, res) => {
+  const { searchId } = req.params;
+  let started = false;
+
+  const send = ({ event, data }: SearchProgressEvent) => {
+    if (!started) {
+      started = true;
+      res.status(200).set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      res.flushHeaders();
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let stop: (() => void) | null = null;
+  let closed = false;
+  const heartbeat = setInterval(() => {
+    if (started) res.write(": keep-alive\n\n");
+  }, HEARTBEAT_INTERVAL);
+  res.on("close", () => {
+    closed = true;
+    clearInterval(heartbeat);
+    stop?.();
+  });
+
+  try {
+    stop = await watchSearch(searchId, send, () => res.end());
+    if (!stop) {
+      clearInterval(heartbeat);
+      return res.status(404).json({
+        success: false,
+        error: `Search not found: ${searchId}`,
+      });
+    }
+    // The client went away while the search was being read
+    if (closed) stop();
+  } catch (error) {
+    console.error("Search events error:", error);
+    clearInterval(heartbeat);
+    if (!started) {
+      res.status(500).json({ success: false, error: "Internal server error" });
+    } else {
+      res.end();
+    }
+  }
+};
@@ -10,3 +10,100 @@
 export interface DemoResponse {
   message: string;
 }
+
+export type SearchStatus =
+  | "initialized"
+  | "running"
+  | "paused"
+  | "completed"
+  | "stopped"
+  | "failed";
+
+const TERMINAL_STATUSES: string[] = ["completed", "stopped", "failed"];
+
+/**
+ * Whether a search in this status is over for good: it can no longer
+ * change status, and its event stream ends
+ */
+export function isTerminalStatus(status: string): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+/**
+ * A candidate as streamed by GET /api/optimization/:searchId/events
+ */
+export interface SearchStreamCandidate {
+  id: string;
+  layers: { type: string; [key: string]: any }[];
+  score: number;
+  estimatedParams: number;
+  estimatedLatency: number;
+  generation?: number;
+  metrics?: { estimatedAccuracy: number; flops: number };
+}
+
+/**
+ * First event of the stream: the search as it stands on connect
+ */
+export interface SearchSnapshotEvent {
+  searchId: string;
+  algorithm: string;
+  status: string;
+  evaluations: number;
+  maxEvaluations: number;
+  bestScore: number;
+  convergence: number;
+  candidates: SearchStreamCandidate[];
+}
+
+/**
+ * One per recorded generation; `candidates` are the ones not streamed before
+ */
+export interface SearchGenerationEvent {
+  generation: number;
+  evaluations: number;
+  maxEvaluations: number;
+  bestScore: number;
+  meanScore: number;
+  convergence: number;
+  candidates: SearchStreamCandidate[];
+}
+
+/**
+ * Status changes; the stream ends after completed, stopped or failed
+ */
+export interface SearchStatusEvent {
+  status: string;
+  reason?: string;
+  error?: string;
+}
+
+export type SearchProgressEvent =
+  | { event: "snapshot"; data: SearchSnapshotEvent }
+  | { event: "generation"; data: SearchGenerationEvent }
+  | { event: "status"; data: SearchStatusEvent };
+
+/**
+ * An architecture in the lineage view of GET /api/optimization
+ */
+export interface LineageNode extends SearchStreamCandidate {
+  parentIds: string[];
+  // How it was bred; absent for sampled candidates
+  operator?: "crossover" | "mutation";
+  relation: "root" | "ancestor" | "descendant";
+}
+
+export interface LineageEdge {
+  parent: string;
+  child: string;
+  operator?: "crossover" | "mutation";
+}
+
+/**
+ * Ancestry and descendants of one architecture, oldest generation first
+ */
+export interface ArchitectureLineage {
+  architectureId: string;
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  ArchitectureGraph,
+  graphToLayers,
+  layersToGraph,
+  topologicalOrder,
+  validateGraph,
+} from "./architectureGraph";
+
+const layers = [
+  { type: "conv2d", filters: 32, kernel_size: 3, activation: "relu" },
+  { type: "mb_conv", filters: 16, expansion: 1, kernel_size: 3 },
+  { type: "global_avg_pool" },
+  { type: "dense", units: 10 },
+];
+
+describe("layersToGraph", () => {
+  it("should round-trip flat layer lists losslessly", () => {
+    const graph = layersToGraph(layers, [32, 32, 3]);
+
+    expect(validateGraph(graph)).toEqual([]);
+    expect(graphToLayers(graph)).toEqual(layers);
+    expect(graphToLayers(layersToGraph([]))).toEqual([]);
+  });
+});
+
+describe("validateGraph", () => {
+  it("should accept a skip connection merged by addition", () => {
+    const graph: ArchitectureGraph = {
+      version: 1,
+      nodes: [
+        { id: "in", kind: "input" },
+        { id: "conv", kind: "layer", layer: { type: "conv2d" } },
+        { id: "sum", kind: "merge", op: "add" },
+        { id: "out", kind: "output" },
+      ],
+      edges: [
+        { from: "in", to: "sum" },
+        { from: "in", to: "conv" },
+        { from: "conv", to: "sum" },
+        { from: "sum", to: "out" },
+      ],
+    };
+
+    expect(validateGraph(graph)).toEqual([]);
+    expect(topologicalOrder(graph)).toEqual(["in", "conv", "sum", "out"]);
+    expect(() => graphToLayers(graph)).toThrow(/cannot be flattened/);
+  });
+
+  it("should report cycles, dangling nodes and underfed merges", () => {
+    const graph: ArchitectureGraph = {
+      version: 1,
+      nodes: [
+        { id: "in", kind: "input" },
+        { id: "a", kind: "layer", layer: { type: "conv2d" } },
+        { id: "b", kind: "layer", layer: { type: "conv2d" } },
+        { id: "m", kind: "merge", op: "concat" },
+        { id: "out", kind: "output" },
+      ],
+      edges: [
+        { from: "in", to: "m" },
+        { from: "m", to: "out" },
+        { from: "a", to: "b" },
+        { from: "b", to: "a" },
+      ],
+    };
+
+    expect(validateGraph(graph)).toEqual([
+      'merge node "m" needs at least two inputs',
+      "graph contains a cycle",
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+// Typed DAG intermediate representation for architectures, shared by the
+// client and the server, with validation and converters from flat layer lists
+// Built by Shaurya Upadhyay
+
+/** A layer's configuration, as in the flat `layers` format. */
+export interface GraphLayer {
+  type: string;
+  [key: string]: any;
+}
+
+/** How a merge node combines its inputs. */
+export type MergeOp = "add" | "concat" | "multiply";
+
+export type GraphNode =
+  | { id: string; kind: "input"; shape?: number[] }
+  | { id: string; kind: "layer"; layer: GraphLayer }
+  | { id: string; kind: "merge"; op: MergeOp }
+  | { id: string; kind: "output" };
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+}
+
+export interface ArchitectureGraph {
+  version: 1;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export class GraphValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid architecture graph: ${issues.join("; ")}`);
+    this.name = "GraphValidationError";
+  }
+}
+
+const MERGE_OPS: MergeOp[] = ["add", "concat", "multiply"];
+
+/**
+ * Structural problems with a graph; empty when it is valid. A valid graph
+ * has one input and one output, is acyclic, gives every layer and the
+ * output exactly one inbound edge and every merge at least two, and has no
+ * node off the input-to-output paths.
+ */
+export function validateGraph(graph: ArchitectureGraph): string[] {
+  const issues: string[] = [];
+  if (graph?.version !== 1) issues.push("unsupported graph version");
+  if (!Array.isArray(graph?.nodes) || !Array.isArray(graph?.edges)) {
+    return [...issues, "graph needs nodes and edges arrays"];
+  }
+
+  const ids = new Set<string>();
+  for (const node of graph.nodes) {
+    if (ids.has(node.id)) issues.push(`duplicate node id "${node.id}"`);
+    ids.add(node.id);
+    if (node.kind === "layer" && typeof node.layer?.type !== "string") {
+      issues.push(`layer node "${node.id}" has no layer type`);
+    }
+    if (node.kind === "merge" && !MERGE_OPS.includes(node.op)) {
+      issues.push(`merge node "${node.id}" has unknown op "${node.op}"`);
+    }
+  }
+  for (const edge of graph.edges) {
+    for (const end of [edge.from, edge.to]) {
+      if (!ids.has(end)) issues.push(`edge references unknown node "${end}"`);
+    }
+  }
+  if (issues.length > 0) return issues;
+
+  const inputs = graph.nodes.filter((n) => n.kind === "input");
+  const outputs = graph.nodes.filter((n) => n.kind === "output");
+  if (inputs.length !== 1) issues.push("graph needs exactly one input node");
+  if (outputs.length !== 1) issues.push("graph needs exactly one output node");
+
+  for (const node of graph.nodes) {
+    const inbound = predecessors(graph, node.id).length;
+    if (node.kind === "input" && inbound > 0) {
+      issues.push(`input node "${node.id}" has inbound edges`);
+    }
+    if ((node.kind === "layer" || node.kind === "output") && inbound !== 1) {
+      issues.push(`${node.kind} node "${node.id}" needs exactly one input`);
+    }
+    if (node.kind === "merge" && inbound < 2) {
+      issues.push(`merge node "${node.id}" needs at least two inputs`);
+    }
+  }
+
+  if (topologicalOrder(graph).length !== graph.nodes.length) {
+    issues.push("graph contains a cycle");
+  } else if (inputs.length === 1 && outputs.length === 1) {
+    const fromInput = reachable(graph, inputs[0].id, "forward");
+    const toOutput = reachable(graph, outputs[0].id, "backward");
+    for (const node of graph.nodes) {
+      if (!fromInput.has(node.id) || !toOutput.has(node.id)) {
+        issues.push(`node "${node.id}" is not on a path from input to output`);
+      }
+    }
+  }
+  return issues;
+}
+
+/** Throws a GraphValidationError listing every issue found. */
+export function assertValidGraph(graph: ArchitectureGraph): void {
+  const issues = validateGraph(graph);
+  if (issues.length > 0) throw new GraphValidationError(issues);
+}
+
+/**
+ * Node ids in dependency order (Kahn), ties broken by declaration order.
+ * Shorter than `graph.nodes` when the graph has a cycle.
+ */
+export function topologicalOrder(graph: ArchitectureGraph): string[] {
+  const inbound = new Map(graph.nodes.map((n) => [n.id, 0]));
+  for (const edge of graph.edges) {
+    inbound.set(edge.to, (inbound.get(edge.to) || 0) + 1);
+  }
+
+  const order: string[] = [];
+  const ready = graph.nodes.filter((n) => inbound.get(n.id) === 0);
+  while (ready.length > 0) {
+    const node = ready.shift()!;
+    order.push(node.id);
+    for (const next of successors(graph, node.id)) {
+      inbound.set(next, inbound.get(next)! - 1);
+      if (inbound.get(next) === 0) {
+        ready.push(graph.nodes.find((n) => n.id === next)!);
+      }
+    }
+  }
+  return order;
+}
+
+/** Sources of a node's inbound edges, in edge order. */
+export function predecessors(graph: ArchitectureGraph, id: string): string[] {
+  return graph.edges.filter((e) => e.to === id).map((e) => e.from);
+}
+
+export function successors(graph: ArchitectureGraph, id: string): string[] {
+  return graph.edges.filter((e) => e.from === id).map((e) => e.to);
+}
+
+/** Wraps a flat layer list as a chain: input -> layer 0 -> ... -> output. */
+export function layersToGraph(
+  layers: GraphLayer[],
+  inputShape?: number[],
+): ArchitectureGraph {
+  const nodes: GraphNode[] = [
+    {
+      id: "input",
+      kind: "input",
+      ...(inputShape ? { shape: inputShape } : {}),
+    },
+    ...layers.map(
+      (layer, i): GraphNode => ({ id: `l${i}`, kind: "layer", layer }),
+    ),
+    { id: "output", kind: "output" },
+  ];
+  return {
+    version: 1,
+    nodes,
+    edges: nodes
+      .slice(1)
+      .map((node, i) => ({ from: nodes[i].id, to: node.id })),
+  };
+}
+
+/** True if the graph is a single chain, i.e. expressible as flat layers. */
+export function isLinearGraph(graph: ArchitectureGraph): boolean {
+  return (
+    validateGraph(graph).length === 0 &&
+    graph.nodes.every(
+      (n) => n.kind !== "merge" && successors(graph, n.id).length <= 1,
+    )
+  );
+}
+
+/**
+ * Inverse of layersToGraph for chains; throws for graphs with branches or
+ * merges, which the flat format cannot represent.
+ */
+export function graphToLayers(graph: ArchitectureGraph): GraphLayer[] {
+  assertValidGraph(graph);
+  if (!isLinearGraph(graph)) {
+    throw new GraphValidationError([
+      "graph has branches and cannot be flattened to a layer list",
+    ]);
+  }
+  return layerNodes(graph);
+}
+
+/** Layer configurations in topological order, ignoring the topology. */
+export function layerNodes(graph: ArchitectureGraph): GraphLayer[] {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+  return topologicalOrder(graph)
+    .map((id) => byId.get(id)!)
+    .filter(
+      (n): n is Extract<GraphNode, { kind: "layer" }> => n.kind === "layer",
+    )
+    .map((n) => n.layer);
+}
+
+function reachable(
+  graph: ArchitectureGraph,
+  start: string,
+  direction: "forward" | "backward",
+): Set<string> {
+  const seen = new Set([start]);
+  const stack = [start];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    const next =
+      direction === "forward" ? successors(graph, id) : predecessors(graph, id);
+    for (const n of next) {
+      if (!seen.has(n)) {
+        seen.add(n);
+        stack.push(n);
+      }
+    }
+  }
+  return seen;
+}
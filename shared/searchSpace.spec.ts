@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { SeededRandom } from "../server/nas/random";
+import {
+  parseSearchSpace,
+  sampleSearchSpace,
+  searchSpaceCardinality,
+  SearchSpaceSpec,
+} from "./searchSpace";
+
+const space = {
+  version: 1,
+  stages: [
+    {
+      kind: "sequence",
+      depth: { min: 0, max: 2 },
+      choices: [
+        {
+          type: "conv2d",
+          params: {
+            filters: { choices: [16, 32] },
+            separable: { choices: [true, false] },
+            depth_multiplier: {
+              choices: [1, 2],
+              when: { param: "separable", in: [true] },
+            },
+          },
+        },
+        { type: "pooling" },
+      ],
+    },
+    {
+      kind: "cell",
+      repeat: { min: 1, max: 2 },
+      slots: [
+        [{ type: "dense", params: { units: { min: 64, max: 128, step: 64 } } }],
+      ],
+    },
+  ],
+  training: { optimizer: "adam", learningRate: 0.01, batchSize: 32 },
+};
+
+function parse(input: unknown): SearchSpaceSpec {
+  const parsed = parseSearchSpace(input);
+  if (parsed.success === false) throw new Error(parsed.issues.join("; "));
+  return parsed.spec;
+}
+
+describe("searchSpaceCardinality", () => {
+  it("should count conditional parameters, depths and cell repeats", () => {
+    // conv2d: 2 filters x (separable with 2 multipliers + not separable) = 6,
+    // plus pooling = 7 per position; depth 0-2 gives 1 + 7 + 49 = 57.
+    // The dense cell has 2 widths and 2 repeat counts.
+    expect(searchSpaceCardinality(parse(space))).toBe(BigInt(57 * 4));
+  });
+});
+
+describe("sampleSearchSpace", () => {
+  it("should draw every configuration with equal probability", () => {
+    const spec = parse(space);
+    const rng = new SeededRandom(7);
+    const counts = new Map<string, number>();
+    const draws = 228 * 40;
+    for (let i = 0; i < draws; i++) {
+      const key = JSON.stringify(sampleSearchSpace(spec, rng).layers);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+
+    expect(counts.size).toBe(228);
+    expect(Math.min(...counts.values())).toBeGreaterThan(15);
+    expect(Math.max(...counts.values())).toBeLessThan(70);
+  });
+});
+
+describe("parseSearchSpace", () => {
+  it("should report every problem with its path", () => {
+    const parsed = parseSearchSpace({
+      version: 1,
+      stages: [
+        {
+          kind: "sequence",
+          depth: { min: 4, max: 2 },
+          choices: [
+            {
+              type: "conv2d",
+              params: {
+                kernel_size: { choices: [3, 5] },
+                dilation: { choices: [2], when: { param: "stride", in: [1] } },
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.success === false && parsed.issues).toEqual([
+      'stages.0.choices.0.params.dilation.when: "dilation" depends on unknown parameter "stride"',
+      "stages.0.depth: max must be at least min",
+    ]);
+  });
+});
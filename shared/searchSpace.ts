@@ -0,0 +1,416 @@
+import { z } from "zod";
+
+// Declarative search-space DSL shared by the client and the server: layer
+// choices with hyperparameter ranges, variable-depth sequences, repeated
+// cells and conditional parameters, with exact cardinality and uniform
+// sampling
+// Built by Shaurya Upadhyay
+
+const MAX_DEPTH = 100;
+const MAX_RANGE_VALUES = 1000000;
+
+export type Scalar = number | string | boolean;
+
+export interface Condition {
+  param: string;
+  in: Scalar[];
+}
+
+export type ParamSpec =
+  | Scalar
+  | { choices: Scalar[]; when?: Condition }
+  | { min: number; max: number; step: number; when?: Condition };
+
+export interface LayerChoice {
+  type: string;
+  params: Record<string, ParamSpec>;
+}
+
+export interface Count {
+  min: number;
+  max: number;
+}
+
+export type Stage =
+  | { kind: "sequence"; choices: LayerChoice[]; depth: Count }
+  | { kind: "cell"; slots: LayerChoice[][]; repeat: Count };
+
+export interface SearchSpaceSpec {
+  version: 1;
+  stages: Stage[];
+  training: {
+    optimizer: ParamSpec;
+    learningRate: ParamSpec;
+    batchSize: ParamSpec;
+  };
+}
+
+const scalarSchema = z.union([z.number(), z.string(), z.boolean()]);
+
+// A parameter only exists when another parameter of the layer takes one of
+// the listed values
+const conditionSchema = z
+  .object({ param: z.string(), in: z.array(scalarSchema).min(1) })
+  .strict();
+
+const choicesSchema = z
+  .object({
+    choices: z.array(scalarSchema).min(1),
+    when: conditionSchema.optional(),
+  })
+  .strict();
+
+const rangeSchema = z
+  .object({
+    min: z.number(),
+    max: z.number(),
+    step: z.number().positive().default(1),
+    when: conditionSchema.optional(),
+  })
+  .strict()
+  .refine((r) => r.max >= r.min, { message: "max must be at least min" })
+  .refine((r) => rangeSize(r as Count & { step: number }) <= MAX_RANGE_VALUES, {
+    message: `a range may hold at most ${MAX_RANGE_VALUES} values`,
+  });
+
+/** A fixed value, a list of choices, or an inclusive stepped range. */
+export const paramSchema = z.union([scalarSchema, choicesSchema, rangeSchema]);
+
+export const layerChoiceSchema = z
+  .object({
+    type: z.string().min(1),
+    params: z.record(paramSchema).default({}),
+  })
+  .strict()
+  .superRefine((layer, ctx) => {
+    const params = layer.params as Record<string, ParamSpec>;
+    for (const [name, param] of Object.entries(params)) {
+      const when = typeof param === "object" ? param.when : undefined;
+      if (!when) continue;
+      const parent = params[when.param];
+      if (parent === undefined || when.param === name) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["params", name, "when"],
+          message: `"${name}" depends on unknown parameter "${when.param}"`,
+        });
+      } else if (typeof parent === "object" && parent.when) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["params", name, "when"],
+          message: `"${name}" depends on "${when.param}", which is itself conditional`,
+        });
+      } else {
+        const values = paramValues(parent);
+        const unreachable = when.in.filter((v) => !values.includes(v));
+        if (unreachable.length > 0) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["params", name, "when", "in"],
+            message: `"${when.param}" never takes ${unreachable.join(", ")}`,
+          });
+        }
+      }
+    }
+  });
+
+const countSchema = z
+  .object({
+    min: z.number().int().min(0),
+    max: z.number().int().max(MAX_DEPTH),
+  })
+  .strict()
+  .refine((c) => c.max >= c.min, { message: "max must be at least min" });
+
+/**
+ * A stage contributes layers in order. A sequence has a variable number of
+ * positions, each choosing its own layer; a cell picks one layer per slot
+ * once and repeats the whole cell.
+ */
+export const stageSchema = z.discriminatedUnion("kind", [
+  z
+    .object({
+      kind: z.literal("sequence"),
+      choices: z.array(layerChoiceSchema).min(1),
+      depth: countSchema,
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("cell"),
+      slots: z.array(z.array(layerChoiceSchema).min(1)).min(1),
+      repeat: countSchema,
+    })
+    .strict(),
+]);
+
+export const searchSpaceSchema = z
+  .object({
+    version: z.literal(1),
+    stages: z.array(stageSchema).min(1),
+    training: z
+      .object({
+        optimizer: paramSchema.default({ choices: ["adam", "sgd", "rmsprop"] }),
+        learningRate: paramSchema.default({ choices: [0.001, 0.01, 0.1] }),
+        batchSize: paramSchema.default({ choices: [16, 32, 64, 128] }),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+export interface SampledArchitecture {
+  layers: { type: string; [key: string]: any }[];
+  optimizer: Scalar;
+  learningRate: Scalar;
+  batchSize: Scalar;
+}
+
+/** Anything with a uniform [0, 1) generator, e.g. the server's SeededRandom. */
+export interface RandomSource {
+  next(): number;
+}
+
+export type SearchSpaceParseResult =
+  | { success: true; spec: SearchSpaceSpec }
+  | { success: false; issues: string[] };
+
+/** Validates a search space, returning every issue with its path. */
+export function parseSearchSpace(input: unknown): SearchSpaceParseResult {
+  const parsed = searchSpaceSchema.safeParse(input);
+  if (parsed.success) {
+    return { success: true, spec: parsed.data as SearchSpaceSpec };
+  }
+  return {
+    success: false,
+    issues: parsed.error.issues.map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    ),
+  };
+}
+
+/** True for DSL spaces, as opposed to the flat string-array format. */
+export function isSearchSpaceSpec(input: unknown): boolean {
+  return (
+    typeof input === "object" &&
+    input !== null &&
+    Array.isArray((input as any).stages)
+  );
+}
+
+/**
+ * Number of distinct configurations in the space: layer lists times
+ * training hyperparameters. Duplicate choices are counted separately.
+ */
+export function searchSpaceCardinality(spec: SearchSpaceSpec): bigint {
+  const training = Object.values(spec.training).reduce(
+    (total, param) => total * BigInt(paramValues(param).length),
+    BigInt(1),
+  );
+  return spec.stages.reduce(
+    (total, stage) => total * stageCardinality(stage),
+    training,
+  );
+}
+
+export function stageCardinality(stage: Stage): bigint {
+  if (stage.kind === "sequence") {
+    const perPosition = sum(stage.choices.map(layerCardinality));
+    return sum(depths(stage.depth).map((d) => perPosition ** BigInt(d)));
+  }
+  const cell = stage.slots.reduce(
+    (total, slot) => total * sum(slot.map(layerCardinality)),
+    BigInt(1),
+  );
+  return cell * BigInt(stage.repeat.max - stage.repeat.min + 1);
+}
+
+/** Configurations of one layer choice, accounting for conditional params. */
+export function layerCardinality(choice: LayerChoice): bigint {
+  return Object.entries(choice.params)
+    .filter(([, param]) => !isConditional(param))
+    .reduce(
+      (total, [name, param]) =>
+        total * sum(valueWeights(choice, name, paramValues(param))),
+      BigInt(1),
+    );
+}
+
+/** Draws an architecture uniformly from every configuration in the space. */
+export function sampleSearchSpace(
+  spec: SearchSpaceSpec,
+  rng: RandomSource,
+): SampledArchitecture {
+  const layers = spec.stages.flatMap((stage) => sampleStage(stage, rng));
+  const [optimizer, learningRate, batchSize] = [
+    spec.training.optimizer,
+    spec.training.learningRate,
+    spec.training.batchSize,
+  ].map((param) => pick(paramValues(param), rng));
+  return { layers, optimizer, learningRate, batchSize };
+}
+
+/**
+ * A fresh layer of the given type, drawn uniformly from every choice in the
+ * space that declares it, or null if no stage offers that type.
+ */
+export function sampleLayerOfType(
+  spec: SearchSpaceSpec,
+  type: string,
+  rng: RandomSource,
+): SampledArchitecture["layers"][number] | null {
+  const choices = allChoices(spec).filter((c) => c.type === type);
+  return choices.length > 0 ? sampleLayer(pickChoice(choices, rng), rng) : null;
+}
+
+/**
+ * The space in the flat format the search strategies also read: layer
+ * types, activations and training hyperparameter lists.
+ */
+export function flattenSearchSpace(spec: SearchSpaceSpec) {
+  const choices = allChoices(spec);
+  const activations = choices.flatMap((c) =>
+    c.params.activation === undefined ? [] : paramValues(c.params.activation),
+  );
+  return {
+    layers: unique(choices.map((c) => c.type)),
+    activations: unique(activations.map(String)),
+    optimizers: paramValues(spec.training.optimizer).map(String),
+    learningRates: paramValues(spec.training.learningRate).map(Number),
+    batchSizes: paramValues(spec.training.batchSize).map(Number),
+  };
+}
+
+/** Every value a parameter can take, in declaration order. */
+export function paramValues(param: ParamSpec): Scalar[] {
+  if (typeof param !== "object") return [param];
+  if ("choices" in param) return unique(param.choices);
+  const count = rangeSize(param);
+  // Round away float drift so 0.1 steps give 0.3, not 0.30000000000000004
+  return Array.from({ length: count }, (_, i) =>
+    Number((param.min + i * param.step).toPrecision(12)),
+  );
+}
+
+function sampleStage(stage: Stage, rng: RandomSource) {
+  if (stage.kind === "sequence") {
+    const perPosition = sum(stage.choices.map(layerCardinality));
+    const options = depths(stage.depth);
+    const depth =
+      options[
+        pickWeighted(
+          options.map((d) => perPosition ** BigInt(d)),
+          rng,
+        )
+      ];
+    return Array.from({ length: depth }, () =>
+      sampleLayer(pickChoice(stage.choices, rng), rng),
+    );
+  }
+  const repeat = pick(depths(stage.repeat), rng);
+  const cell = stage.slots.map((slot) =>
+    sampleLayer(pickChoice(slot, rng), rng),
+  );
+  return Array.from({ length: repeat }, () =>
+    cell.map((layer) => ({ ...layer })),
+  ).flat();
+}
+
+// Choices weighted by their configuration counts keep the draw uniform
+function pickChoice(choices: LayerChoice[], rng: RandomSource): LayerChoice {
+  return choices[pickWeighted(choices.map(layerCardinality), rng)];
+}
+
+function sampleLayer(choice: LayerChoice, rng: RandomSource) {
+  const layer: { type: string; [key: string]: any } = { type: choice.type };
+  for (const [name, param] of Object.entries(choice.params)) {
+    if (isConditional(param)) continue;
+    const values = paramValues(param);
+    const value = values[pickWeighted(valueWeights(choice, name, values), rng)];
+    layer[name] = value;
+    for (const [child, childParam] of dependents(choice, name)) {
+      if (activeAt(childParam, value)) {
+        layer[child] = pick(paramValues(childParam), rng);
+      }
+    }
+  }
+  return layer;
+}
+
+// Configurations each value of a parameter opens up through its dependents
+function valueWeights(
+  choice: LayerChoice,
+  name: string,
+  values: Scalar[],
+): bigint[] {
+  const children = dependents(choice, name);
+  return values.map((value) =>
+    children.reduce(
+      (total, [, child]) =>
+        activeAt(child, value)
+          ? total * BigInt(paramValues(child).length)
+          : total,
+      BigInt(1),
+    ),
+  );
+}
+
+function dependents(choice: LayerChoice, name: string): [string, ParamSpec][] {
+  return Object.entries(choice.params).filter(
+    ([, param]) =>
+      typeof param === "object" && param.when && param.when.param === name,
+  );
+}
+
+function isConditional(param: ParamSpec): boolean {
+  return typeof param === "object" && param.when !== undefined;
+}
+
+function activeAt(param: ParamSpec, parentValue: Scalar): boolean {
+  return typeof param === "object" && !!param.when?.in.includes(parentValue);
+}
+
+function allChoices(spec: SearchSpaceSpec): LayerChoice[] {
+  return spec.stages.flatMap((stage) =>
+    stage.kind === "sequence" ? stage.choices : stage.slots.flat(),
+  );
+}
+
+// Index drawn with probability weight / total. Weights can exceed the float
+// range, so the ratio is taken in integer arithmetic at 2^-53 resolution.
+function pickWeighted(weights: bigint[], rng: RandomSource): number {
+  const total = sum(weights);
+  const scale = BigInt(2) ** BigInt(53);
+  let u = rng.next();
+  for (let i = 0; i < weights.length - 1; i++) {
+    const p = Number((weights[i] * scale) / total) / 2 ** 53;
+    if (u < p) return i;
+    u -= p;
+  }
+  return weights.length - 1;
+}
+
+function pick<T>(values: T[], rng: RandomSource): T {
+  return values[Math.floor(rng.next() * values.length)];
+}
+
+function depths(count: { min: number; max: number }): number[] {
+  return Array.from(
+    { length: count.max - count.min + 1 },
+    (_, i) => count.min + i,
+  );
+}
+
+function rangeSize(range: { min: number; max: number; step: number }): number {
+  return Math.floor((range.max - range.min) / range.step + 1e-9) + 1;
+}
+
+function sum(values: bigint[]): bigint {
+  return values.reduce((total, v) => total + v, BigInt(0));
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { SeededRandom } from "../server/nas/random";
+import { inferShapes } from "../server/nas/shapes";
+import { parseSearchSpace, sampleSearchSpace } from "./searchSpace";
+import {
+  getSearchSpaceTemplate,
+  SEARCH_SPACE_TEMPLATES,
+} from "./searchSpaceTemplates";
+
+describe("SEARCH_SPACE_TEMPLATES", () => {
+  it("should only sample architectures the shape engine understands", () => {
+    for (const template of SEARCH_SPACE_TEMPLATES) {
+      const parsed = parseSearchSpace(template.space);
+      expect(parsed.success).toBe(true);
+
+      const rng = new SeededRandom(1);
+      for (let i = 0; i < 5; i++) {
+        const { layers } = sampleSearchSpace(template.space, rng);
+        expect(inferShapes(layers, template.dataset).warnings).toEqual([]);
+      }
+    }
+  });
+
+  it("should resolve templates by name and by name@version", () => {
+    expect(getSearchSpaceTemplate("vit-small")?.title).toBe("Small ViT space");
+    expect(getSearchSpaceTemplate("mobilenetv3@1")?.version).toBe(1);
+    expect(getSearchSpaceTemplate("mobilenetv3@2")).toBeUndefined();
+  });
+});
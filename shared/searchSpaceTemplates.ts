@@ -0,0 +1,224 @@
+import { LayerChoice, SearchSpaceSpec, Stage } from "./searchSpace";
+
+// Named, versioned search-space templates modelled on well-known network
+// families, each with the dataset and constraints it is meant for
+// Built by Shaurya Upadhyay
+
+export interface SearchSpaceTemplate {
+  name: string;
+  version: number;
+  title: string;
+  description: string;
+  dataset: string;
+  // Defaults for the search, tuned so that some but not all of the space
+  // passes on the default device; request constraints override them one
+  // by one
+  constraints: {
+    maxParams?: number;
+    maxLatency?: number;
+    minAccuracy?: number;
+    maxMemory?: number;
+    energyBudget?: number;
+  };
+  space: SearchSpaceSpec;
+}
+
+const TRAINING: SearchSpaceSpec["training"] = {
+  optimizer: { choices: ["adam", "sgd", "rmsprop"] },
+  learningRate: { choices: [0.001, 0.01, 0.1] },
+  batchSize: { choices: [32, 64, 128, 256] },
+};
+
+const layer = (type: string, params: LayerChoice["params"] = {}) => ({
+  type,
+  params,
+});
+const fixed = (...layers: LayerChoice[]): Stage => ({
+  kind: "cell",
+  slots: layers.map((l) => [l]),
+  repeat: { min: 1, max: 1 },
+});
+
+// One MobileNetV3 stage: a strided first block, then 0-3 more at stride 1
+function mbStage(filters: number, stride: number): Stage[] {
+  const block = (s: number) =>
+    layer("mb_conv", {
+      filters,
+      stride: s,
+      kernel_size: { choices: [3, 5, 7] },
+      expansion: { choices: [3, 4, 6] },
+      se_ratio: { choices: [0, 0.25] },
+    });
+  return [
+    fixed(block(stride)),
+    { kind: "sequence", choices: [block(1)], depth: { min: 0, max: 3 } },
+  ];
+}
+
+function bottleneckStage(filters: number, stride: number, maxBlocks: number) {
+  return fixed(
+    layer("residual_block", {
+      filters: { choices: [filters / 2, (filters * 3) / 4, filters] },
+      blocks: { min: 1, max: maxBlocks, step: 1 },
+      stride,
+      bottleneck: true,
+    }),
+  );
+}
+
+// The NAS-Bench-201 operation set on each of a cell's six edges. The flat
+// layer format has no branches, so the edges are laid out as a chain and
+// the "none" operation, which would cut it, is left out.
+function nb201Cell(channels: number): Stage {
+  const edge = [
+    layer("identity"),
+    layer("conv2d", { filters: channels, kernel_size: 1, activation: "relu" }),
+    layer("conv2d", { filters: channels, kernel_size: 3, activation: "relu" }),
+    layer("avg_pool", { pool_size: 3, stride: 1, padding: "same" }),
+  ];
+  return {
+    kind: "cell",
+    slots: Array.from({ length: 6 }, () => edge),
+    repeat: { min: 5, max: 5 },
+  };
+}
+
+export const SEARCH_SPACE_TEMPLATES: SearchSpaceTemplate[] = [
+  {
+    name: "mobilenetv3",
+    version: 1,
+    title: "MobileNetV3-like MBConv space",
+    description:
+      "Inverted-residual stages with per-block kernel size, expansion ratio and squeeze-excitation, and 1-4 blocks per stage",
+    dataset: "imagenet",
+    constraints: { maxParams: 5000000, maxLatency: 38, minAccuracy: 0.78 },
+    space: {
+      version: 1,
+      stages: [
+        fixed(
+          layer("conv2d", {
+            filters: 16,
+            kernel_size: 3,
+            stride: 2,
+            activation: "hard_swish",
+          }),
+        ),
+        ...mbStage(24, 2),
+        ...mbStage(40, 2),
+        ...mbStage(80, 2),
+        ...mbStage(112, 1),
+        ...mbStage(160, 2),
+        fixed(
+          layer("pointwise_conv", { filters: 960 }),
+          layer("global_avg_pool"),
+          layer("dense", { units: 1280, activation: "hard_swish" }),
+          layer("dense", { units: 1000 }),
+        ),
+      ],
+      training: TRAINING,
+    },
+  },
+  {
+    name: "resnet-bottleneck",
+    version: 1,
+    title: "ResNet bottleneck space",
+    description:
+      "Four bottleneck stages with searchable width and depth, from ResNet-18-sized to wider-than-ResNet-50 networks",
+    dataset: "imagenet",
+    constraints: { maxParams: 15000000, maxLatency: 250, minAccuracy: 0.85 },
+    space: {
+      version: 1,
+      stages: [
+        fixed(
+          layer("conv2d", { filters: 64, kernel_size: 7, stride: 2 }),
+          layer("batch_norm"),
+          layer("max_pool", { pool_size: 3, stride: 2, padding: "same" }),
+        ),
+        bottleneckStage(64, 1, 3),
+        bottleneckStage(128, 2, 4),
+        bottleneckStage(256, 2, 6),
+        bottleneckStage(512, 2, 3),
+        fixed(layer("global_avg_pool"), layer("dense", { units: 1000 })),
+      ],
+      training: TRAINING,
+    },
+  },
+  {
+    name: "nas-bench-201",
+    version: 1,
+    title: "NAS-Bench-201-style cell space",
+    description:
+      "Three stages of five stacked cells at 16, 32 and 64 channels joined by residual reduction blocks; each cell picks one of four operations per edge",
+    dataset: "cifar10",
+    constraints: { maxParams: 500000, maxLatency: 10, minAccuracy: 0.85 },
+    space: {
+      version: 1,
+      stages: [
+        fixed(
+          layer("conv2d", { filters: 16, kernel_size: 3 }),
+          layer("batch_norm"),
+        ),
+        nb201Cell(16),
+        fixed(layer("residual_block", { filters: 32, stride: 2 })),
+        nb201Cell(32),
+        fixed(layer("residual_block", { filters: 64, stride: 2 })),
+        nb201Cell(64),
+        fixed(
+          layer("batch_norm"),
+          layer("global_avg_pool"),
+          layer("dense", { units: 10 }),
+        ),
+      ],
+      training: TRAINING,
+    },
+  },
+  {
+    name: "vit-small",
+    version: 1,
+    title: "Small ViT space",
+    description:
+      "Vision transformers for 32x32 images with searchable patch size, embedding width, depth, heads and MLP ratio",
+    dataset: "cifar10",
+    constraints: { maxParams: 8000000, maxLatency: 100, minAccuracy: 0.9 },
+    space: {
+      version: 1,
+      stages: [
+        fixed(
+          layer("patch_embed", {
+            patch_size: { choices: [2, 4, 8] },
+            dim: { choices: [96, 192, 256, 384] },
+          }),
+        ),
+        {
+          kind: "sequence",
+          choices: [
+            layer("transformer_block", {
+              heads: { choices: [2, 4, 8] },
+              mlp_ratio: { choices: [2, 3, 4] },
+            }),
+          ],
+          depth: { min: 4, max: 12 },
+        },
+        fixed(
+          layer("layer_norm"),
+          layer("global_avg_pool"),
+          layer("dense", { units: 10 }),
+        ),
+      ],
+      training: TRAINING,
+    },
+  },
+];
+
+/**
+ * Looks a template up by "name" (latest version) or "name@version".
+ */
+export function getSearchSpaceTemplate(
+  reference: string,
+): SearchSpaceTemplate | undefined {
+  const [name, version] = reference.split("@");
+  const matches = SEARCH_SPACE_TEMPLATES.filter(
+    (t) => t.name === name && (!version || String(t.version) === version),
+  );
+  return matches.sort((a, b) => b.version - a.version)[0];
+}
@@ -5,7 +5,14 @@ import path from "path";
 export default defineConfig({
   build: {
     lib: {
-      entry: path.resolve(__dirname, "server/node-build.ts"),
+      entry: {
+        "node-build": path.resolve(__dirname, "server/node-build.ts"),
+        // Loaded by the evaluation pool from next to node-build.mjs
+        evaluationWorker: path.resolve(
+          __dirname,
+          "server/nas/evaluationWorker.ts",
+        ),
+      },
       name: "server",
       fileName: "production",
       formats: ["es"],
@@ -1,7 +1,7 @@
 import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
-import { createServer } from "./server";
+import { createServer, startSearchRunner } from "./server";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -31,6 +31,9 @@ function expressPlugin(): Plugin {
     apply: "serve", // Only apply during development (serve mode)
     configureServer(server) {
       const app = createServer();
+      startSearchRunner().catch((error) =>
+        console.error("Could not start the search runner:", error),
+      );
 
       // Add Express app as middleware to Vite dev server
       server.middlewares.use(app);